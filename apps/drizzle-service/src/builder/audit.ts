@@ -0,0 +1,338 @@
+import { effectErrorHandler, tryHandleError } from '@/helpers'
+import { runTransaction } from './transaction'
+import type {
+	AuditChanges,
+	AuditEntry,
+	AuditOperation,
+	AuditOption,
+	BaseDatabase,
+	ServiceError,
+	ServiceMethodMap,
+	ServiceMethodName,
+} from './types'
+
+type Row = Record<string, unknown>
+type Change = [before: Row | null, after: Row | null]
+type Tuple = [ServiceError | null, unknown]
+type Bulk = [unknown, Row[]]
+
+interface AuditConfig {
+	readonly entityName: string
+	readonly idField: PropertyKey
+	readonly audit: AuditOption | undefined
+	readonly write: (entries: Array<Omit<AuditEntry, 'id'>>) => Promise<unknown>
+}
+
+interface AuditTransactionConfig {
+	readonly db: BaseDatabase
+	readonly audit: AuditOption | undefined
+	/**
+	 * Whether the service is already bound to a transaction
+	 */
+	readonly bound: boolean
+	readonly bind: (tx: BaseDatabase) => object
+}
+
+const auditedMethods: ServiceMethodName[] = [
+	'create',
+	'findOrCreate',
+	'upsert',
+	'update',
+	'delete',
+	'restore',
+	'hardDelete',
+	'bulkCreate',
+	'bulkUpdate',
+	'bulkUpsert',
+	'bulkDelete',
+	'bulkRestore',
+	'bulkHardDelete',
+]
+
+// Carries a failed tuple out of the transaction so it rolls back
+class Rollback {
+	constructor(readonly result: unknown) {}
+}
+
+// Dates and bigints are stored as strings in the json column
+function normalize(value: unknown): unknown {
+	if (value instanceof Date) return value.toISOString()
+	if (typeof value === 'bigint') return value.toString()
+	return value ?? null
+}
+
+/**
+ * Column level diff between two versions of a row, unchanged columns are left out.
+ */
+export function diffChanges(
+	before: Row | null,
+	after: Row | null,
+): AuditChanges {
+	const changes: AuditChanges = {}
+	const keys = new Set([
+		...Object.keys(before ?? {}),
+		...Object.keys(after ?? {}),
+	])
+
+	for (const key of keys) {
+		const previous = normalize(before?.[key])
+		const next = normalize(after?.[key])
+		if (JSON.stringify(previous) !== JSON.stringify(next)) {
+			changes[key] = { before: previous, after: next }
+		}
+	}
+
+	return changes
+}
+
+/**
+ * Wraps the mutations so every change is written to the audit table with its
+ * before/after diff. Entries are written with the service database, see
+ * `withAuditTransaction` for the transaction they share with the change.
+ */
+export function withAudit<M extends object>(
+	methods: M,
+	{ entityName, idField, audit, write }: AuditConfig,
+): M {
+	if (!audit) return methods
+
+	const source = methods as ServiceMethodMap
+	const wrapped: Record<string, unknown> = { ...source }
+
+	const idOf = (row: Row) => String(row[idField as string])
+
+	async function findById(id: unknown): Promise<Row[]> {
+		if (id === undefined || id === null) return []
+		const row = (await source.findOne(id, { withDeleted: true })) as Row | null
+		return row ? [row] : []
+	}
+
+	async function findByIds(ids: unknown[]): Promise<Row[]> {
+		if (ids.length === 0) return []
+		return (await source.findBy(
+			{ [idField]: { $in: ids } },
+			{ withDeleted: true },
+		)) as Row[]
+	}
+
+	// Rows targeted by a mutation, a `custom` condition can match several of them
+	async function targets(
+		id: unknown,
+		hooks?: { custom?: unknown },
+	): Promise<Row[]> {
+		if (hooks?.custom) {
+			return (await source.find({
+				where: hooks.custom,
+				withDeleted: true,
+			})) as Row[]
+		}
+		return findById(id)
+	}
+
+	function pairById(before: Row[], after: Row[]): Change[] {
+		const previous = new Map(before.map((row) => [idOf(row), row]))
+		return after.map((row) => [previous.get(idOf(row)) ?? null, row])
+	}
+
+	// Rows that are gone after the mutation were hard deleted
+	function removed(before: Row[], after: Row[]): Change[] {
+		const remaining = new Set(after.map(idOf))
+		return before
+			.filter((row) => !remaining.has(idOf(row)))
+			.map((row) => [row, null])
+	}
+
+	async function record(operation: AuditOperation, changes: Change[]) {
+		const actor = (await audit?.actor?.()) ?? null
+		const createdAt = new Date()
+		const entries = changes
+			.map(([before, after]) => ({
+				entityName,
+				entityId: idOf((after ?? before) as Row),
+				operation,
+				actor,
+				changes: diffChanges(before, after),
+				createdAt,
+			}))
+			.filter((entry) => Object.keys(entry.changes).length > 0)
+
+		if (entries.length > 0) await write(entries)
+	}
+
+	// Tuple returning mutations resolve audit failures as `[error, null]`
+	async function tuple(
+		run: () => Promise<unknown>,
+		before: () => Promise<Row[]>,
+		operation: (before: Row[]) => AuditOperation,
+	) {
+		try {
+			const previous = await before()
+			const result = (await run()) as Tuple
+			if (result[0]) return result
+
+			const after = (
+				Array.isArray(result[1]) ? result[1] : [result[1]]
+			) as Row[]
+			await record(operation(previous), pairById(previous, after))
+			return result
+		} catch (error) {
+			return tryHandleError(effectErrorHandler(error))
+		}
+	}
+
+	const createOrUpdate = (before: Row[]): AuditOperation =>
+		before.length > 0 ? 'update' : 'create'
+
+	wrapped.create = (data: Row, hooks?: unknown) =>
+		tuple(
+			() => source.create(data, hooks),
+			async () => [],
+			() => 'create',
+		)
+	wrapped.findOrCreate = (data: Row, hooks?: unknown) =>
+		tuple(
+			() => source.findOrCreate(data, hooks),
+			() => findById(data[idField as string]),
+			createOrUpdate,
+		)
+	wrapped.upsert = (data: Row, hooks?: unknown) =>
+		tuple(
+			() => source.upsert(data, hooks),
+			() => findById(data[idField as string]),
+			createOrUpdate,
+		)
+	wrapped.update = (id: unknown, data: Row, hooks?: { custom?: unknown }) =>
+		tuple(
+			() => source.update(id, data, hooks),
+			() => targets(id, hooks),
+			() => 'update',
+		)
+
+	for (const operation of ['delete', 'restore', 'hardDelete'] as const) {
+		wrapped[operation] = async (id: unknown, hooks?: { custom?: unknown }) => {
+			const before = await targets(id, hooks)
+			const result = (await source[operation](id, hooks)) as {
+				success: boolean
+			}
+			if (!result.success) return result
+
+			const after = await findByIds(before.map((row) => row[idField as string]))
+			await record(
+				operation,
+				operation === 'hardDelete'
+					? removed(before, after)
+					: pairById(before, after),
+			)
+			return result
+		}
+	}
+
+	wrapped.bulkCreate = async (rows: Row[], hooks?: unknown) => {
+		const result = (await source.bulkCreate(rows, hooks)) as Bulk
+		await record(
+			'create',
+			result[1].map((row) => [null, row]),
+		)
+		return result
+	}
+	wrapped.bulkUpdate = async (
+		rows: Array<{ id: unknown; changes: Row }>,
+		hooks?: unknown,
+	) => {
+		const before = await findByIds(rows.map((row) => row.id))
+		const result = (await source.bulkUpdate(rows, hooks)) as Bulk
+		await record('update', pairById(before, result[1]))
+		return result
+	}
+	wrapped.bulkUpsert = async (
+		rows: Row[],
+		opts: { target: readonly string[] },
+		hooks?: unknown,
+	) => {
+		// Stored rows sharing the target values, the returned rows found among them were updated
+		const values = opts.target.map((field): [string, unknown[]] => [
+			field,
+			rows.map((row) => row[field]).filter((value) => value !== undefined),
+		])
+		const before = values.every(([, list]) => list.length > 0)
+			? ((await source.findBy(
+					Object.fromEntries(
+						values.map(([field, list]) => [field, { $in: list }]),
+					),
+					{ withDeleted: true },
+				)) as Row[])
+			: []
+		const result = (await source.bulkUpsert(rows, opts, hooks)) as Bulk
+		const previous = new Set(before.map(idOf))
+		const after = result[1]
+		await record(
+			'create',
+			after.filter((row) => !previous.has(idOf(row))).map((row) => [null, row]),
+		)
+		await record(
+			'update',
+			pairById(
+				before,
+				after.filter((row) => previous.has(idOf(row))),
+			),
+		)
+		return result
+	}
+
+	for (const [name, operation] of [
+		['bulkDelete', 'delete'],
+		['bulkRestore', 'restore'],
+		['bulkHardDelete', 'hardDelete'],
+	] as const) {
+		wrapped[name] = async (ids: unknown[], hooks?: unknown) => {
+			const before = await findByIds(ids)
+			const result = await source[name](ids, hooks)
+			const after = await findByIds(ids)
+			await record(
+				operation,
+				operation === 'hardDelete'
+					? removed(before, after)
+					: pairById(before, after),
+			)
+			return result
+		}
+	}
+
+	return wrapped as M
+}
+
+/**
+ * Runs the audited mutations of a service that is not bound to a transaction
+ * in a copy bound to a new one, so the change, its before snapshot and its
+ * audit entries commit together. A failed tuple, audit write included, rolls
+ * the change back.
+ */
+export function withAuditTransaction<M extends object>(
+	methods: M,
+	{ db, audit, bound, bind }: AuditTransactionConfig,
+): M {
+	if (!audit || bound) return methods
+
+	const wrapped: Record<string, unknown> = { ...(methods as object) }
+
+	for (const name of auditedMethods) {
+		if (typeof (methods as ServiceMethodMap)[name] !== 'function') continue
+
+		wrapped[name] = async (...args: unknown[]) => {
+			try {
+				return await runTransaction(db, async (tx) => {
+					const result = await (bind(tx) as ServiceMethodMap)[name](...args)
+					if (Array.isArray(result) && result[0] instanceof Error) {
+						throw new Rollback(result)
+					}
+					return result
+				})
+			} catch (error) {
+				if (error instanceof Rollback) return error.result
+				throw error
+			}
+		}
+	}
+
+	return wrapped as M
+}
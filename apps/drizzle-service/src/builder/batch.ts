@@ -0,0 +1,89 @@
+import type { Column } from 'drizzle-orm'
+import { Effect, Either } from 'effect'
+import type { BatchErrorMode, ServiceError } from './types'
+
+export interface BatchFailure {
+	/**
+	 * Position of the row in the input array
+	 */
+	readonly index: number
+	readonly error: ServiceError
+}
+
+export interface BatchResult<A> {
+	readonly data: A[]
+	readonly failures: BatchFailure[]
+}
+
+/**
+ * Writes the rows of a batch and, when the write fails, narrows the failure down
+ * as `mode` says: `fail-batch` fails every row, `bisect` retries both halves until
+ * the failing rows are alone and `row-by-row` retries every row on its own.
+ * `offset` is the input position of the first row, failures report the input index.
+ */
+export function writeBatch<R, A>(
+	rows: R[],
+	offset: number,
+	write: (rows: R[]) => Effect.Effect<A[], ServiceError>,
+	mode: BatchErrorMode = 'fail-batch',
+): Effect.Effect<BatchResult<A>> {
+	return Effect.gen(function* () {
+		const written = yield* Effect.either(write(rows))
+		if (Either.isRight(written)) return { data: written.right, failures: [] }
+
+		if (mode === 'fail-batch' || rows.length === 1) {
+			return {
+				data: [],
+				failures: rows.map((_, index) => ({
+					index: offset + index,
+					error: written.left,
+				})),
+			}
+		}
+
+		const size = mode === 'bisect' ? Math.ceil(rows.length / 2) : 1
+		const result: BatchResult<A> = { data: [], failures: [] }
+		for (let start = 0; start < rows.length; start += size) {
+			const part = yield* writeBatch(
+				rows.slice(start, start + size),
+				offset + start,
+				write,
+				mode,
+			)
+			result.data.push(...part.data)
+			result.failures.push(...part.failures)
+		}
+		return result
+	})
+}
+
+/**
+ * Columns changed by every update of the batch when all of them change the same
+ * columns of different rows, so the batch can be written in a single statement.
+ * Undefined when the updates have to be written one by one.
+ */
+export function sharedColumns(
+	updates: ReadonlyArray<{ id: unknown; changes: object }>,
+	columns: Record<string, Column>,
+): string[] | undefined {
+	const changed = (changes: object) =>
+		Object.entries(changes)
+			.filter(([, value]) => value !== undefined)
+			.map(([field]) => field)
+			.sort()
+
+	const [first] = updates
+	if (!first || updates.length < 2) return undefined
+	const fields = changed(first.changes)
+	if (fields.length === 0 || fields.some((field) => !columns[field])) {
+		return undefined
+	}
+	if (new Set(updates.map((update) => update.id)).size !== updates.length) {
+		return undefined
+	}
+
+	const key = fields.join()
+	return updates.every((update) => changed(update.changes).join() === key)
+		? fields
+		: undefined
+}
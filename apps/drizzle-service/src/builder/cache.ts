@@ -0,0 +1,202 @@
+import { Column, getTableName, is, SQL, Table } from 'drizzle-orm'
+import { afterCommit } from './transaction'
+import type {
+	BaseDatabase,
+	CacheAdapter,
+	CacheOption,
+	ServiceMethodMap,
+	ServiceMethodName,
+} from './types'
+
+interface CacheConfig {
+	readonly db: BaseDatabase
+	readonly entityName: string
+	readonly cache: CacheOption | undefined
+	/**
+	 * Renders a condition to its query text and params so it can be part of a key
+	 */
+	readonly render: (condition: SQL) => { sql: string; params: unknown[] }
+	/**
+	 * Services bound to a transaction skip cached reads, mutations still invalidate
+	 */
+	readonly readThrough: boolean
+	/**
+	 * Part of the key that depends on the caller, like its tenants, so callers
+	 * never share entries they could not read themselves
+	 */
+	readonly partition?: () => Promise<unknown>
+}
+
+const cachedMethods: ServiceMethodName[] = [
+	'findOne',
+	'findFirst',
+	'find',
+	'findBy',
+	'count',
+	'aggregate',
+]
+
+const mutationMethods: ServiceMethodName[] = [
+	'create',
+	'update',
+	'upsert',
+	'findOrCreate',
+	'delete',
+	'hardDelete',
+	'restore',
+	'bulkCreate',
+	'bulkUpdate',
+	'bulkUpsert',
+	'bulkDelete',
+	'bulkHardDelete',
+	'bulkRestore',
+	'purgeDeleted',
+]
+
+// Arguments that can not be turned into a key, like `parse` functions, skip the cache
+class Uncacheable extends Error {}
+
+function normalizeKey(value: unknown, render: CacheConfig['render']): unknown {
+	if (value === null || value === undefined) return null
+	if (typeof value === 'function') throw new Uncacheable()
+	if (typeof value === 'bigint') return `${value}n`
+	if (value instanceof Date) return { $date: value.toISOString() }
+	if (is(value, SQL)) return { $sql: render(value) }
+	if (is(value, Column))
+		return { $column: `${getTableName(value.table)}.${value.name}` }
+	if (is(value, Table)) return { $table: getTableName(value) }
+	if (Array.isArray(value))
+		return value.map((item) => normalizeKey(item, render))
+	if (typeof value === 'object') {
+		return Object.fromEntries(
+			Object.keys(value)
+				.filter((key) => key !== 'tx')
+				.sort()
+				.map((key) => [
+					key,
+					normalizeKey((value as Record<string, unknown>)[key], render),
+				]),
+		)
+	}
+	return value
+}
+
+/**
+ * In-memory LRU cache adapter, the least recently read entry is evicted
+ * once `max` entries are stored. Values are cloned in and out so callers
+ * can not mutate cached results.
+ */
+export function createMemoryCache({
+	max = 1000,
+}: {
+	readonly max?: number
+} = {}): CacheAdapter {
+	const entries = new Map<string, { value: unknown; expiresAt: number }>()
+
+	return {
+		get(key) {
+			const entry = entries.get(key)
+			if (!entry) return undefined
+			if (entry.expiresAt <= Date.now()) {
+				entries.delete(key)
+				return undefined
+			}
+			// Re-insert to mark the entry as most recently used
+			entries.delete(key)
+			entries.set(key, entry)
+			return structuredClone(entry.value)
+		},
+		set(key, value, ttl) {
+			entries.delete(key)
+			entries.set(key, {
+				value: structuredClone(value),
+				expiresAt: ttl ? Date.now() + ttl : Number.POSITIVE_INFINITY,
+			})
+			while (entries.size > max) {
+				const oldest = entries.keys().next().value
+				if (oldest === undefined) break
+				entries.delete(oldest)
+			}
+		},
+		invalidate(prefix) {
+			for (const key of entries.keys()) {
+				if (key.startsWith(prefix)) entries.delete(key)
+			}
+		},
+	}
+}
+
+/**
+ * Caches the results of the read methods keyed by their normalized arguments
+ * and invalidates every entry of the entity when a mutation succeeds. Copies
+ * bound to a transaction opened by the service invalidate once it commits.
+ */
+export function withCache<M extends object>(
+	methods: M,
+	{ db, entityName, cache, render, readThrough, partition }: CacheConfig,
+): M {
+	if (!cache) return methods
+
+	const { adapter, ttl } = cache
+	const source = methods as ServiceMethodMap
+	const wrapped: Record<string, unknown> = { ...source }
+	const prefix = `${entityName}:`
+
+	const keyOf = (name: string, args: unknown[], scope: unknown) => {
+		try {
+			const key = normalizeKey(
+				scope === undefined ? args : [scope, args],
+				render,
+			)
+			return `${prefix}${name}:${JSON.stringify(key)}`
+		} catch (error) {
+			if (error instanceof Uncacheable) return null
+			throw error
+		}
+	}
+
+	if (readThrough) {
+		for (const name of cachedMethods) {
+			const method = source[name]
+			if (typeof method !== 'function') continue
+
+			wrapped[name] = async (...args: unknown[]) => {
+				let scope: unknown
+				try {
+					scope = await partition?.()
+				} catch {
+					// The method fails the same way, without a key to cache it under
+					return method(...args)
+				}
+				const key = keyOf(name, args, scope)
+				if (key === null) return method(...args)
+
+				const cached = await adapter.get(key)
+				if (cached !== undefined) return cached
+
+				const result = await method(...args)
+				await adapter.set(key, result, ttl)
+				return result
+			}
+		}
+	}
+
+	for (const name of mutationMethods) {
+		const method = source[name]
+		if (typeof method !== 'function') continue
+
+		wrapped[name] = async (...args: unknown[]) => {
+			const result = await method(...args)
+			// Tuple mutations resolve failures as `[error, null]`
+			const failed = Array.isArray(result) && result[0] instanceof Error
+			if (!failed) {
+				await afterCommit(db, async () => {
+					await adapter.invalidate(prefix)
+				})
+			}
+			return result
+		}
+	}
+
+	return wrapped as M
+}
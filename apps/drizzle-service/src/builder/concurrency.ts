@@ -0,0 +1,70 @@
+import { type Column, type SQL, sql } from 'drizzle-orm'
+import type { BaseEntity, ConcurrencyOption } from './types'
+
+export interface Concurrency {
+	/**
+	 * Whether the write has to be conditional on `expected`
+	 */
+	readonly expects: (expected: unknown) => boolean
+	/**
+	 * Columns to set on every write, the incremented version or a fresh timestamp
+	 */
+	readonly next: () => Record<string, unknown>
+	/**
+	 * Condition of the conditional write, undefined when nothing is expected
+	 */
+	readonly matches: (expected: unknown) => SQL | undefined
+	/**
+	 * Version of the row when it differs from `expected`, undefined otherwise
+	 */
+	readonly conflict: (
+		row: Record<string, unknown>,
+		expected: unknown,
+	) => { readonly current: unknown } | undefined
+}
+
+/**
+ * Optimistic concurrency helpers for the `concurrency` option.
+ * Numeric fields are incremented on every write, date fields are set to the
+ * current time. `truncate` lowers the precision of date columns to the
+ * milliseconds a JS Date can hold (postgres stores microseconds).
+ */
+export function createConcurrency<T extends BaseEntity>(
+	table: T,
+	option: ConcurrencyOption<T> | undefined,
+	truncate?: (column: Column) => SQL,
+): Concurrency {
+	const column = option
+		? (table[option.field as keyof T] as unknown as Column)
+		: undefined
+	const isDate = column?.dataType === 'date'
+
+	const toDate = (value: unknown) => new Date(value as string | number | Date)
+	const normalize = (value: unknown) => (isDate ? toDate(value) : value)
+	const same = (a: unknown, b: unknown) =>
+		isDate
+			? toDate(a).getTime() === toDate(b).getTime()
+			: String(a) === String(b)
+	const expects = (expected: unknown) =>
+		column !== undefined && expected !== undefined && expected !== null
+
+	return {
+		expects,
+		next: () => {
+			if (!option || !column) return {}
+			return {
+				[option.field]: isDate ? new Date() : sql`coalesce(${column}, 0) + 1`,
+			}
+		},
+		matches: (expected) => {
+			if (!column || !expects(expected)) return undefined
+			const target = isDate && truncate ? truncate(column) : column
+			return sql`${target} = ${sql.param(normalize(expected), column)}`
+		},
+		conflict: (row, expected) => {
+			if (!option || !expects(expected)) return undefined
+			const current = row[option.field as string]
+			return same(current, expected) ? undefined : { current }
+		},
+	}
+}
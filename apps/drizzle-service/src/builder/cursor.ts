@@ -0,0 +1,37 @@
+/**
+ * Keyset position carried by the opaque cursors of `findWithCursor`.
+ * `values` holds the sort columns of the boundary row, id tie-breaker last.
+ */
+export interface CursorToken {
+	readonly values: unknown[]
+	readonly direction: 'next' | 'prev'
+}
+
+export function encodeCursor(token: CursorToken): string {
+	const json = JSON.stringify(token, (_, value) =>
+		typeof value === 'bigint' ? value.toString() : value,
+	)
+	const binary = Array.from(new TextEncoder().encode(json), (byte) =>
+		String.fromCharCode(byte),
+	).join('')
+	return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+// Returns null for tokens that were not produced by `encodeCursor`
+export function decodeCursor(cursor: string): CursorToken | null {
+	try {
+		const binary = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'))
+		const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0))
+		const token = JSON.parse(new TextDecoder().decode(bytes))
+		if (
+			!token ||
+			!Array.isArray(token.values) ||
+			(token.direction !== 'next' && token.direction !== 'prev')
+		) {
+			return null
+		}
+		return token as CursorToken
+	} catch {
+		return null
+	}
+}
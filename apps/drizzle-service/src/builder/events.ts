@@ -0,0 +1,251 @@
+import { diffChanges } from './audit'
+import { afterCommit } from './transaction'
+import type {
+	BaseDatabase,
+	BaseEntity,
+	ServiceError,
+	ServiceEvent,
+	ServiceEventErrorHandler,
+	ServiceMethodMap,
+	ServiceMethodName,
+} from './types'
+
+type Row = Record<string, unknown>
+type Handler = (rows: Row[]) => void | Promise<void>
+type Tuple = [ServiceError | null, unknown]
+type Bulk = [unknown, Row[]]
+
+export interface ServiceEmitter {
+	// Method signatures, so the handlers typed with the rows of a service are accepted
+	on(event: ServiceEvent, handler: Handler): () => void
+	off(event: ServiceEvent, handler: Handler): void
+	readonly emit: (event: ServiceEvent, rows: Row[]) => Promise<void>
+	readonly listens: (event: ServiceEvent) => boolean
+}
+
+// Options of transaction bound copies, mapped to the emitter of the original service
+const sharedEmitters = new WeakMap<object, ServiceEmitter>()
+
+/**
+ * Copy of the options that makes the service built with them reuse `emitter`,
+ * so listeners of a service also receive the events of its transaction copies.
+ */
+export function shareEmitter<O extends object | undefined>(
+	opts: O,
+	emitter: ServiceEmitter,
+): O {
+	const shared = { ...opts } as O & object
+	sharedEmitters.set(shared, emitter)
+	return shared
+}
+
+/**
+ * Emitter of the service, shared with the original one for transaction copies
+ */
+export function serviceEmitter<T extends BaseEntity>(
+	opts: object | undefined,
+	entityName: string,
+	onError?: ServiceEventErrorHandler<T>,
+): ServiceEmitter {
+	return (
+		(opts && sharedEmitters.get(opts)) ??
+		createServiceEmitter(entityName, onError)
+	)
+}
+
+/**
+ * Event emitter shared by a service and the copies bound to transactions.
+ * Handlers run after the mutation, a failing handler never fails the mutation
+ * or the other handlers. Its error is passed to `onError`, or logged without it.
+ */
+export function createServiceEmitter<T extends BaseEntity>(
+	entityName: string,
+	onError?: ServiceEventErrorHandler<T>,
+): ServiceEmitter {
+	const handlers = new Map<ServiceEvent, Set<Handler>>()
+
+	const off = (event: ServiceEvent, handler: Handler) => {
+		handlers.get(event)?.delete(handler)
+	}
+
+	const report = (event: ServiceEvent, reason: unknown) => {
+		console.error(
+			`error: ${entityName} "${event}" listener failed: ${reason instanceof Error ? reason.message : String(reason)}`,
+		)
+	}
+
+	return {
+		on: (event, handler) => {
+			const listeners = handlers.get(event) ?? new Set()
+			listeners.add(handler)
+			handlers.set(event, listeners)
+			return () => off(event, handler)
+		},
+		off,
+		emit: async (event, rows) => {
+			const listeners = [...(handlers.get(event) ?? [])]
+			if (listeners.length === 0 || rows.length === 0) return
+
+			const results = await Promise.allSettled(
+				listeners.map(async (handler) => handler(rows)),
+			)
+			for (const result of results) {
+				if (result.status === 'fulfilled') continue
+				if (!onError) {
+					report(event, result.reason)
+					continue
+				}
+				try {
+					await onError(result.reason, {
+						entityName,
+						event,
+						rows: rows as T['$inferSelect'][],
+					})
+				} catch (error) {
+					report(event, error)
+				}
+			}
+		},
+		listens: (event) => (handlers.get(event)?.size ?? 0) > 0,
+	}
+}
+
+/**
+ * Wraps the mutations so the emitter is notified with the resulting rows once
+ * they succeed. Rows that the mutation does not return, like the ones of a
+ * delete, are only read when the event has listeners. Copies bound to a
+ * transaction opened by the service emit once it commits, never on rollback.
+ */
+export function withEvents<M extends object>(
+	methods: M,
+	{
+		db,
+		emitter,
+		idField,
+	}: { db: BaseDatabase; emitter: ServiceEmitter; idField: PropertyKey },
+): M {
+	const source = methods as ServiceMethodMap
+	const wrapped: Record<string, unknown> = { ...source }
+
+	const emit = (event: ServiceEvent, rows: Row[]) =>
+		afterCommit(db, () => emitter.emit(event, rows))
+
+	const idsOf = (rows: Row[]) => rows.map((row) => row[idField as string])
+	const keyOf = (row: Row) => String(row[idField as string])
+
+	async function findByIds(ids: unknown[]): Promise<Row[]> {
+		if (ids.length === 0) return []
+		return (await source.findBy(
+			{ [idField]: { $in: ids } },
+			{ withDeleted: true },
+		)) as Row[]
+	}
+
+	async function targets(
+		id: unknown,
+		hooks?: { custom?: unknown },
+	): Promise<Row[]> {
+		if (hooks?.custom) {
+			return (await source.find({
+				where: hooks.custom,
+				withDeleted: true,
+			})) as Row[]
+		}
+		const row = (await source.findOne(id, { withDeleted: true })) as Row | null
+		return row ? [row] : []
+	}
+
+	// Tuple mutations resolve failures as `[error, null]`
+	function tuple(name: ServiceMethodName, event: ServiceEvent) {
+		wrapped[name] = async (...args: unknown[]) => {
+			const result = (await source[name](...args)) as Tuple
+			if (result[0]) return result
+			await emit(
+				event,
+				(Array.isArray(result[1]) ? result[1] : [result[1]]) as Row[],
+			)
+			return result
+		}
+	}
+
+	tuple('create', 'created')
+	tuple('update', 'updated')
+	tuple('upsert', 'upserted')
+
+	wrapped.findOrCreate = async (data: Row, hooks?: unknown) => {
+		const existing = emitter.listens('created')
+			? await targets(data[idField as string])
+			: []
+		const result = (await source.findOrCreate(data, hooks)) as Tuple
+		if (!result[0] && existing.length === 0) {
+			await emit('created', [result[1] as Row])
+		}
+		return result
+	}
+
+	for (const [name, event] of [
+		['delete', 'deleted'],
+		['restore', 'restored'],
+		['hardDelete', 'hardDeleted'],
+	] as const) {
+		wrapped[name] = async (id: unknown, hooks?: { custom?: unknown }) => {
+			if (!emitter.listens(event)) return source[name](id, hooks)
+
+			const before = await targets(id, hooks)
+			const result = (await source[name](id, hooks)) as { success: boolean }
+			if (!result.success) return result
+
+			await emit(
+				event,
+				name === 'hardDelete' ? before : await findByIds(idsOf(before)),
+			)
+			return result
+		}
+	}
+
+	wrapped.bulkCreate = async (rows: Row[], hooks?: unknown) => {
+		const result = (await source.bulkCreate(rows, hooks)) as Bulk
+		await emit('bulkCreated', result[1])
+		return result
+	}
+	wrapped.bulkUpdate = async (rows: Row[], hooks?: unknown) => {
+		const result = (await source.bulkUpdate(rows, hooks)) as Bulk
+		await emit('bulkUpdated', result[1])
+		return result
+	}
+	wrapped.bulkUpsert = async (rows: Row[], opts: unknown, hooks?: unknown) => {
+		const result = (await source.bulkUpsert(rows, opts, hooks)) as Bulk
+		await emit('bulkUpserted', result[1])
+		return result
+	}
+
+	for (const [name, event] of [
+		['bulkDelete', 'bulkDeleted'],
+		['bulkRestore', 'bulkRestored'],
+		['bulkHardDelete', 'bulkHardDeleted'],
+	] as const) {
+		wrapped[name] = async (ids: unknown[], hooks?: unknown) => {
+			if (!emitter.listens(event)) return source[name](ids, hooks)
+
+			const before = await findByIds(ids)
+			const result = await source[name](ids, hooks)
+			const after = await findByIds(ids)
+			const previous = new Map(before.map((row) => [keyOf(row), row]))
+			const remaining = new Set(after.map(keyOf))
+			// Only the rows the operation actually changed are emitted
+			await emit(
+				event,
+				name === 'bulkHardDelete'
+					? before.filter((row) => !remaining.has(keyOf(row)))
+					: after.filter(
+							(row) =>
+								Object.keys(diffChanges(previous.get(keyOf(row)) ?? null, row))
+									.length > 0,
+						),
+			)
+			return result
+		}
+	}
+
+	return wrapped as M
+}
@@ -1,38 +1,63 @@
 import {
 	and,
 	asc,
+	avg,
 	between,
 	type Column,
+	count,
 	desc,
 	eq,
+	getTableColumns,
+	getTableName,
 	gt,
 	gte,
 	inArray,
+	isNotNull,
+	isNull,
 	like,
 	lt,
 	lte,
+	max,
+	min,
 	ne,
 	not,
 	notInArray,
+	or,
 	SQL,
 	type SQLWrapper,
 	sql,
+	sum,
+	type Table,
 } from 'drizzle-orm'
 import { Effect } from 'effect'
-import { tryEffect } from '@/helpers'
+import { createValidationError, handleError, tryEffect } from '@/helpers'
 import { createParserFunction } from './'
+import type { CursorToken } from './cursor'
+import { schemaKey } from './nested'
 import type {
+	AggregateExpressions,
+	AggregateFields,
+	AggregateOpts,
+	AggregateResult,
 	BaseDatabase,
 	BaseEntity,
+	BulkUpsertOpts,
+	ChunkHandler,
+	ChunkSummary,
 	CriteriaFilter,
 	CriteriaFilters,
 	FilterOperators,
 	FindOneOpts,
+	IncludeResult,
 	QBuilders,
 	QueryOpts,
 	RelationType,
+	SelectFields,
+	ServiceError,
 	SoftDeleteOption,
+	StreamOpts,
 	WithRelations,
+	WithRelationsRecursive,
 } from './types'
 
 interface Filters<
@@ -49,6 +74,30 @@ interface Filters<
 	soft?: SoftDeleteOption<T>
 	defaultLimit?: number
 	maxLimit?: number
+	/**
+	 * Unique field used as tie-breaker for keyset pagination
+	 * @default 'id'
+	 */
+	id?: keyof T['$inferSelect']
+	/**
+	 * Condition every read is restricted to, like the tenant of the caller
+	 */
+	scope?: () => Effect.Effect<SQL | undefined, ServiceError>
+}
+
+interface UpsertConflict {
+	readonly target: Column[]
+	/**
+	 * Columns overwritten on conflict, undefined leaves the existing rows untouched
+	 */
+	readonly set?: Record<string, SQL>
+	/**
+	 * Keys of the rows already stored, compared with `keyOf` of the written rows
+	 */
+	readonly existing: (
+		rows: Record<string, unknown>[],
+	) => Effect.Effect<Set<string>, ServiceError>
+	readonly keyOf: (row: Record<string, unknown>) => string
 }
 
 // Function overloads for createFilters
@@ -56,13 +105,16 @@ export function createFilters<
 	T extends BaseEntity,
 	Db extends BaseDatabase,
 	QB extends QBuilders = QBuilders,
->(config: Filters<T, Db>): FiltersReturn<T, QB>
+>(config: Filters<T, Db>): FiltersReturn<T, QB, Db>
 export function createFilters<T extends BaseEntity, Db extends BaseDatabase>({
 	table,
+	db,
 	soft,
 	defaultLimit = 100,
 	maxLimit = 100,
 	handleILike,
+	id = 'id',
+	scope,
 }: Filters<T, Db>) {
 	const lower = (
 		col: Column<T['$inferSelect'][keyof T['$inferSelect']]>,
@@ -98,13 +150,8 @@ export function createFilters<T extends BaseEntity, Db extends BaseDatabase>({
 		const orderExpressions = Object.entries(orderBy)
 			.filter(([_, direction]) => direction)
 			.map(([field, direction]) => {
-				const column = table[field as keyof T] as Column<
-					T['$inferSelect'][keyof T['$inferSelect']]
-				>
-				if (column.columnType === 'string') {
-					return direction === 'asc' ? asc(lower(column)) : desc(lower(column))
-				}
-				return direction === 'asc' ? asc(column) : desc(column)
+				const key = sortKey(field)
+				return direction === 'asc' ? asc(key) : desc(key)
 			})
 
 		if (orderExpressions.length === 0) return q
@@ -113,14 +160,257 @@ export function createFilters<T extends BaseEntity, Db extends BaseDatabase>({
 		return q.orderBy(...orderExpressions)
 	}
 
+	function getColumn(field: string) {
+		return table[field as keyof T] as Column<
+			T['$inferSelect'][keyof T['$inferSelect']]
+		>
+	}
+
+	function sortKey(field: string): SQLWrapper {
+		const column = getColumn(field)
+		return column.columnType === 'string' ? lower(column) : column
+	}
+
+	// Cursor values go through JSON, restore the column type before comparing
+	function sortValue(field: string, value: unknown): unknown {
+		const column = getColumn(field)
+		if (value === null || value === undefined) return value
+		if (column.dataType === 'date') return new Date(value as string)
+		if (column.dataType === 'bigint') return BigInt(value as string)
+		if (column.columnType === 'string') return sql`lower(${value})`
+		return value
+	}
+
+	// `.where()` replaces the previous condition, so combine it with the new one
+	function andWhere<Q extends QBuilders>(q: Q, condition?: SQL): Q {
+		if (!condition) return q
+		const { where } = (q as unknown as { config: { where?: SQL } }).config
+		return q.where(where ? and(where, condition) : condition) as Q
+	}
+
+	// Applied after every other condition so `.where()` calls can not drop it
+	function withScope<Q extends QBuilders>(
+		q: Q,
+	): Effect.Effect<Q, ServiceError> {
+		if (!scope) return Effect.succeed(q)
+		return Effect.map(scope(), (condition) => andWhere(q, condition))
+	}
+
+	// `include` tree in the `with` format of the relational query API
+	function toWith(include: object): Record<string, unknown> {
+		return Object.fromEntries(
+			Object.entries(include)
+				.filter(([, value]) => value)
+				.map(([relation, value]) => [
+					relation,
+					value === true ? true : { with: toWith(value) },
+				]),
+		)
+	}
+
+	/**
+	 * Runs the select, or the relational query of the table when relations are
+	 * included. The relational query takes the conditions, order and page of the
+	 * select, so every filter and the scope still apply.
+	 */
+	function execute<Q extends QBuilders>(
+		q: Q,
+		include?: WithRelationsRecursive<T, Db>,
+		select?: SelectFields<T, WithRelations[]>,
+	): Effect.Effect<unknown[], ServiceError> {
+		if (!include) return tryEffect(async () => (await q) as unknown[])
+		const fields = pickedFields(select)
+
+		const { where, orderBy, limit, offset, joins } = (
+			q as unknown as {
+				config: {
+					where?: SQL
+					orderBy?: SQL[]
+					limit?: number
+					offset?: number
+					joins?: unknown[]
+				}
+			}
+		).config
+		if (joins?.length) {
+			return createValidationError(
+				'include can not be combined with relations',
+				'include',
+			)
+		}
+
+		const key = schemaKey(db, table)
+		const relational = key
+			? (
+					db.query as Record<
+						string,
+						{ findMany: (config: object) => Promise<unknown[]> }
+					>
+				)[key]
+			: undefined
+		if (!relational) {
+			return createValidationError(
+				`${getTableName(table)} is not part of the drizzle schema, include needs its relations`,
+				'include',
+			)
+		}
+
+		return tryEffect(
+			async () =>
+				await relational.findMany({
+					where,
+					orderBy,
+					limit,
+					offset,
+					with: toWith(include),
+					...(fields && {
+						columns: Object.fromEntries(fields.map((field) => [field, true])),
+					}),
+				}),
+		)
+	}
+
+	// Fields the `select` option picks from the queried table
+	function pickedFields(
+		select?: SelectFields<T, WithRelations[]>,
+	): readonly string[] | undefined {
+		if (!select) return undefined
+		if (Array.isArray(select)) return select as readonly string[]
+		return (select as Record<string, readonly string[] | undefined>)[
+			getTableName(table)
+		]
+	}
+
+	/**
+	 * Selection of the base query, undefined selects every column. With
+	 * relations the columns are nested by table name like drizzle returns them
+	 */
+	function selectedFields(opts: {
+		select?: SelectFields<T, WithRelations[]>
+		relations?: WithRelations[]
+	}): Record<string, unknown> | undefined {
+		const { select, relations = [] } = opts
+		if (!select) return undefined
+
+		const pick = (source: Table, fields?: readonly string[]) =>
+			fields
+				? Object.fromEntries(
+						fields.map((field) => [field, source[field as keyof Table]]),
+					)
+				: getTableColumns(source)
+		if (relations.length === 0) return pick(table, pickedFields(select))
+
+		const byTable = Array.isArray(select)
+			? {}
+			: (select as Record<string, readonly string[] | undefined>)
+		return {
+			[getTableName(table)]: pick(table, pickedFields(select)),
+			...Object.fromEntries(
+				relations.map(({ table: related }) => [
+					getTableName(related),
+					pick(related, byTable[getTableName(related)]),
+				]),
+			),
+		}
+	}
+
+	// Keyset cursors are built from the rows, so their fields must be selected
+	function validateCursorSelect<TResult>(
+		select: SelectFields<T, WithRelations[]> | undefined,
+		orderBy: QueryOpts<T, TResult>['orderBy'],
+	): Effect.Effect<void, ServiceError> {
+		const fields = pickedFields(select)
+		if (!fields) return Effect.void
+		const missing = keysetColumns(orderBy).find(
+			([field]) => !fields.includes(field),
+		)
+		if (!missing) return Effect.void
+		return createValidationError(
+			`select must include ${missing[0]}, the keyset pages are built from it`,
+			'select',
+		)
+	}
+
+	// Sort columns of a keyset page, the id field is appended as tie-breaker
+	function keysetColumns<TResult>(
+		orderBy: QueryOpts<T, TResult>['orderBy'],
+	): Array<[string, 'asc' | 'desc']> {
+		const columns = Object.entries(orderBy ?? {}).filter(
+			(entry): entry is [string, 'asc' | 'desc'] => !!entry[1],
+		)
+		if (!columns.some(([field]) => field === id)) {
+			columns.push([String(id), columns.at(-1)?.[1] ?? 'asc'])
+		}
+		return columns
+	}
+
+	function keysetValues<TResult>(
+		record: T['$inferSelect'],
+		orderBy: QueryOpts<T, TResult>['orderBy'],
+	): unknown[] {
+		return keysetColumns(orderBy).map(
+			([field]) => record[field as keyof T['$inferSelect']],
+		)
+	}
+
 	function withCursor<Q extends QBuilders, TResult>(
 		q: Q,
-		cursor?: QueryOpts<T, TResult>['cursor'],
+		{
+			orderBy,
+			cursor,
+		}: {
+			orderBy: QueryOpts<T, TResult>['orderBy']
+			cursor: CursorToken | null
+		},
 	): Q {
-		if (!cursor) return q
+		const columns = keysetColumns(orderBy)
+		const backward = cursor?.direction === 'prev'
+		let query = q
+
+		// NULL never compares, the rows with a NULL sort value come after the
+		// others and get their own branches
+		const same = (field: string, value: unknown) =>
+			value === null || value === undefined
+				? isNull(getColumn(field))
+				: eq(sortKey(field), sortValue(field, value))
+		const follows = (
+			field: string,
+			compare: typeof gt,
+			value: unknown,
+		): SQL | undefined => {
+			const column = getColumn(field)
+			if (value === null || value === undefined) {
+				return backward ? isNotNull(column) : undefined
+			}
+			const after = compare(sortKey(field), sortValue(field, value))
+			return backward || column.notNull ? after : or(isNull(column), after)
+		}
+
+		if (cursor) {
+			// (a > x) OR (a = x AND b > y) OR ... flipped for descending columns
+			const branches = columns.map(([field, direction], index) => {
+				const compare = (direction === 'asc') !== backward ? gt : lt
+				const after = follows(field, compare, cursor.values[index])
+				if (!after) return undefined
+				const equals = columns
+					.slice(0, index)
+					.map(([prev], i) => same(prev, cursor.values[i]))
+				return and(...equals, after)
+			})
+			query = andWhere(query, or(...branches))
+		}
 
-		// Assuming createdAt exists on the table for cursor pagination
-		return q.where(gt(table.createdAt, cursor)).$dynamic() as Q
+		const orderExpressions = columns.flatMap(([field, direction]) => {
+			const column = getColumn(field)
+			const order = (direction === 'asc') !== backward ? asc : desc
+			// Explicit position of the NULLs, the dialects disagree on the default one
+			const nulls = backward ? desc : asc
+			return column.notNull
+				? [order(sortKey(field))]
+				: [nulls(sql`${column} is null`), order(sortKey(field))]
+		})
+		//@ts-ignore
+		return query.orderBy(...orderExpressions) as Q
 	}
 
 	function withRelations<Q extends QBuilders>(
@@ -191,7 +481,12 @@ export function createFilters<T extends BaseEntity, Db extends BaseDatabase>({
 		Q extends QBuilders,
 		TResult,
 		TRels extends WithRelations[] = [],
-	>(q: Q, opts: Omit<QueryOpts<T, TResult, TRels>, 'parse'>): Q {
+		TInclude extends WithRelationsRecursive<T, Db> = never,
+		TSelect extends SelectFields<T, TRels> = never,
+	>(
+		q: Q,
+		opts: Omit<QueryOpts<T, TResult, TRels, Db, TInclude, TSelect>, 'parse'>,
+	): Q {
 		let query = withSoftDeleted(q, opts.withDeleted)
 
 		query = withWorkspace(query, opts.workspace)
@@ -209,10 +504,6 @@ export function createFilters<T extends BaseEntity, Db extends BaseDatabase>({
 			})
 		}
 
-		if (opts.cursor) {
-			query = withCursor(query, opts.cursor)
-		}
-
 		if (opts.where) {
 			query = withCustom(query, opts.where)
 		}
@@ -224,9 +515,11 @@ export function createFilters<T extends BaseEntity, Db extends BaseDatabase>({
 		Q extends QBuilders,
 		TResult,
 		TRels extends WithRelations[] = [],
+		TInclude extends WithRelationsRecursive<T, Db> = never,
+		TSelect extends SelectFields<T, TRels> = never,
 	>(
 		query: Q,
-		queryOpts: QueryOpts<T, TResult, TRels>,
+		queryOpts: QueryOpts<T, TResult, TRels, Db, TInclude, TSelect>,
 		hooks?: {
 			beforeParse?: (q: Q) => Q
 			afterParse?: (data: TResult) => TResult
@@ -240,12 +533,16 @@ export function createFilters<T extends BaseEntity, Db extends BaseDatabase>({
 			if (beforeParse) {
 				q = beforeParse(q)
 			}
+			q = yield* withScope(q)
 
-			const data = yield* tryEffect(async () => await q)
+			const data = yield* execute(q, opts.include, opts.select)
 
 			// Apply custom parse function if provided
 			if (parse) {
-				return parse(data as unknown as T['$inferSelect'][])
+				return parse(
+					data as unknown as IncludeResult<T, Db, TInclude, TSelect>[] &
+						RelationType<T, TRels, TSelect>[],
+				)
 			}
 
 			if (afterParse) {
@@ -259,9 +556,11 @@ export function createFilters<T extends BaseEntity, Db extends BaseDatabase>({
 		Q extends QBuilders,
 		TResult,
 		TRels extends WithRelations[] = [],
+		TInclude extends WithRelationsRecursive<T, Db> = never,
+		TSelect extends SelectFields<T, TRels> = never,
 	>(
 		query: Q,
-		queryOpts: FindOneOpts<T, TResult, TRels>,
+		queryOpts: FindOneOpts<T, TResult, TRels, Db, TInclude, TSelect>,
 		hooks?: {
 			beforeParse?: (q: Q) => Q
 			afterParse?: (data: TResult | null) => TResult | null
@@ -275,8 +574,9 @@ export function createFilters<T extends BaseEntity, Db extends BaseDatabase>({
 			if (beforeParse) {
 				q = beforeParse(q)
 			}
+			q = yield* withScope(q)
 
-			const data = yield* tryEffect(async () => await q)
+			const data = yield* execute(q, opts.include, opts.select)
 
 			const isArray = Array.isArray(data)
 			const hasRelations = opts.relations && opts.relations.length > 0
@@ -291,12 +591,14 @@ export function createFilters<T extends BaseEntity, Db extends BaseDatabase>({
 				if (isArray)
 					return parse(
 						data[0] as unknown as
-							| (T['$inferSelect'] & RelationType<T, TRels>[])
+							| (IncludeResult<T, Db, TInclude, TSelect> &
+									RelationType<T, TRels, TSelect>[])
 							| null,
 					)
 				return parse(
 					data as unknown as
-						| (T['$inferSelect'][] & RelationType<T, TRels>)
+						| (IncludeResult<T, Db, TInclude, TSelect> &
+								RelationType<T, TRels, TSelect>[])
 						| null,
 				)
 			}
@@ -456,25 +758,299 @@ export function createFilters<T extends BaseEntity, Db extends BaseDatabase>({
 		return conditions
 	}
 
+	// Dynamic select of the table, undefined fields select every column
+	function selectFrom(fields?: Record<string, unknown>): QBuilders {
+		// @ts-ignore
+		return db.select(fields).from(table).$dynamic()
+	}
+
+	/**
+	 * Soft delete, workspace and criteria conditions of a read, returned as a
+	 * list to combine in a single `and` so none of them replaces another
+	 */
+	function filterConditions({
+		workspace,
+		withDeleted,
+		criteria,
+	}: {
+		workspace?: QueryOpts<T, unknown>['workspace']
+		withDeleted?: boolean
+		criteria?: CriteriaFilter<T>
+	}): SQLWrapper[] {
+		const conditions: SQLWrapper[] = []
+		if (soft && !withDeleted) {
+			conditions.push(ne(table[soft.field] as SQLWrapper, soft.deletedValue))
+		}
+		if (workspace) {
+			conditions.push(
+				eq(table[workspace.field as keyof T] as SQLWrapper, workspace.value),
+			)
+		}
+		if (criteria) {
+			conditions.push(...conditionsFromCriteria(criteria, 'exact'))
+		}
+		return conditions
+	}
+
+	/**
+	 * Reads the matching rows in chunks ordered by the id field, every chunk
+	 * starts after the last id of the previous one so only one chunk is held
+	 * in memory and rows written meanwhile are neither skipped nor repeated
+	 */
+	async function* readChunks(
+		criteria: CriteriaFilter<T> | undefined,
+		size: number,
+		opts: StreamOpts<T, SelectFields<T>>,
+	): AsyncGenerator<unknown[]> {
+		await handleError(
+			!Number.isInteger(size) || size < 1
+				? createValidationError('size must be a positive integer', 'size')
+				: validateCursorSelect(opts.select, undefined),
+		)
+
+		const idField = String(id)
+		const idColumn = getColumn(idField)
+		const conditions = filterConditions({ ...opts, criteria })
+		if (opts.where) conditions.push(opts.where)
+
+		let after: unknown
+		while (true) {
+			const keyset = after === undefined ? undefined : gt(idColumn, after)
+			const rows = await handleError(
+				Effect.gen(function* () {
+					let query = selectFrom(selectedFields(opts))
+					query = query.where(and(...conditions, keyset)) as QBuilders
+					//@ts-ignore
+					query = query.orderBy(asc(idColumn)).limit(size)
+					const scoped = yield* withScope(query)
+					return yield* tryEffect(async () => (await scoped) as unknown[])
+				}),
+			)
+			if (rows.length === 0) return
+			yield rows
+			if (rows.length < size) return
+			after = (rows.at(-1) as Record<string, unknown>)[idField]
+		}
+	}
+
+	function handleStream<TSelect extends SelectFields<T>>(
+		opts: StreamOpts<T, TSelect>,
+		size: number,
+	): AsyncIterable<IncludeResult<T, Db, never, TSelect>> {
+		return {
+			async *[Symbol.asyncIterator]() {
+				for await (const rows of readChunks(undefined, size, opts)) {
+					yield* rows as IncludeResult<T, Db, never, TSelect>[]
+				}
+			},
+		}
+	}
+
+	async function handleForEachChunk<TSelect extends SelectFields<T>>(
+		criteria: CriteriaFilter<T>,
+		size: number,
+		fn: ChunkHandler<T, Db, TSelect>,
+		opts: Omit<StreamOpts<T, TSelect>, 'chunkSize'>,
+	): Promise<ChunkSummary> {
+		let chunks = 0
+		let rows = 0
+		for await (const chunk of readChunks(criteria, size, opts)) {
+			await fn(chunk as IncludeResult<T, Db, never, TSelect>[], chunks)
+			chunks++
+			rows += chunk.length
+		}
+		return { chunks, rows }
+	}
+
+	/**
+	 * Runs a grouped select of the requested aggregates. Soft delete, workspace,
+	 * criteria and scope are combined in a single condition so none of them
+	 * replaces another.
+	 */
+	function handleAggregate<TFields extends AggregateFields<T>>(
+		opts: AggregateOpts<T, TFields>,
+	): Effect.Effect<AggregateResult<T, TFields>[], ServiceError> {
+		const {
+			sum: sums = [],
+			avg: avgs = [],
+			min: mins = [],
+			max: maxes = [],
+			groupBy = [],
+			where: criteria,
+			having,
+			workspace,
+			withDeleted,
+		} = opts
+
+		const expressions = {
+			count: count(),
+			sum: Object.fromEntries(
+				sums.map((field) => [field, sum(getColumn(field)).mapWith(Number)]),
+			),
+			avg: Object.fromEntries(
+				avgs.map((field) => [field, avg(getColumn(field)).mapWith(Number)]),
+			),
+			min: Object.fromEntries(
+				mins.map((field) => [field, min(getColumn(field))]),
+			),
+			max: Object.fromEntries(
+				maxes.map((field) => [field, max(getColumn(field))]),
+			),
+		}
+		const selection = {
+			...Object.fromEntries(groupBy.map((field) => [field, getColumn(field)])),
+			count: expressions.count,
+			...(sums.length ? { sum: expressions.sum } : {}),
+			...(avgs.length ? { avg: expressions.avg } : {}),
+			...(mins.length ? { min: expressions.min } : {}),
+			...(maxes.length ? { max: expressions.max } : {}),
+		}
+
+		const conditions = filterConditions({ workspace, withDeleted, criteria })
+
+		let query = selectFrom(selection)
+		if (conditions.length) query = query.where(and(...conditions))
+		if (groupBy.length) {
+			const columns = groupBy.map(getColumn)
+			//@ts-ignore
+			query = query.groupBy(...columns).orderBy(...columns.map(asc))
+		}
+		if (having) {
+			query = query.having(
+				having(expressions as unknown as AggregateExpressions<T, TFields>),
+			) as QBuilders
+		}
+
+		return Effect.flatMap(withScope(query), (scoped) =>
+			tryEffect(
+				async () => (await scoped) as unknown as AggregateResult<T, TFields>[],
+			),
+		)
+	}
+
+	/**
+	 * Conflict target and `set` of a bulk upsert, every updated column takes the
+	 * value of the conflicting row through `excluded`
+	 */
+	function upsertConflict(
+		rows: Record<string, unknown>[],
+		{ target, update = 'all' }: BulkUpsertOpts<T>,
+	): Effect.Effect<UpsertConflict, ServiceError> {
+		const columns = getTableColumns(table) as Record<string, Column>
+		if (target.length === 0) {
+			return createValidationError(
+				'target must include at least one column',
+				'target',
+			)
+		}
+		const unknownField = [
+			...target,
+			...(Array.isArray(update) ? update : []),
+		].find((field) => !columns[field])
+		if (unknownField) {
+			return createValidationError(
+				`${unknownField} is not a column of ${getTableName(table)}`,
+				unknownField,
+			)
+		}
+
+		const fields =
+			update === 'none'
+				? []
+				: update === 'all'
+					? [...new Set(rows.flatMap(Object.keys))].filter(
+							(field) =>
+								columns[field] &&
+								!columns[field].generated &&
+								!target.includes(field as never) &&
+								field !== id &&
+								field !== 'createdAt',
+						)
+					: [
+							...update,
+							...('updatedAt' in columns &&
+							!update.includes('updatedAt' as never)
+								? ['updatedAt']
+								: []),
+						]
+		const set = fields.length
+			? Object.fromEntries(
+					fields.map((field) => [
+						field,
+						sql`excluded.${sql.identifier(columns[field]?.name ?? field)}`,
+					]),
+				)
+			: undefined
+
+		const keyOf = (row: Record<string, unknown>) =>
+			JSON.stringify(target.map((field) => row[field] ?? null))
+
+		const existing = (batch: Record<string, unknown>[]) => {
+			// Rows missing a target value can not conflict
+			const keyed = batch.filter((row) =>
+				target.every((field) => row[field] !== undefined),
+			)
+			if (keyed.length === 0) return Effect.succeed(new Set<string>())
+
+			const query = selectFrom(
+				Object.fromEntries(target.map((field) => [field, columns[field]])),
+			).where(
+				or(
+					...keyed.map((row) =>
+						and(
+							...target.map((field) =>
+								eq(columns[field] as Column, row[field]),
+							),
+						),
+					),
+				),
+			)
+			return tryEffect(async () => {
+				const stored = (await query) as Record<string, unknown>[]
+				return new Set(stored.map(keyOf))
+			})
+		}
+
+		return Effect.succeed({
+			target: target.map((field) => columns[field] as Column),
+			set,
+			existing,
+			keyOf,
+		})
+	}
+
 	return {
 		withPagination,
 		withOrderBy,
 		withCursor,
+		keysetValues,
 		withRelations,
 		withCustom,
 		withSoftDeleted,
 		withWorkspace,
+		withScope,
 		withOpts,
+		selectedFields,
+		validateCursorSelect,
+		execute,
 		parseFilterExpression,
 		handleQueries,
 		handleOneQuery,
+		handleAggregate,
+		handleStream,
+		handleForEachChunk,
+		upsertConflict,
 		createConditionEnhanced,
 		conditionsFromCriteria,
 	}
 }
 
 // Helper type for the return value
-type FiltersReturn<T extends BaseEntity, QB extends QBuilders> = {
+type FiltersReturn<
+	T extends BaseEntity,
+	QB extends QBuilders,
+	Db extends BaseDatabase = BaseDatabase,
+> = {
 	withPagination: <Q extends QB, TResult>(
 		q: Q,
 		options?: QueryOpts<T, TResult>,
@@ -485,8 +1061,15 @@ type FiltersReturn<T extends BaseEntity, QB extends QBuilders> = {
 	) => Q
 	withCursor: <Q extends QB, TResult>(
 		q: Q,
-		cursor?: QueryOpts<T, TResult>['cursor'],
+		options: {
+			orderBy: QueryOpts<T, TResult>['orderBy']
+			cursor: CursorToken | null
+		},
 	) => Q
+	keysetValues: <TResult>(
+		record: T['$inferSelect'],
+		orderBy: QueryOpts<T, TResult>['orderBy'],
+	) => unknown[]
 	withRelations: <Q extends QB>(q: Q, relations?: WithRelations[]) => Q
 	withCustom: <Q extends QB, TResult>(
 		q: Q,
@@ -497,9 +1080,29 @@ type FiltersReturn<T extends BaseEntity, QB extends QBuilders> = {
 		q: Q,
 		workspace?: QueryOpts<T, TResult>['workspace'],
 	) => Q
-	withOpts: <Q extends QB, TResult, TRels extends WithRelations[] = []>(
+	withScope: <Q extends QB>(q: Q) => Effect.Effect<Q, ServiceError>
+	execute: <Q extends QB>(
+		q: Q,
+		include?: WithRelationsRecursive<T, Db>,
+		select?: SelectFields<T, WithRelations[]>,
+	) => Effect.Effect<unknown[], ServiceError>
+	selectedFields: (opts: {
+		select?: SelectFields<T, WithRelations[]>
+		relations?: WithRelations[]
+	}) => Record<string, unknown> | undefined
+	validateCursorSelect: <TResult>(
+		select: SelectFields<T, WithRelations[]> | undefined,
+		orderBy: QueryOpts<T, TResult>['orderBy'],
+	) => Effect.Effect<void, ServiceError>
+	withOpts: <
+		Q extends QB,
+		TResult,
+		TRels extends WithRelations[] = [],
+		TInclude extends WithRelationsRecursive<T, Db> = never,
+		TSelect extends SelectFields<T, TRels> = never,
+	>(
 		q: Q,
-		opts: Omit<QueryOpts<T, TResult, TRels>, 'parse'>,
+		opts: Omit<QueryOpts<T, TResult, TRels, Db, TInclude, TSelect>, 'parse'>,
 	) => Q
 	parseFilterExpression: (
 		field: keyof T['$inferSelect'],
@@ -508,22 +1111,49 @@ type FiltersReturn<T extends BaseEntity, QB extends QBuilders> = {
 			...T['$inferSelect'][keyof T['$inferSelect']][],
 		],
 	) => SQLWrapper
-	handleQueries: <TResult, TRels extends WithRelations[] = []>(
+	handleQueries: <
+		TResult,
+		TRels extends WithRelations[] = [],
+		TInclude extends WithRelationsRecursive<T, Db> = never,
+		TSelect extends SelectFields<T, TRels> = never,
+	>(
 		query: QB,
-		queryOpts: QueryOpts<T, TResult, TRels>,
+		queryOpts: QueryOpts<T, TResult, TRels, Db, TInclude, TSelect>,
 		hooks?: {
 			beforeParse?: (q: QB) => QB
 			afterParse?: (data: TResult) => TResult
 		},
 	) => Effect.Effect<TResult>
-	handleOneQuery: <TResult, TRels extends WithRelations[] = []>(
+	handleOneQuery: <
+		TResult,
+		TRels extends WithRelations[] = [],
+		TInclude extends WithRelationsRecursive<T, Db> = never,
+		TSelect extends SelectFields<T, TRels> = never,
+	>(
 		query: QB,
-		queryOpts: FindOneOpts<T, TResult, TRels>,
+		queryOpts: FindOneOpts<T, TResult, TRels, Db, TInclude, TSelect>,
 		hooks?: {
 			beforeParse?: (q: QB) => QB
 			afterParse?: (data: TResult) => TResult | null
 		},
 	) => Effect.Effect<TResult>
+	handleAggregate: <TFields extends AggregateFields<T>>(
+		opts: AggregateOpts<T, TFields>,
+	) => Effect.Effect<AggregateResult<T, TFields>[], ServiceError>
+	handleStream: <TSelect extends SelectFields<T>>(
+		opts: StreamOpts<T, TSelect>,
+		size: number,
+	) => AsyncIterable<IncludeResult<T, Db, never, TSelect>>
+	handleForEachChunk: <TSelect extends SelectFields<T>>(
+		criteria: CriteriaFilter<T>,
+		size: number,
+		fn: ChunkHandler<T, Db, TSelect>,
+		opts: Omit<StreamOpts<T, TSelect>, 'chunkSize'>,
+	) => Promise<ChunkSummary>
+	upsertConflict: (
+		rows: Record<string, unknown>[],
+		opts: BulkUpsertOpts<T>,
+	) => Effect.Effect<UpsertConflict, ServiceError>
 	createConditionEnhanced: <K extends keyof T['$inferSelect']>(
 		column: Column<T['$inferSelect'][K]>,
 		value: T['$inferSelect'][K],
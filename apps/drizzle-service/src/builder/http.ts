@@ -0,0 +1,459 @@
+import { type Column, getTableColumns } from 'drizzle-orm'
+import { Cause, Runtime } from 'effect'
+import { defaultTypePrefix, toProblemDetails } from './problem'
+import { columnValue, parseQueryString } from './query'
+import {
+	DatabaseError,
+	type HttpHandlerOptions,
+	type HttpRoute,
+	type HttpService,
+	NotFoundError,
+	type ServiceError,
+	ValidationError,
+} from './types'
+
+// Method and path of every route, static paths win over `:id`
+export const routeTable: ReadonlyArray<readonly [HttpRoute, string, string]> = [
+	['find', 'GET', ''],
+	['create', 'POST', ''],
+	['upsert', 'PUT', ''],
+	['findWithCursor', 'GET', 'page'],
+	['count', 'GET', 'count'],
+	['stream', 'GET', 'stream'],
+	['aggregate', 'POST', 'aggregate'],
+	['findOrCreate', 'POST', 'find-or-create'],
+	['bulkCreate', 'POST', 'bulk'],
+	['bulkUpdate', 'PATCH', 'bulk'],
+	['bulkUpsert', 'PUT', 'bulk'],
+	['bulkDelete', 'DELETE', 'bulk'],
+	['bulkHardDelete', 'DELETE', 'bulk/hard'],
+	['bulkRestore', 'POST', 'bulk/restore'],
+	['findOne', 'GET', ':id'],
+	['update', 'PATCH', ':id'],
+	['delete', 'DELETE', ':id'],
+	['hardDelete', 'DELETE', ':id/hard'],
+	['restore', 'POST', ':id/restore'],
+]
+
+const tags = new Set<string>([
+	'DatabaseError',
+	'ValidationError',
+	'NotFoundError',
+	'ConflictError',
+	'ForeignKeyError',
+	'NotNullError',
+	'CheckError',
+])
+
+const segmentsOf = (path: string) => path.split('/').filter(Boolean)
+
+const stringify = (value: unknown) =>
+	JSON.stringify(value, (_, item) =>
+		typeof item === 'bigint' ? item.toString() : item,
+	)
+
+function json(body: unknown, status = 200): Response {
+	return new Response(stringify(body), {
+		status,
+		headers: { 'content-type': 'application/json' },
+	})
+}
+
+function problem(body: Record<string, unknown>, headers?: HeadersInit) {
+	return new Response(stringify(body), {
+		status: body.status as number,
+		headers: { 'content-type': 'application/problem+json', ...headers },
+	})
+}
+
+// Service errors come back as tuples, rejections wrapped in an Effect FiberFailure or plain errors
+function serviceError(error: unknown): ServiceError {
+	const cause = Runtime.isFiberFailure(error)
+		? Cause.squash(error[Runtime.FiberFailureCauseId])
+		: error
+	if (
+		cause instanceof Error &&
+		'_tag' in cause &&
+		tags.has(cause._tag as string)
+	) {
+		return cause as ServiceError
+	}
+	if (cause instanceof SyntaxError) {
+		return new ValidationError('Request body must be valid JSON', 'body')
+	}
+	return new DatabaseError(
+		cause instanceof Error ? cause.message : String(cause),
+	)
+}
+
+function invalid(field: string, message: string): ValidationError {
+	return new ValidationError(message, field)
+}
+
+// Dates and bigints travel as strings in JSON, the other values are kept as sent
+function fromJson(
+	columns: Record<string, Column>,
+	row: unknown,
+): Record<string, unknown> {
+	if (!row || typeof row !== 'object' || Array.isArray(row)) {
+		throw invalid('body', 'Request body must be an object')
+	}
+	return Object.fromEntries(
+		Object.entries(row).map(([field, value]) => {
+			const column = columns[field]
+			if (typeof value !== 'string' && typeof value !== 'number') {
+				return [field, value]
+			}
+			if (column?.dataType === 'date') return [field, new Date(value)]
+			if (column?.dataType === 'bigint') return [field, BigInt(value)]
+			return [field, value]
+		}),
+	)
+}
+
+const aggregateLists = ['sum', 'avg', 'min', 'max', 'groupBy']
+
+// Aggregate body sent as JSON, `having` is a function and can not be sent
+function aggregateBody(
+	columns: Record<string, Column>,
+	entityName: string,
+	body: unknown,
+): Record<string, unknown> {
+	if (!body || typeof body !== 'object' || Array.isArray(body)) {
+		throw invalid('body', 'Request body must be an object')
+	}
+	const column = (field: unknown) => {
+		if (typeof field !== 'string' || !columns[field]) {
+			throw invalid(
+				String(field),
+				`${String(field)} is not a column of ${entityName}`,
+			)
+		}
+	}
+	for (const [key, value] of Object.entries(body)) {
+		if (key === 'where') {
+			if (!value || typeof value !== 'object' || Array.isArray(value)) {
+				throw invalid(key, 'where must be an object')
+			}
+			Object.keys(value).forEach(column)
+			continue
+		}
+		if (!aggregateLists.includes(key)) {
+			throw invalid(key, `${key} is not an aggregate option`)
+		}
+		if (!Array.isArray(value)) {
+			throw invalid(key, `${key} must be an array of columns`)
+		}
+		value.forEach(column)
+	}
+	return body as Record<string, unknown>
+}
+
+const matchModes = ['startWith', 'contains', 'exact', 'endsWith']
+
+/**
+ * Query options of the routes on top of the ones `parseQueryString` reads,
+ * the other parameters are the criteria
+ */
+function readQuery(table: HttpService['entity'], params: URLSearchParams) {
+	const rest = new URLSearchParams(params)
+	const take = (key: string) => {
+		const value = rest.get(key) ?? undefined
+		rest.delete(key)
+		return value
+	}
+	const cursor = take('cursor')
+	const match = take('match')
+	const caseSensitive = take('caseSensitive')
+	const chunkSize = take('chunkSize')
+	if (match !== undefined && !matchModes.includes(match)) {
+		throw invalid('match', `${match} is not a match mode`)
+	}
+	const chunk = chunkSize === undefined ? undefined : Number(chunkSize)
+	if (chunk !== undefined && (!Number.isInteger(chunk) || chunk < 1)) {
+		throw invalid('chunkSize', 'chunkSize must be a positive integer')
+	}
+
+	const { criteria, ...query } = parseQueryString(table, rest)
+	const opts = Object.fromEntries(
+		Object.entries({
+			...query,
+			cursor,
+			match,
+			caseSensitive:
+				caseSensitive === undefined ? undefined : caseSensitive === 'true',
+			chunkSize: chunk,
+		}).filter(([, value]) => value !== undefined),
+	)
+	return { opts, criteria }
+}
+
+// The version the client read, sent as the (optionally quoted) If-Match header
+function expectedVersion(request: Request) {
+	const header = request.headers.get('if-match')
+	return header ? { expectedVersion: header.replace(/^"|"$/g, '') } : undefined
+}
+
+function ndjson(rows: AsyncIterable<unknown>): Response {
+	const iterator = rows[Symbol.asyncIterator]()
+	const encoder = new TextEncoder()
+	const body = new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			const { done, value } = await iterator.next()
+			if (done) controller.close()
+			else controller.enqueue(encoder.encode(`${stringify(value)}\n`))
+		},
+		async cancel() {
+			await iterator.return?.()
+		},
+	})
+	return new Response(body, {
+		headers: { 'content-type': 'application/x-ndjson' },
+	})
+}
+
+/**
+ * Fetch-style handler exposing the service as REST routes, usable from any
+ * runtime built on the Web `Request` and `Response` (Hono, Next.js route
+ * handlers, Bun, Node 18+). Errors are answered with RFC 7807 problem details.
+ * @example
+ * ```typescript
+ * const handler = createHttpHandler(itemService, {
+ *   basePath: '/api/items',
+ *   routes: { hardDelete: false, bulkHardDelete: false },
+ *   authorize: ({ request }) => request.headers.has('authorization'),
+ * })
+ * Bun.serve({ fetch: handler })
+ * ```
+ */
+export function createHttpHandler(
+	service: HttpService,
+	{
+		basePath = '',
+		routes = {},
+		authorize,
+		typePrefix = defaultTypePrefix,
+		debug = false,
+	}: HttpHandlerOptions = {},
+): (request: Request) => Promise<Response> {
+	const { entityName, idField } = service
+	const columns = getTableColumns(service.entity) as Record<string, Column>
+	const call = service as unknown as Record<
+		HttpRoute | 'findBy',
+		(...args: unknown[]) => unknown
+	>
+	const base = segmentsOf(basePath)
+	const enabled = routeTable
+		.filter(([route]) => routes[route] !== false)
+		.map(([route, method, path]) => ({
+			route,
+			method,
+			segments: segmentsOf(path),
+		}))
+
+	const toResponse = (error: ServiceError) =>
+		problem(toProblemDetails(error, { typePrefix, debug }))
+	const notFound = (id: unknown) =>
+		new NotFoundError(`${entityName} with id ${id} not found`, entityName, id)
+	const idOf = (value: string) => {
+		const column = columns[idField]
+		return column ? columnValue(column, idField, value) : value
+	}
+
+	function match(request: Request) {
+		const segments = segmentsOf(new URL(request.url).pathname)
+		if (base.some((segment, index) => segments[index] !== segment)) return
+		const path = segments.slice(base.length)
+		const candidates = enabled.filter(
+			(route) =>
+				route.segments.length === path.length &&
+				route.segments.every(
+					(segment, index) => segment === ':id' || segment === path[index],
+				),
+		)
+		// A static path is never read as an id
+		const isStatic = (route: (typeof enabled)[number]) =>
+			!route.segments.includes(':id')
+		const paths = candidates.some(isStatic)
+			? candidates.filter(isStatic)
+			: candidates
+		return {
+			paths,
+			route: paths.find((route) => route.method === request.method),
+			id: paths.some((route) => !isStatic(route))
+				? decodeURIComponent(path[0] ?? '')
+				: undefined,
+		}
+	}
+
+	async function handle(
+		route: HttpRoute,
+		request: Request,
+		id: unknown,
+	): Promise<Response> {
+		const url = new URL(request.url)
+		const { opts, criteria } = readQuery(service.entity, url.searchParams)
+		const hasCriteria = Object.keys(criteria).length > 0
+		const body = async () => await request.json()
+		const rows = async () => {
+			const data = await body()
+			if (!Array.isArray(data)) {
+				throw invalid('body', 'Request body must be an array')
+			}
+			return data
+		}
+		const tuple = (
+			[error, data]: [ServiceError | null, unknown],
+			status = 200,
+		) => (error ? toResponse(error) : json(data, status))
+
+		switch (route) {
+			case 'find':
+				return json(
+					await (hasCriteria ? call.findBy(criteria, opts) : call.find(opts)),
+				)
+			case 'findWithCursor':
+			case 'stream':
+				if (hasCriteria) {
+					throw invalid(
+						Object.keys(criteria)[0] ?? '',
+						`${route} does not take criteria`,
+					)
+				}
+				return route === 'stream'
+					? ndjson(call.stream(opts) as AsyncIterable<unknown>)
+					: json(await call.findWithCursor(opts))
+			case 'count': {
+				// `count` matches the values only, it takes no criteria operators
+				const [filtered] =
+					Object.entries(criteria).find(
+						([, value]) =>
+							value !== null &&
+							typeof value === 'object' &&
+							!(value instanceof Date),
+					) ?? []
+				if (filtered) {
+					throw invalid(filtered, `count does not take ${filtered} operators`)
+				}
+				return json(await call.count(criteria, opts))
+			}
+			case 'aggregate':
+				return json(
+					await call.aggregate({
+						...aggregateBody(columns, entityName, await body()),
+						...opts,
+					}),
+				)
+			case 'findOne': {
+				const row = await call.findOne(id, opts)
+				return row ? json(row) : toResponse(notFound(id))
+			}
+			case 'create':
+				return tuple(
+					(await call.create(fromJson(columns, await body()))) as never,
+					201,
+				)
+			case 'upsert':
+			case 'findOrCreate':
+				return tuple(
+					(await call[route](fromJson(columns, await body()))) as never,
+				)
+			case 'update':
+				return tuple(
+					(await call.update(
+						id,
+						fromJson(columns, await body()),
+						expectedVersion(request),
+					)) as never,
+				)
+			case 'delete':
+			case 'hardDelete':
+			case 'restore': {
+				const result = (await call[route](id, expectedVersion(request))) as {
+					success: boolean
+					message?: string
+				}
+				return result.success ? json(result) : toResponse(notFound(id))
+			}
+			case 'bulkCreate':
+				return json(
+					await call.bulkCreate(
+						(await rows()).map((row) => fromJson(columns, row)),
+					),
+				)
+			case 'bulkUpdate':
+				return json(
+					await call.bulkUpdate(
+						(await rows()).map((item) => {
+							const { id: itemId, changes, ...rest } = item ?? {}
+							return {
+								...rest,
+								id: typeof itemId === 'string' ? idOf(itemId) : itemId,
+								changes: fromJson(columns, changes),
+							}
+						}),
+					),
+				)
+			case 'bulkUpsert': {
+				const { data, ...upsert } = fromJson(columns, await body())
+				if (!Array.isArray(data)) {
+					throw invalid('data', 'data must be an array')
+				}
+				return json(
+					await call.bulkUpsert(
+						data.map((row) => fromJson(columns, row)),
+						upsert,
+					),
+				)
+			}
+			case 'bulkDelete':
+			case 'bulkHardDelete':
+			case 'bulkRestore':
+				return json(
+					await call[route](
+						(await rows()).map((item) =>
+							typeof item === 'string' ? idOf(item) : item,
+						),
+					),
+				)
+		}
+	}
+
+	return async (request) => {
+		const found = match(request)
+		if (!found || found.paths.length === 0) {
+			return toResponse(
+				new NotFoundError(`No route for ${new URL(request.url).pathname}`),
+			)
+		}
+		if (!found.route) {
+			return problem(
+				{
+					type: `${typePrefix}method-not-allowed`,
+					title: 'Method not allowed',
+					status: 405,
+					detail: `${request.method} is not allowed on this route`,
+				},
+				{ allow: found.paths.map((route) => route.method).join(', ') },
+			)
+		}
+
+		const { route } = found.route
+		try {
+			const id = found.id === undefined ? undefined : idOf(found.id)
+			const allowed = await authorize?.({ request, route, id })
+			if (allowed instanceof Response) return allowed
+			if (allowed === false) {
+				return problem({
+					type: `${typePrefix}forbidden`,
+					title: 'Forbidden',
+					status: 403,
+					detail: `Not allowed to ${route} ${entityName}`,
+				})
+			}
+			return await handle(route, request, id)
+		} catch (error) {
+			return toResponse(serviceError(error))
+		}
+	}
+}
@@ -14,12 +14,13 @@ import {
 } from 'drizzle-orm'
 import type {
 	BaseEntity,
+	MySqlDb,
 	PostgresDb,
 	ServiceBuilderFn,
 	SQLiteDb,
 } from './types'
 
-export function createService<DB extends PostgresDb | SQLiteDb>(
+export function createService<DB extends PostgresDb | SQLiteDb | MySqlDb>(
 	builderFn: ServiceBuilderFn<DB>,
 ): ServiceBuilderFn<DB> {
 	return builderFn
@@ -141,3 +142,7 @@ function parseFilterExpression<
 export function sqliteIlike(column: SQLWrapper, value: string): SQLWrapper {
 	return sql`${column} LIKE ${`%${value}%`} COLLATE NOCASE`
 }
+
+export function mysqlIlike(column: SQLWrapper, value: string): SQLWrapper {
+	return sql`lower(${column}) LIKE lower(${value})`
+}
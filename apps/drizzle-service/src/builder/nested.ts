@@ -0,0 +1,272 @@
+import {
+	type Column,
+	getTableColumns,
+	is,
+	Many,
+	normalizeRelation,
+	type Table,
+	type TableRelationalConfig,
+} from 'drizzle-orm'
+import { Effect } from 'effect'
+import {
+	createValidationError,
+	handleOptionalErrorHook,
+	tryEffect,
+	tryHandleError,
+} from '@/helpers'
+import { runTransaction } from './transaction'
+import type {
+	BaseDatabase,
+	BaseEntity,
+	ExtendedServiceHooks,
+	Handler,
+	NestedWrite,
+	RelatedService,
+	ServiceError,
+	ServiceMethodMap,
+} from './types'
+
+type Row = Record<string, unknown>
+
+interface NestedConfig {
+	readonly db: BaseDatabase
+	readonly table: BaseEntity
+	readonly entityName: string
+	readonly idField: PropertyKey
+	readonly relations:
+		| Record<string, (() => RelatedService) | undefined>
+		| undefined
+}
+
+interface RelationWrite {
+	readonly name: string
+	readonly service: () => RelatedService
+	// [parent column key, child column key] pairs of the foreign key
+	readonly keys: Array<readonly [string, string]>
+	readonly write: NestedWrite<Table>
+}
+
+interface RelationalSchema {
+	readonly schema?: Record<string, TableRelationalConfig>
+	readonly fullSchema?: Record<string, unknown>
+	readonly tableNamesMap: Record<string, string>
+}
+
+/**
+ * Key of the table in the drizzle schema the database was created with
+ */
+export function schemaKey(db: BaseDatabase, table: Table): string | undefined {
+	const { fullSchema } = (db as unknown as { _: RelationalSchema })._
+	const [key] =
+		Object.entries(fullSchema ?? {}).find(([, value]) => value === table) ?? []
+	return key
+}
+
+function columnKey(table: Table, column: Column): string {
+	const [key] =
+		Object.entries(getTableColumns(table)).find(
+			([, value]) => value === column,
+		) ?? []
+	return key ?? column.name
+}
+
+// Fails the transaction with the error of a `[error, data]` tuple
+function unwrap(result: unknown) {
+	const [error] = result as [ServiceError | null, unknown]
+	if (error) throw error
+}
+
+/**
+ * Wraps `create` and `update` so relation payloads in the data are written in
+ * the same transaction as the row. Only `many` relations are accepted, their
+ * rows get the foreign keys of the parent row and are written by the service
+ * of the relation, bound to the transaction, so its validation, tenant scope,
+ * audit, events and cache apply to the children.
+ */
+export function withNestedWrites<M extends object>(
+	methods: M,
+	{ db, table, entityName, idField, relations: services }: NestedConfig,
+): M {
+	const source = methods as ServiceMethodMap
+	const wrapped: Record<string, unknown> = { ...source }
+	const internals = (db as unknown as { _: RelationalSchema })._
+	const key = schemaKey(db, table)
+	const config = key ? internals.schema?.[key] : undefined
+	if (!config || Object.keys(config.relations).length === 0) {
+		return methods
+	}
+	const { relations, columns } = config
+
+	// Splits the columns of the row from the relation payloads
+	function split(data: Row): [Row, Array<[string, unknown]>] {
+		const row: Row = {}
+		const nested: Array<[string, unknown]> = []
+		for (const [field, value] of Object.entries(data)) {
+			if (field in relations && !(field in columns)) {
+				nested.push([field, value])
+			} else {
+				row[field] = value
+			}
+		}
+		return [row, nested]
+	}
+
+	function resolve(
+		nested: Array<[string, unknown]>,
+	): Effect.Effect<RelationWrite[], ServiceError> {
+		return Effect.forEach(nested, ([name, write]) => {
+			const relation = relations[name]
+			if (!relation || !is(relation, Many)) {
+				return createValidationError(
+					`${name} is not a many relation of ${entityName}, nested writes need the foreign key on the related table`,
+					name,
+				)
+			}
+			if (!write || typeof write !== 'object') {
+				return createValidationError(
+					`${name} must be an object with create, update or delete`,
+					name,
+				)
+			}
+			const service = services?.[name]
+			if (!service) {
+				return createValidationError(
+					`${name} needs its service in the relations option of ${entityName}`,
+					name,
+				)
+			}
+			return Effect.try({
+				try: () =>
+					normalizeRelation(
+						internals.schema ?? {},
+						internals.tableNamesMap,
+						relation,
+					),
+				catch: (error) => error as Error,
+			}).pipe(
+				Effect.catchAll((error) =>
+					createValidationError(
+						`${name} can not be written: ${error.message}`,
+						name,
+					),
+				),
+				Effect.map(({ fields, references }) => ({
+					name,
+					service,
+					keys: fields.map((field, index) => [
+						columnKey(table, field),
+						columnKey(relation.referencedTable, references[index] as Column),
+					]),
+					write: write as NestedWrite<Table>,
+				})),
+			)
+		})
+	}
+
+	async function writeRelation(
+		tx: BaseDatabase,
+		parent: Row,
+		{ service, keys, write }: RelationWrite,
+	) {
+		const related = service()
+		const child = related.withTransaction(tx) as ServiceMethodMap
+		const foreign = Object.fromEntries(
+			keys.map(([parentKey, childKey]) => [childKey, parent[parentKey]]),
+		)
+		// Ids of the children of the parent matching the criteria
+		const targets = async (criteria: Row) => {
+			const rows = (await child.findBy(
+				{ ...criteria, ...foreign },
+				{ withDeleted: true },
+			)) as Row[]
+			return rows.map((row) => row[related.idField])
+		}
+
+		for (const criteria of write.delete ?? []) {
+			for (const id of await targets(criteria)) {
+				await child.hardDelete(id)
+			}
+		}
+		for (const { where, changes } of write.update ?? []) {
+			for (const id of await targets(where)) {
+				unwrap(await child.update(id, changes))
+			}
+		}
+		for (const row of write.create ?? []) {
+			unwrap(await child.create({ ...row, ...foreign }))
+		}
+	}
+
+	/**
+	 * Runs the row mutation and the relation writes in one transaction (a
+	 * savepoint when the call already has one) and reads back the graph.
+	 * A failing step rolls everything back and fails with its own error.
+	 */
+	function nestedWrite(
+		nested: Array<[string, unknown]>,
+		hooks: ExtendedServiceHooks<unknown> & { tx?: BaseDatabase } = {},
+		mutate: (options: object) => Promise<unknown>,
+	): Handler<unknown> {
+		const { tx: outer, onError, ...options } = hooks
+		let failure: ServiceError | undefined
+
+		return tryHandleError(
+			Effect.gen(function* () {
+				const writes = yield* resolve(nested)
+				if (options.custom) {
+					return yield* createValidationError(
+						'Nested writes need the id of a single row',
+						'custom',
+					)
+				}
+				return yield* tryEffect(() =>
+					runTransaction(outer ?? db, async (tx) => {
+						const [error, row] = (await mutate({ ...options, tx })) as
+							| [ServiceError, null]
+							| [null, unknown]
+						if (error) {
+							failure = error
+							throw error
+						}
+						for (const write of writes) {
+							// The related services already fail with service errors
+							await writeRelation(tx, row as Row, write).catch((error) => {
+								failure = error
+								throw error
+							})
+						}
+						return await source.findOne((row as Row)[idField as string], {
+							include: Object.fromEntries(
+								writes.map(({ name }) => [name, true]),
+							),
+							tx,
+						})
+					}),
+				).pipe(Effect.catchAll((error) => Effect.fail(failure ?? error)))
+			}).pipe(
+				Effect.catchAll((error) => handleOptionalErrorHook(error, { onError })),
+			),
+		)
+	}
+
+	// Calls without relation payloads keep their original arguments
+	wrapped.create = (...args: [Row, ExtendedServiceHooks<unknown>?]) => {
+		const [data, hooks] = args
+		const [row, nested] = split(data)
+		if (nested.length === 0) return source.create(...args)
+		return nestedWrite(nested, hooks, (options) => source.create(row, options))
+	}
+
+	wrapped.update = (
+		...args: [unknown, Row, ExtendedServiceHooks<unknown>?]
+	) => {
+		const [id, data, hooks] = args
+		const [row, nested] = split(data)
+		if (nested.length === 0) return source.update(...args)
+		return nestedWrite(nested, hooks, (options) =>
+			source.update(id, row, options),
+		)
+	}
+
+	return wrapped as M
+}
@@ -0,0 +1,696 @@
+import { type Column, getTableColumns } from 'drizzle-orm'
+import { routeTable } from './http'
+import { defaultTypePrefix, problems } from './problem'
+import type {
+	HttpRoute,
+	JsonSchema,
+	OpenApiDocument,
+	OpenApiOptions,
+	OpenApiService,
+} from './types'
+
+const rangeOperators = ['$gt', '$gte', '$lt', '$lte', '$between']
+const textOperators = [
+	'$like',
+	'$ilike',
+	'$contains',
+	'$startsWith',
+	'$endsWith',
+]
+
+// Operators taking a comma separated list of values
+const listOperators = new Set(['$in', '$nin', '$between'])
+
+// Routes that only work with soft delete enabled
+const softRoutes = new Set<HttpRoute>([
+	'delete',
+	'restore',
+	'bulkDelete',
+	'bulkRestore',
+])
+
+// Routes reading rows, the other ones can hit constraints
+const readRoutes = new Set<HttpRoute>([
+	'find',
+	'findWithCursor',
+	'count',
+	'stream',
+	'aggregate',
+	'findOne',
+])
+
+// Routes taking the version the client read as If-Match
+const versionedRoutes = new Set<HttpRoute>([
+	'update',
+	'delete',
+	'hardDelete',
+	'restore',
+])
+
+// Name of the shared error response of every problem status
+const problemResponses: Record<number, string> = {
+	400: 'BadRequest',
+	404: 'NotFound',
+	409: 'Conflict',
+	422: 'UnprocessableContent',
+	500: 'InternalServerError',
+}
+
+const summaries: Record<HttpRoute, string> = {
+	find: 'List the rows, filtered by the criteria of the query string',
+	findWithCursor: 'Page through the rows with a cursor',
+	count: 'Count the rows matching the values of the query string',
+	stream: 'Stream the rows as newline delimited JSON',
+	aggregate: 'Aggregate the rows',
+	findOrCreate: 'Find the row or create it',
+	create: 'Create a row',
+	upsert: 'Create a row or update the existing one',
+	bulkCreate: 'Create several rows',
+	bulkUpdate: 'Update several rows',
+	bulkUpsert: 'Create several rows or update the conflicting ones',
+	bulkDelete: 'Soft delete several rows',
+	bulkHardDelete: 'Delete several rows for good',
+	bulkRestore: 'Restore several soft deleted rows',
+	findOne: 'Read a row by id',
+	update: 'Update a row',
+	delete: 'Soft delete a row',
+	hardDelete: 'Delete a row for good',
+	restore: 'Restore a soft deleted row',
+}
+
+const ref = (kind: 'schemas' | 'parameters' | 'responses', name: string) => ({
+	$ref: `#/components/${kind}/${name}`,
+})
+
+const arrayOf = (items: JsonSchema): JsonSchema => ({ type: 'array', items })
+
+const jsonContent = (schema: JsonSchema, type = 'application/json') => ({
+	content: { [type]: { schema } },
+})
+
+// `sales-lines` → `SalesLines`
+const pascal = (name: string) =>
+	name
+		.split(/[^a-zA-Z0-9]+/)
+		.filter(Boolean)
+		.map((part) => part[0]?.toUpperCase() + part.slice(1))
+		.join('')
+
+// Schema of the values of the column as they travel in JSON, nulls aside
+function valueSchema(column: Column): JsonSchema {
+	switch (column.dataType) {
+		case 'number':
+			return {
+				type: /Int|Serial/.test(column.columnType) ? 'integer' : 'number',
+			}
+		case 'bigint':
+			// The handlers write bigints as strings, JSON numbers lose their precision
+			return { type: 'string', format: 'int64', pattern: '^-?\\d+$' }
+		case 'boolean':
+			return { type: 'boolean' }
+		case 'date':
+			return { type: 'string', format: 'date-time' }
+		case 'string': {
+			const length = (column as Column & { length?: number }).length
+			return {
+				type: 'string',
+				...(column.enumValues?.length ? { enum: column.enumValues } : {}),
+				...(column.columnType === 'PgUUID' ? { format: 'uuid' } : {}),
+				...(typeof length === 'number' ? { maxLength: length } : {}),
+			}
+		}
+		case 'array':
+			return arrayOf({})
+		default:
+			return {}
+	}
+}
+
+function columnSchema(column: Column): JsonSchema {
+	const schema = valueSchema(column)
+	if (column.notNull || schema.type === undefined) return schema
+	return {
+		...schema,
+		type: [schema.type, 'null'],
+		...(Array.isArray(schema.enum) ? { enum: [...schema.enum, null] } : {}),
+	}
+}
+
+// Columns the database computes, they are never written
+const isGenerated = (column: Column) =>
+	column.generated !== undefined || column.generatedIdentity?.type === 'always'
+
+function operatorsOf(column: Column): string[] {
+	switch (column.dataType) {
+		case 'number':
+		case 'bigint':
+		case 'date':
+			return ['$neq', '$in', '$nin', ...rangeOperators]
+		case 'string':
+			return column.enumValues?.length
+				? ['$neq', '$in', '$nin']
+				: ['$neq', '$in', '$nin', ...rangeOperators, ...textOperators]
+		case 'boolean':
+			return ['$neq']
+		default:
+			return []
+	}
+}
+
+function operatorParameter(
+	field: string,
+	operator: string,
+	schema: JsonSchema,
+): JsonSchema {
+	const list = listOperators.has(operator)
+	return {
+		name: `${field}[${operator}]`,
+		in: 'query',
+		description: list
+			? `\`${operator}\` filter of ${field}, values are comma separated`
+			: `\`${operator}\` filter of ${field}`,
+		schema: list
+			? {
+					...arrayOf(schema),
+					...(operator === '$between' ? { minItems: 2, maxItems: 2 } : {}),
+				}
+			: textOperators.includes(operator)
+				? { type: 'string' }
+				: schema,
+		...(list ? { style: 'form', explode: false } : {}),
+	}
+}
+
+// Value written to the soft delete field, as shown in the descriptions
+function deletedValueText(value: unknown): string {
+	if (value === 'NOT_NULL') return 'the current time'
+	return `\`${value instanceof Date ? value.toISOString() : String(value)}\``
+}
+
+const sharedParameters: Record<string, JsonSchema> = {
+	page: {
+		name: 'page',
+		in: 'query',
+		schema: { type: 'integer', minimum: 1 },
+	},
+	limit: {
+		name: 'limit',
+		in: 'query',
+		description: 'Rows per page, capped by the maxLimit of the service',
+		schema: { type: 'integer', minimum: 1 },
+	},
+	cursor: {
+		name: 'cursor',
+		in: 'query',
+		description: 'nextCursor or prevCursor of the previous page',
+		schema: { type: 'string' },
+	},
+	withDeleted: {
+		name: 'withDeleted',
+		in: 'query',
+		description: 'Include the soft deleted rows',
+		schema: { type: 'boolean', default: false },
+	},
+	match: {
+		name: 'match',
+		in: 'query',
+		description: 'How the text values of the criteria are matched',
+		schema: {
+			type: 'string',
+			enum: ['startWith', 'contains', 'exact', 'endsWith'],
+		},
+	},
+	caseSensitive: {
+		name: 'caseSensitive',
+		in: 'query',
+		schema: { type: 'boolean' },
+	},
+	chunkSize: {
+		name: 'chunkSize',
+		in: 'query',
+		description: 'Rows read from the database at once',
+		schema: { type: 'integer', minimum: 1 },
+	},
+	ifMatch: {
+		name: 'If-Match',
+		in: 'header',
+		description:
+			'Version of the row the client read, the request fails with a 409 when it changed since',
+		schema: { type: 'string' },
+	},
+}
+
+function sharedSchemas(typePrefix: string): Record<string, JsonSchema> {
+	return {
+		ValidationIssue: {
+			type: 'object',
+			properties: {
+				field: {
+					type: 'string',
+					description:
+						'Dot separated path of the invalid field, empty for issues on the whole value',
+				},
+				message: { type: 'string' },
+			},
+			required: ['field', 'message'],
+		},
+		ProblemDetails: {
+			type: 'object',
+			description: 'RFC 7807 problem details',
+			properties: {
+				type: {
+					type: 'string',
+					format: 'uri-reference',
+					examples: Object.values(problems).map(
+						({ slug }) => `${typePrefix}${slug}`,
+					),
+				},
+				title: { type: 'string' },
+				status: { type: 'integer' },
+				detail: { type: 'string' },
+				instance: { type: 'string' },
+				code: { type: 'string' },
+				entity: { type: 'string' },
+				id: {},
+				field: { type: 'string' },
+				issues: arrayOf(ref('schemas', 'ValidationIssue')),
+				constraint: { type: 'string' },
+				column: { type: 'string' },
+				expectedVersion: {},
+				currentVersion: {},
+			},
+			required: ['type', 'title', 'status'],
+		},
+		DeleteResult: {
+			type: 'object',
+			properties: {
+				success: { type: 'boolean' },
+				message: { type: 'string' },
+			},
+			required: ['success'],
+		},
+		BulkOperationSummary: {
+			type: 'object',
+			properties: {
+				size: { type: 'integer' },
+				processed: { type: 'integer' },
+				failed: { type: 'integer' },
+				inserted: {
+					type: 'integer',
+					description: 'Rows inserted, only reported by bulkUpsert',
+				},
+				updated: {
+					type: 'integer',
+					description: 'Existing rows updated, only reported by bulkUpsert',
+				},
+				skipped: {
+					type: 'integer',
+					description:
+						'Conflicting rows left untouched, only reported by bulkUpsert',
+				},
+				errors: arrayOf({
+					type: 'object',
+					properties: {
+						id: {},
+						error: { type: 'string' },
+						index: {
+							type: 'integer',
+							description: 'Position of the row in the input array',
+						},
+						issues: arrayOf(ref('schemas', 'ValidationIssue')),
+					},
+					required: ['id', 'error'],
+				}),
+			},
+			required: ['size', 'processed', 'failed'],
+		},
+		DeleteBulkOperationResult: {
+			type: 'array',
+			prefixItems: [
+				ref('schemas', 'BulkOperationSummary'),
+				ref('schemas', 'DeleteResult'),
+			],
+			minItems: 2,
+			maxItems: 2,
+		},
+	}
+}
+
+function sharedResponses(): Record<string, JsonSchema> {
+	const titles = new Map<number, string[]>()
+	for (const { status, title } of Object.values(problems)) {
+		titles.set(status, [...(titles.get(status) ?? []), title])
+	}
+	return Object.fromEntries(
+		Object.entries(problemResponses).map(([status, name]) => [
+			name,
+			{
+				description: titles.get(Number(status))?.join(', ') ?? name,
+				...jsonContent(
+					ref('schemas', 'ProblemDetails'),
+					'application/problem+json',
+				),
+			},
+		]),
+	)
+}
+
+/**
+ * Components and paths of one service, added to the document
+ */
+function describeService(
+	document: OpenApiDocument,
+	name: string,
+	service: OpenApiService,
+	{ basePath = '', routes = {} }: OpenApiOptions,
+) {
+	const { components, paths } = document
+	const Name = pascal(name)
+	const { idField, soft } = service
+	const columns = Object.entries(
+		getTableColumns(service.entity) as Record<string, Column>,
+	)
+	const fields = columns.map(([field]) => field)
+	const numericFields = columns
+		.filter(([, column]) => ['number', 'bigint'].includes(column.dataType))
+		.map(([field]) => field)
+	const idColumn = columns.find(([field]) => field === idField)?.[1]
+	const idSchema = idColumn ? valueSchema(idColumn) : { type: 'string' }
+	const writable = columns.filter(([, column]) => !isGenerated(column))
+	const deleted = soft
+		? `Soft deleted rows hold ${deletedValueText(soft.deletedValue)} in ${String(soft.field)}`
+		: undefined
+
+	components.schemas[Name] = {
+		type: 'object',
+		description: deleted
+			? `Row of ${service.entityName}. ${deleted}`
+			: `Row of ${service.entityName}`,
+		properties: Object.fromEntries(
+			columns.map(([field, column]) => [field, columnSchema(column)]),
+		),
+		required: fields,
+	}
+	components.schemas[`${Name}Insert`] = {
+		type: 'object',
+		properties: Object.fromEntries(
+			writable.map(([field, column]) => [field, columnSchema(column)]),
+		),
+		required: writable
+			.filter(([, column]) => column.notNull && !column.hasDefault)
+			.map(([field]) => field),
+	}
+	components.schemas[`${Name}Update`] = {
+		type: 'object',
+		properties: Object.fromEntries(
+			writable
+				.filter(([field]) => field !== idField && field !== 'createdAt')
+				.map(([field, column]) => [field, columnSchema(column)]),
+		),
+	}
+	components.schemas[`${Name}PaginationResult`] = {
+		type: 'object',
+		properties: {
+			items: arrayOf(ref('schemas', Name)),
+			nextCursor: { type: ['string', 'null'] },
+			prevCursor: { type: ['string', 'null'] },
+			pagination: {
+				type: 'object',
+				properties: {
+					page: { type: 'integer' },
+					pageSize: { type: 'integer' },
+					total: { type: 'integer' },
+					hasNext: { type: 'boolean' },
+					hasPrev: { type: 'boolean' },
+				},
+				required: ['page', 'pageSize', 'total', 'hasNext', 'hasPrev'],
+			},
+		},
+		required: ['items', 'nextCursor', 'prevCursor', 'pagination'],
+	}
+	components.schemas[`${Name}BulkOperationResult`] = {
+		type: 'array',
+		prefixItems: [
+			ref('schemas', 'BulkOperationSummary'),
+			arrayOf(ref('schemas', Name)),
+		],
+		minItems: 2,
+		maxItems: 2,
+	}
+
+	// Parameters of the entity, the criteria ones are named after their key
+	const parameter = (key: string, value: JsonSchema) => {
+		components.parameters[`${Name}.${key}`] = value
+		return ref('parameters', `${Name}.${key}`)
+	}
+	const idParameter = parameter('id', {
+		name: 'id',
+		in: 'path',
+		required: true,
+		description: `${idField} of the row`,
+		schema: idSchema,
+	})
+	const orderBy = parameter('orderBy', {
+		name: 'orderBy',
+		in: 'query',
+		description: 'Comma separated fields, a leading `-` sorts descending',
+		style: 'form',
+		explode: false,
+		schema: arrayOf({
+			type: 'string',
+			enum: [...fields, ...fields.map((field) => `-${field}`)],
+		}),
+	})
+	const criteria = columns.filter(([, column]) => operatorsOf(column).length)
+	const values = criteria.map(([field, column]) =>
+		parameter(field, {
+			name: field,
+			in: 'query',
+			description: `Matches the rows holding the value in ${field}`,
+			schema: valueSchema(column),
+		}),
+	)
+	const filters = criteria.flatMap(([field, column]) =>
+		operatorsOf(column).map((operator) =>
+			parameter(
+				`${field}.${operator.slice(1)}`,
+				operatorParameter(field, operator, valueSchema(column)),
+			),
+		),
+	)
+	const shared = (key: string) => ref('parameters', key)
+	const withDeleted = soft ? [shared('withDeleted')] : []
+	const fieldList = arrayOf({ type: 'string', enum: fields })
+
+	function parametersOf(route: HttpRoute): JsonSchema[] {
+		switch (route) {
+			case 'find':
+				return [
+					shared('page'),
+					shared('limit'),
+					orderBy,
+					...withDeleted,
+					shared('match'),
+					shared('caseSensitive'),
+					...values,
+					...filters,
+				]
+			case 'findWithCursor':
+				return [shared('cursor'), shared('limit'), orderBy, ...withDeleted]
+			case 'count':
+				return [...withDeleted, ...values]
+			case 'stream':
+				return [shared('chunkSize'), orderBy, ...withDeleted]
+			default:
+				return []
+		}
+	}
+
+	function requestBodyOf(route: HttpRoute): JsonSchema | undefined {
+		switch (route) {
+			case 'create':
+			case 'upsert':
+			case 'findOrCreate':
+				return ref('schemas', `${Name}Insert`)
+			case 'update':
+				return ref('schemas', `${Name}Update`)
+			case 'bulkCreate':
+				return arrayOf(ref('schemas', `${Name}Insert`))
+			case 'bulkUpdate':
+				return arrayOf({
+					type: 'object',
+					properties: {
+						id: idSchema,
+						changes: ref('schemas', `${Name}Update`),
+						expectedVersion: {},
+					},
+					required: ['id', 'changes'],
+				})
+			case 'bulkUpsert':
+				return {
+					type: 'object',
+					properties: {
+						data: arrayOf(ref('schemas', `${Name}Insert`)),
+						target: { ...fieldList, minItems: 1 },
+						update: {
+							oneOf: [fieldList, { type: 'string', enum: ['all', 'none'] }],
+							default: 'all',
+						},
+					},
+					required: ['data', 'target'],
+				}
+			case 'bulkDelete':
+			case 'bulkHardDelete':
+			case 'bulkRestore':
+				return arrayOf(idSchema)
+			case 'aggregate': {
+				const numericList = arrayOf({ type: 'string', enum: numericFields })
+				return {
+					type: 'object',
+					properties: {
+						where: {
+							type: 'object',
+							description: 'Criteria the rows must match',
+						},
+						sum: numericList,
+						avg: numericList,
+						min: fieldList,
+						max: fieldList,
+						groupBy: fieldList,
+					},
+				}
+			}
+		}
+	}
+
+	function responseOf(route: HttpRoute): [string, JsonSchema] {
+		const entity = ref('schemas', Name)
+		switch (route) {
+			case 'find':
+				return ['200', jsonContent(arrayOf(entity))]
+			case 'findWithCursor':
+				return ['200', jsonContent(ref('schemas', `${Name}PaginationResult`))]
+			case 'count':
+				return ['200', jsonContent({ type: 'integer' })]
+			case 'stream':
+				return ['200', jsonContent(entity, 'application/x-ndjson')]
+			case 'aggregate':
+				return [
+					'200',
+					jsonContent(
+						arrayOf({
+							type: 'object',
+							properties: { count: { type: 'integer' } },
+							required: ['count'],
+						}),
+					),
+				]
+			case 'create':
+				return ['201', jsonContent(entity)]
+			case 'delete':
+			case 'hardDelete':
+			case 'restore':
+				return ['200', jsonContent(ref('schemas', 'DeleteResult'))]
+			case 'bulkCreate':
+			case 'bulkUpdate':
+			case 'bulkUpsert':
+				return [
+					'200',
+					jsonContent(ref('schemas', `${Name}BulkOperationResult`)),
+				]
+			case 'bulkDelete':
+			case 'bulkHardDelete':
+			case 'bulkRestore':
+				return ['200', jsonContent(ref('schemas', 'DeleteBulkOperationResult'))]
+			default:
+				return ['200', jsonContent(entity)]
+		}
+	}
+
+	for (const [route, method, path] of routeTable) {
+		if (routes[route] === false || (!soft && softRoutes.has(route))) continue
+
+		const segments = [basePath, name, path]
+			.flatMap((part) => part.split('/'))
+			.filter(Boolean)
+			.map((segment) => (segment === ':id' ? '{id}' : segment))
+		const key = `/${segments.join('/')}`
+		const byId = path.includes(':id')
+		const body = requestBodyOf(route)
+		const [status, content] = responseOf(route)
+		const errors = [
+			400,
+			...(byId ? [404] : []),
+			...(readRoutes.has(route) ? [] : [409, 422]),
+			500,
+		]
+
+		paths[key] = {
+			...paths[key],
+			[method.toLowerCase()]: {
+				operationId: `${route}${Name}`,
+				tags: [name],
+				summary: summaries[route],
+				...(deleted && softRoutes.has(route) ? { description: deleted } : {}),
+				parameters: [
+					...(byId ? [idParameter] : []),
+					...(versionedRoutes.has(route) ? [shared('ifMatch')] : []),
+					...parametersOf(route),
+				],
+				...(body
+					? { requestBody: { required: true, ...jsonContent(body) } }
+					: {}),
+				responses: {
+					[status]: { description: summaries[route], ...content },
+					...Object.fromEntries(
+						errors.map((code) => [
+							String(code),
+							ref('responses', problemResponses[code] ?? ''),
+						]),
+					),
+				},
+			},
+		}
+	}
+}
+
+/**
+ * OpenAPI 3.1 document of the routes `createHttpHandler` serves for each
+ * service, with the entity, insert and update schemas derived from the table
+ * columns. Each service is described at `${basePath}/${name}`, soft delete
+ * routes only when the service has soft delete enabled.
+ * @example
+ * ```typescript
+ * const document = generateOpenApi(
+ *   { items: itemService, sales: salesService },
+ *   { basePath: '/api', info: { title: 'Inventory', version: '1.0.0' } },
+ * )
+ * // Mounted with createHttpHandler(itemService, { basePath: '/api/items' })
+ * ```
+ */
+export function generateOpenApi(
+	services: Record<string, OpenApiService>,
+	options: OpenApiOptions = {},
+): OpenApiDocument {
+	const { info = {}, servers, typePrefix = defaultTypePrefix } = options
+	const document: OpenApiDocument = {
+		openapi: '3.1.0',
+		info: {
+			...info,
+			title: info.title ?? 'API',
+			version: info.version ?? '1.0.0',
+		},
+		...(servers ? { servers } : {}),
+		tags: Object.keys(services).map((name) => ({ name })),
+		paths: {},
+		components: {
+			schemas: sharedSchemas(typePrefix),
+			parameters: { ...sharedParameters },
+			responses: sharedResponses(),
+		},
+	}
+	for (const [name, service] of Object.entries(services)) {
+		describeService(document, name, service, options)
+	}
+	return document
+}
@@ -0,0 +1,109 @@
+import { serviceMethodNames } from './transaction'
+import type {
+	PluginCall,
+	PluginContext,
+	ServiceMethodMap,
+	ServicePlugin,
+} from './types'
+
+type Method = (...args: unknown[]) => Promise<unknown>
+// Any service, as received by the `extend` of a plugin
+type ExtendedService = Parameters<NonNullable<ServicePlugin['extend']>>[0]
+
+async function runPlugin(
+	plugin: ServicePlugin,
+	call: PluginCall,
+	next: Method,
+): Promise<unknown> {
+	const args = (await plugin.before?.(call)) ?? call.args
+	const current = { ...call, args }
+	const invoke = (nextArgs?: unknown[]) => next(...(nextArgs ?? args))
+
+	const result = plugin.around
+		? await plugin.around(current, invoke)
+		: await invoke()
+	if (!plugin.after) return result
+
+	const replaced = await plugin.after(current, result)
+	return replaced === undefined ? result : replaced
+}
+
+/**
+ * Wraps the service methods with the before / around / after logic of the
+ * plugins, the first plugin is the outermost one.
+ */
+export function withPlugins<M extends object>(
+	methods: M,
+	plugins: readonly ServicePlugin[] | undefined,
+	context: PluginContext,
+): M {
+	if (!plugins?.length) return methods
+
+	const source = methods as ServiceMethodMap
+	const wrapped: Record<string, unknown> = { ...source }
+
+	for (const name of serviceMethodNames) {
+		const method = source[name]
+		// `stream` yields its rows lazily, there is no result to wrap
+		if (typeof method !== 'function' || name === 'stream') continue
+
+		wrapped[name] = plugins
+			.filter((plugin) => !plugin.methods || plugin.methods.includes(name))
+			.reduceRight<Method>(
+				(next, plugin) =>
+					(...args) =>
+						runPlugin(plugin, { ...context, method: name, args }, next),
+				method,
+			)
+	}
+
+	return wrapped as M
+}
+
+/**
+ * Adds the extension methods of the plugins to the service, extensions
+ * receive the complete service so they can use each other.
+ */
+export function extendService<S extends ExtendedService>(
+	service: S,
+	plugins: readonly ServicePlugin[] | undefined,
+	context: PluginContext,
+): S {
+	for (const plugin of plugins ?? []) {
+		if (plugin.extend) Object.assign(service, plugin.extend(service, context))
+	}
+	return service
+}
+
+/**
+ * Options of a service with the plugins of the `drizzleService` instance
+ * running before its own plugins.
+ */
+export function withGlobalPlugins<
+	O extends { plugins?: readonly ServicePlugin[] },
+>(
+	opts: O | undefined,
+	plugins: readonly ServicePlugin[] | undefined,
+): O | undefined {
+	if (!plugins?.length) return opts
+	return {
+		...opts,
+		plugins: [...plugins, ...(opts?.plugins ?? [])],
+	} as unknown as O
+}
+
+/**
+ * Declares a plugin keeping the type of its extension methods
+ * @example
+ * ```typescript
+ * const countPlugin = definePlugin({
+ *   name: 'count',
+ *   extend: (service) => ({ total: () => service.count() }),
+ * })
+ * ```
+ */
+export function definePlugin<TExtensions extends object = object>(
+	plugin: ServicePlugin<TExtensions>,
+): ServicePlugin<TExtensions> {
+	return plugin
+}
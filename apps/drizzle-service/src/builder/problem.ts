@@ -0,0 +1,229 @@
+import {
+	CheckError,
+	ConflictError,
+	DatabaseError,
+	ForeignKeyError,
+	NotFoundError,
+	NotNullError,
+	type ProblemDetails,
+	type ProblemDetailsOptions,
+	type ServiceError,
+	ValidationError,
+	type ValidationIssue,
+} from './types'
+
+export const defaultTypePrefix = 'urn:drizzle-service:problem:'
+
+export const problems: Record<
+	ServiceError['_tag'],
+	{ readonly slug: string; readonly title: string; readonly status: number }
+> = {
+	DatabaseError: {
+		slug: 'database-error',
+		title: 'Database error',
+		status: 500,
+	},
+	ValidationError: {
+		slug: 'validation-error',
+		title: 'Validation failed',
+		status: 400,
+	},
+	NotFoundError: { slug: 'not-found', title: 'Not found', status: 404 },
+	ConflictError: { slug: 'conflict', title: 'Conflict', status: 409 },
+	ForeignKeyError: {
+		slug: 'foreign-key-violation',
+		title: 'Foreign key violation',
+		status: 409,
+	},
+	NotNullError: {
+		slug: 'not-null-violation',
+		title: 'Missing required value',
+		status: 422,
+	},
+	CheckError: {
+		slug: 'check-violation',
+		title: 'Check constraint violation',
+		status: 422,
+	},
+}
+
+// Details shown instead of the driver messages, which can leak values and SQL
+const driverDetails: Record<string, (target?: string) => string> = {
+	UNIQUE_VIOLATION: (target) =>
+		target
+			? `A record with the same ${target} already exists`
+			: 'A record with the same values already exists',
+	FOREIGN_KEY_VIOLATION: (target) =>
+		target
+			? `The record referenced by ${target} does not exist or the record is still referenced`
+			: 'A referenced record does not exist or the record is still referenced',
+	NOT_NULL_VIOLATION: (target) =>
+		target ? `${target} is required` : 'A required value is missing',
+	CHECK_VIOLATION: (target) =>
+		target
+			? `The record does not satisfy the ${target} check`
+			: 'The record does not satisfy a check constraint',
+	SERIALIZATION_FAILURE: () =>
+		'The transaction conflicted with a concurrent one, retry it',
+	DEADLOCK: () =>
+		'The transaction was chosen as the victim of a deadlock, retry it',
+}
+
+// Drops the members without a value so the problem serializes without them
+function compact(problem: Record<string, unknown>): ProblemDetails {
+	return Object.fromEntries(
+		Object.entries(problem).filter(([, value]) => value !== undefined),
+	) as ProblemDetails
+}
+
+function detailOf(error: ServiceError, debug: boolean): string {
+	if (debug) return error.message
+	if (error._tag === 'DatabaseError') {
+		return 'The database could not complete the operation'
+	}
+	if ('code' in error && error.code && error.code in driverDetails) {
+		const { column, constraint } = error
+		return driverDetails[error.code]?.(column ?? constraint) ?? error.message
+	}
+	return error.message
+}
+
+/**
+ * Serializes a `ServiceError` as RFC 7807 problem details. Driver messages of
+ * database and constraint errors are replaced by generic details unless `debug`
+ * is set, the entity, id, field issues and constraint are kept as extensions.
+ * @example
+ * ```typescript
+ * const [error, item] = await itemService.create(data)
+ * if (error) {
+ *   const problem = toProblemDetails(error, { instance: request.url })
+ *   return Response.json(problem, {
+ *     status: problem.status,
+ *     headers: { 'content-type': 'application/problem+json' },
+ *   })
+ * }
+ * ```
+ */
+export function toProblemDetails(
+	error: ServiceError,
+	{
+		typePrefix = defaultTypePrefix,
+		instance,
+		debug = false,
+	}: ProblemDetailsOptions = {},
+): ProblemDetails {
+	const { slug, title, status } = problems[error._tag] ?? problems.DatabaseError
+	const base = {
+		type: `${typePrefix}${slug}`,
+		title,
+		status,
+		detail: detailOf(error, debug),
+		instance,
+	}
+	const debugMembers = debug ? { stack: error.stack } : {}
+
+	switch (error._tag) {
+		case 'ValidationError':
+			return compact({
+				...base,
+				field: error.field,
+				issues: error.issues,
+				...debugMembers,
+			})
+		case 'NotFoundError':
+			return compact({
+				...base,
+				entity: error.entityType,
+				id: error.id,
+				...debugMembers,
+			})
+		case 'ConflictError':
+			return compact({
+				...base,
+				code: error.code,
+				entity: error.entityType,
+				id: error.id,
+				expectedVersion: error.expectedVersion,
+				currentVersion: error.currentVersion,
+				constraint: error.constraint,
+				column: error.column,
+				...debugMembers,
+			})
+		case 'ForeignKeyError':
+		case 'NotNullError':
+		case 'CheckError':
+			return compact({
+				...base,
+				code: error.code,
+				constraint: error.constraint,
+				column: error.column,
+				...debugMembers,
+			})
+		default:
+			return compact({ ...base, ...debugMembers })
+	}
+}
+
+const text = (value: unknown) => (typeof value === 'string' ? value : undefined)
+
+/**
+ * Rebuilds the `ServiceError` of problem details made by `toProblemDetails`,
+ * problems of an unknown or missing `type` become a `DatabaseError`.
+ * @example
+ * ```typescript
+ * const response = await fetch('/items', { method: 'POST', body })
+ * if (!response.ok) {
+ *   const error = fromProblemDetails(await response.json())
+ *   if (error._tag === 'ConflictError') ...
+ * }
+ * ```
+ */
+export function fromProblemDetails(
+	problem: ProblemDetails,
+	{
+		typePrefix = defaultTypePrefix,
+	}: Pick<ProblemDetailsOptions, 'typePrefix'> = {},
+): ServiceError {
+	// `type` is optional on the wire, RFC 7807 defaults it to about:blank
+	const type = problem.type ?? 'about:blank'
+	const slug = type.startsWith(typePrefix)
+		? type.slice(typePrefix.length)
+		: undefined
+	const [tag] =
+		Object.entries(problems).find(([, entry]) => entry.slug === slug) ?? []
+	const message = problem.detail ?? problem.title
+	const constraint = text(problem.constraint)
+	const column = text(problem.column)
+
+	switch (tag as ServiceError['_tag'] | undefined) {
+		case 'ValidationError':
+			return new ValidationError(
+				message,
+				text(problem.field),
+				Array.isArray(problem.issues)
+					? (problem.issues as ValidationIssue[])
+					: undefined,
+			)
+		case 'NotFoundError':
+			return new NotFoundError(message, text(problem.entity), problem.id)
+		case 'ConflictError':
+			return new ConflictError(
+				message,
+				text(problem.entity),
+				problem.id,
+				problem.expectedVersion,
+				problem.currentVersion,
+				text(problem.code) as ConflictError['code'],
+				constraint,
+				column,
+			)
+		case 'ForeignKeyError':
+			return new ForeignKeyError(message, constraint, column)
+		case 'NotNullError':
+			return new NotNullError(message, constraint, column)
+		case 'CheckError':
+			return new CheckError(message, constraint, column)
+		default:
+			return new DatabaseError(message)
+	}
+}
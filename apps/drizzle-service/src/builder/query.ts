@@ -0,0 +1,267 @@
+import { type Column, getTableColumns, getTableName } from 'drizzle-orm'
+import {
+	type BaseEntity,
+	type CriteriaFilterOperators,
+	type CriteriaFilters,
+	type QueryString,
+	ValidationError,
+} from './types'
+
+const operators = new Set<string>([
+	'$gt',
+	'$gte',
+	'$lt',
+	'$lte',
+	'$eq',
+	'$neq',
+	'$in',
+	'$nin',
+	'$between',
+	'$ilike',
+	'$like',
+	'$contains',
+	'$startsWith',
+	'$endsWith',
+] satisfies CriteriaFilters[])
+
+// Operators taking a comma separated list of values
+const listOperators = new Set(['$in', '$nin', '$between'])
+
+// Operators matching text patterns, their value is never converted
+const textOperators = new Set([
+	'$like',
+	'$ilike',
+	'$contains',
+	'$startsWith',
+	'$endsWith',
+])
+
+// `price[$gte]` is the `$gte` filter of `price`
+const keyPattern = /^([^[\]]+)(?:\[([^[\]]+)\])?$/
+
+function invalid(field: string, message: string): ValidationError {
+	return new ValidationError(message, field)
+}
+
+/**
+ * Value of a query string parameter or path segment converted to the type of
+ * the column, enum columns only take their values
+ */
+export function columnValue(
+	column: Column,
+	field: string,
+	value: string,
+): unknown {
+	switch (column.dataType) {
+		case 'number': {
+			const number = Number(value)
+			if (value.trim() === '' || Number.isNaN(number)) {
+				throw invalid(field, `${field} must be a number`)
+			}
+			return number
+		}
+		case 'bigint':
+			try {
+				return BigInt(value)
+			} catch {
+				throw invalid(field, `${field} must be an integer`)
+			}
+		case 'boolean':
+			if (value !== 'true' && value !== 'false') {
+				throw invalid(field, `${field} must be true or false`)
+			}
+			return value === 'true'
+		case 'date': {
+			const date = new Date(value)
+			if (Number.isNaN(date.getTime())) {
+				throw invalid(field, `${field} must be a date`)
+			}
+			return date
+		}
+		default:
+			if (column.enumValues?.length && !column.enumValues.includes(value)) {
+				throw invalid(
+					field,
+					`${field} must be one of ${column.enumValues.join(', ')}`,
+				)
+			}
+			return value
+	}
+}
+
+function positive(field: string, value: string): number {
+	const number = Number(value)
+	if (!Number.isInteger(number) || number < 1) {
+		throw invalid(field, `${field} must be a positive integer`)
+	}
+	return number
+}
+
+/**
+ * Reads the criteria and query options of a URL query string. `field=value`
+ * matches the value, `field[$op]=value` applies a criteria operator and the
+ * lists of `$in`, `$nin` and `$between` are comma separated. Values are
+ * converted to the type of their column, unknown columns and operators fail
+ * with a `ValidationError`.
+ * @example
+ * ```typescript
+ * const { criteria, ...opts } = parseQueryString(
+ *   items,
+ *   '?price[$gte]=10&status[$in]=ACTIVE,DRAFT&orderBy=-createdAt&page=2',
+ * )
+ * // criteria → { price: { $gte: 10 }, status: { $in: ['ACTIVE', 'DRAFT'] } }
+ * // opts → { orderBy: { createdAt: 'desc' }, page: 2 }
+ * await itemService.findBy(criteria, opts)
+ * ```
+ */
+export function parseQueryString<T extends BaseEntity>(
+	table: T,
+	searchParams: URLSearchParams | string,
+): QueryString<T> & { readonly criteria: CriteriaFilterOperators<T> } {
+	const params =
+		typeof searchParams === 'string'
+			? new URLSearchParams(searchParams)
+			: searchParams
+	const columns = getTableColumns(table) as Record<string, Column>
+	const entityName = getTableName(table)
+	const column = (field: string) => {
+		const found = columns[field]
+		if (!found) {
+			throw invalid(field, `${field} is not a column of ${entityName}`)
+		}
+		return found
+	}
+
+	const query: {
+		page?: number
+		limit?: number
+		orderBy?: Record<string, 'asc' | 'desc'>
+		withDeleted?: boolean
+	} = {}
+	const values = new Map<string, unknown>()
+	const filters = new Map<string, Record<string, unknown>>()
+	const seen = new Set<string>()
+
+	params.forEach((value, key) => {
+		if (seen.has(key)) throw invalid(key, `${key} is given more than once`)
+		seen.add(key)
+
+		switch (key) {
+			case 'page':
+			case 'limit':
+				query[key] = positive(key, value)
+				return
+			case 'withDeleted':
+				if (value !== 'true' && value !== 'false') {
+					throw invalid(key, `${key} must be true or false`)
+				}
+				query.withDeleted = value === 'true'
+				return
+			case 'orderBy':
+				// `orderBy=-createdAt,name` sorts by createdAt descending, then name
+				query.orderBy = Object.fromEntries(
+					value.split(',').map((entry) => {
+						const descending = entry.startsWith('-')
+						const field = descending ? entry.slice(1) : entry
+						column(field)
+						return [field, descending ? 'desc' : 'asc'] as const
+					}),
+				)
+				return
+		}
+
+		const [, field = key, operator] = keyPattern.exec(key) ?? []
+		const target = column(field)
+		if (values.has(field) || (!operator && filters.has(field))) {
+			throw invalid(field, `${field} can not be matched and filtered at once`)
+		}
+		if (!operator) {
+			values.set(field, columnValue(target, field, value))
+			return
+		}
+		if (!operators.has(operator)) {
+			throw invalid(key, `${operator} is not a criteria operator`)
+		}
+
+		let filter: unknown
+		if (textOperators.has(operator)) {
+			filter = value
+		} else if (listOperators.has(operator)) {
+			const list = value
+				.split(',')
+				.map((item) => columnValue(target, field, item))
+			if (operator === '$between' && list.length !== 2) {
+				throw invalid(key, `${key} takes two comma separated values`)
+			}
+			filter = list
+		} else {
+			filter = columnValue(target, field, value)
+		}
+		filters.set(field, { ...filters.get(field), [operator]: filter })
+	})
+
+	return {
+		...query,
+		criteria: Object.fromEntries([...values, ...filters]),
+	} as QueryString<T> & { readonly criteria: CriteriaFilterOperators<T> }
+}
+
+const text = (value: unknown) =>
+	value instanceof Date ? value.toISOString() : String(value)
+
+const encode = (value: unknown) =>
+	Array.isArray(value)
+		? value.map((item) => encodeURIComponent(text(item))).join(',')
+		: encodeURIComponent(text(value))
+
+const isFilter = (value: unknown): value is Record<string, unknown> =>
+	value !== null &&
+	typeof value === 'object' &&
+	!(value instanceof Date) &&
+	!Array.isArray(value)
+
+/**
+ * Writes criteria and query options as the query string `parseQueryString`
+ * reads, without the leading `?`. Values of the lists can not hold commas.
+ * @example
+ * ```typescript
+ * stringifyQuery<typeof items>({
+ *   criteria: { price: { $gte: 10 }, status: { $in: ['ACTIVE', 'DRAFT'] } },
+ *   orderBy: { createdAt: 'desc' },
+ *   page: 2,
+ * })
+ * // 'price[$gte]=10&status[$in]=ACTIVE,DRAFT&orderBy=-createdAt&page=2'
+ * ```
+ */
+export function stringifyQuery<T extends BaseEntity = BaseEntity>({
+	criteria = {},
+	page,
+	limit,
+	orderBy,
+	withDeleted,
+}: QueryString<T>): string {
+	const params: string[] = []
+	const add = (key: string, value: unknown) => {
+		if (value !== undefined) params.push(`${key}=${encode(value)}`)
+	}
+
+	for (const [field, filter] of Object.entries(criteria)) {
+		const key = encodeURIComponent(field)
+		if (!isFilter(filter)) {
+			add(key, filter)
+			continue
+		}
+		for (const [operator, value] of Object.entries(filter)) {
+			add(`${key}[${operator}]`, value)
+		}
+	}
+
+	const order = Object.entries(orderBy ?? {})
+		.filter(([, direction]) => direction !== undefined)
+		.map(([field, direction]) => (direction === 'desc' ? `-${field}` : field))
+	if (order.length > 0) add('orderBy', order)
+	add('page', page)
+	add('limit', limit)
+	add('withDeleted', withDeleted)
+	return params.join('&')
+}
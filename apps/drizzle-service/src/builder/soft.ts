@@ -0,0 +1,65 @@
+import { and, type Column, eq, lt, type SQL } from 'drizzle-orm'
+import type { AuditOption, BaseEntity, SoftDeleteOption } from './types'
+
+export interface SoftDelete {
+	/**
+	 * Columns set by `delete` and `bulkDelete`, the soft delete value and the metadata fields
+	 */
+	readonly deleted: (reason?: string) => Promise<Record<string, unknown>>
+	/**
+	 * Metadata fields cleared by `restore` and `bulkRestore`
+	 */
+	readonly restored: () => Record<string, unknown>
+	/**
+	 * Condition matching the rows soft deleted before `date`, undefined without a `deletedAtField`
+	 */
+	readonly deletedBefore: (date: Date) => SQL | undefined
+}
+
+/**
+ * Helpers for the metadata fields of the `soft` option. Who deleted a row is
+ * resolved with the `actor` of the option, falling back to the audit actor.
+ */
+export function createSoftDelete<T extends BaseEntity>(
+	table: T,
+	option: SoftDeleteOption<T> | undefined,
+	auditActor?: AuditOption['actor'],
+): SoftDelete {
+	const column = (field: unknown) =>
+		table[field as keyof T] as unknown as Column
+	const actor = option?.actor ?? auditActor
+	const metadata = [
+		option?.deletedAtField,
+		option?.deletedByField,
+		option?.reasonField,
+	].filter((field) => field !== undefined) as string[]
+
+	return {
+		deleted: async (reason) => {
+			if (!option) return {}
+			const {
+				field,
+				deletedValue,
+				deletedAtField,
+				deletedByField,
+				reasonField,
+			} = option
+			return {
+				[field]: deletedValue,
+				...(deletedAtField ? { [deletedAtField]: new Date() } : {}),
+				...(deletedByField
+					? { [deletedByField]: (await actor?.()) ?? null }
+					: {}),
+				...(reasonField ? { [reasonField]: reason ?? null } : {}),
+			}
+		},
+		restored: () => Object.fromEntries(metadata.map((field) => [field, null])),
+		deletedBefore: (date) => {
+			if (!option?.deletedAtField) return undefined
+			return and(
+				eq(column(option.field), option.deletedValue),
+				lt(column(option.deletedAtField), date),
+			)
+		},
+	}
+}
@@ -0,0 +1,101 @@
+import {
+	type Column,
+	eq,
+	getTableName,
+	inArray,
+	type SQL,
+	type SQLWrapper,
+} from 'drizzle-orm'
+import { Effect } from 'effect'
+import { createValidationError, tryEffect } from '@/helpers'
+import type { BaseEntity, ServiceError, TenantOption } from './types'
+
+export interface Tenancy {
+	/**
+	 * Tenants the caller can access, undefined without the `tenant` option
+	 */
+	readonly values: () => Effect.Effect<unknown[] | undefined, ServiceError>
+	/**
+	 * Condition restricting the rows to the tenants of the caller
+	 */
+	readonly scope: () => Effect.Effect<SQL | undefined, ServiceError>
+	/**
+	 * Fills the tenant column of a new row (when the caller has a single tenant)
+	 * and fails when the row belongs to a tenant the caller can not access.
+	 * Changes of an update are only checked, never filled, and can not clear it.
+	 */
+	readonly assign: <R extends object>(
+		row: R,
+		fill?: boolean,
+	) => Effect.Effect<R, ServiceError>
+}
+
+/**
+ * Tenant scoping helpers for the `tenant` option.
+ * The resolver runs on every call, so it can read the tenant of the current
+ * request; it may return one value or every tenant the caller can access.
+ */
+export function createTenancy<T extends BaseEntity>(
+	table: T,
+	option: TenantOption<T> | undefined,
+): Tenancy {
+	const field = option?.field as string | undefined
+	const column = option
+		? (table[option.field as keyof T] as unknown as Column)
+		: undefined
+
+	const values = () =>
+		Effect.gen(function* () {
+			if (!option) return undefined
+			const resolved = yield* tryEffect(async () => option.resolve())
+			if (resolved === undefined || resolved === null) {
+				return yield* createValidationError(
+					`Tenant of ${getTableName(table)} could not be resolved`,
+					field,
+				)
+			}
+			return Array.isArray(resolved) ? [...resolved] : [resolved]
+		})
+
+	return {
+		values,
+		scope: () =>
+			Effect.map(values(), (tenants) => {
+				if (!tenants || !column) return undefined
+				return tenants.length === 1
+					? eq(column as SQLWrapper, tenants[0])
+					: inArray(column, tenants)
+			}),
+		assign: (row, fill = true) =>
+			Effect.gen(function* () {
+				const tenants = yield* values()
+				if (!tenants || !field) return row
+
+				const value = (row as Record<string, unknown>)[field]
+				if (value === undefined || value === null) {
+					if (!fill) {
+						// Clearing the tenant would move the row out of every scope
+						if (field in row) {
+							return yield* createValidationError(
+								`${field} can not be cleared`,
+								field,
+							)
+						}
+						return row
+					}
+					if (tenants.length === 1) return { ...row, [field]: tenants[0] }
+					return yield* createValidationError(
+						`${field} is required when the caller has several tenants`,
+						field,
+					)
+				}
+				if (!tenants.some((tenant) => String(tenant) === String(value))) {
+					return yield* createValidationError(
+						`${field} ${value} is not an allowed tenant`,
+						field,
+					)
+				}
+				return row
+			}),
+	}
+}
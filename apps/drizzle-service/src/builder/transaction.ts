@@ -0,0 +1,132 @@
+import type {
+	BaseDatabase,
+	ServiceMethodMap,
+	ServiceMethodName,
+	UnitOfWorkServices,
+} from './types'
+
+// Position of the options / hooks argument of every service method
+const optionsArgIndex: Record<ServiceMethodName, number> = {
+	find: 0,
+	findOne: 1,
+	findFirst: 0,
+	findBy: 1,
+	findByMatching: 1,
+	count: 1,
+	aggregate: 0,
+	stream: 0,
+	forEachChunk: 3,
+	findWithCursor: 0,
+	search: 1,
+	create: 1,
+	update: 2,
+	findOrCreate: 1,
+	upsert: 1,
+	delete: 1,
+	hardDelete: 1,
+	restore: 1,
+	bulkCreate: 1,
+	bulkUpdate: 1,
+	bulkUpsert: 2,
+	bulkDelete: 1,
+	bulkHardDelete: 1,
+	bulkRestore: 1,
+	purgeDeleted: 0,
+}
+
+export const serviceMethodNames = Object.keys(
+	optionsArgIndex,
+) as ServiceMethodName[]
+
+/**
+ * Wraps the service methods so a `tx` passed in the options / hooks argument
+ * delegates the call to a copy of the service bound to that transaction.
+ */
+export function withTransactionOption<M extends object>(
+	db: BaseDatabase,
+	methods: M,
+	bind: (tx: BaseDatabase) => object,
+): M {
+	const wrapped: Record<string, unknown> = { ...(methods as object) }
+
+	for (const [name, index] of Object.entries(optionsArgIndex) as [
+		ServiceMethodName,
+		number,
+	][]) {
+		const method = (methods as ServiceMethodMap)[name]
+		if (typeof method !== 'function') continue
+
+		wrapped[name] = (...args: unknown[]) => {
+			const options = args[index] as { tx?: BaseDatabase } | undefined
+			if (!options?.tx || options.tx === db) return method(...args)
+
+			const { tx, ...rest } = options
+			const next = [...args]
+			next[index] = rest
+			return (bind(tx) as ServiceMethodMap)[name](...next)
+		}
+	}
+
+	return wrapped as M
+}
+
+/**
+ * Binds every service of a unit of work to the same transaction.
+ */
+export function bindServices<S extends UnitOfWorkServices>(
+	services: S,
+	tx: BaseDatabase,
+): S {
+	return Object.fromEntries(
+		Object.entries(services).map(([key, service]) => [
+			key,
+			service.withTransaction(tx),
+		]),
+	) as unknown as S
+}
+
+type TransactionRunner = {
+	transaction: <R>(fn: (tx: BaseDatabase) => Promise<R>) => Promise<R>
+}
+
+// Callbacks waiting for the commit of the transactions opened by `runTransaction`
+const pendingCommits = new WeakMap<object, Array<() => Promise<void>>>()
+
+/**
+ * Runs `fn` in a transaction of `db` and, once it commits, the callbacks that
+ * `afterCommit` deferred on it. They are dropped when it rolls back. A nested
+ * transaction (a savepoint) hands its callbacks over to the outer one.
+ */
+export async function runTransaction<R>(
+	db: BaseDatabase,
+	fn: (tx: BaseDatabase) => Promise<R>,
+): Promise<R> {
+	const callbacks: Array<() => Promise<void>> = []
+	const result = await (db as unknown as TransactionRunner).transaction(
+		(tx) => {
+			pendingCommits.set(tx, callbacks)
+			return fn(tx)
+		},
+	)
+
+	const outer = pendingCommits.get(db)
+	if (outer) {
+		outer.push(...callbacks)
+		return result
+	}
+	for (const callback of callbacks) await callback()
+	return result
+}
+
+/**
+ * Defers `callback` until the transaction opened by `runTransaction` commits,
+ * runs it right away for any other database or transaction.
+ */
+export async function afterCommit(
+	db: BaseDatabase,
+	callback: () => Promise<void>,
+): Promise<void> {
+	const pending = pendingCommits.get(db)
+	if (pending) pending.push(callback)
+	else await callback()
+}
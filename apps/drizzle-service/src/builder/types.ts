@@ -1,10 +1,13 @@
 /** biome-ignore-all lint/suspicious/noExplicitAny: Any for flexibility */
 import type {
+	BuildQueryResult,
 	Column,
 	ExtractTableRelationsFromSchema,
+	Many,
 	SQL,
 	Table,
 } from 'drizzle-orm'
+import type { MySqlDatabase, MySqlSelect } from 'drizzle-orm/mysql-core'
 import type { PgDatabase, PgSelect } from 'drizzle-orm/pg-core'
 import type { BaseSQLiteDatabase, SQLiteSelect } from 'drizzle-orm/sqlite-core'
 
@@ -17,8 +20,9 @@ export interface BaseEntity extends Table {
 // Database-specific types
 export type SQLiteDb = BaseSQLiteDatabase<any, any, any, any>
 export type PostgresDb = PgDatabase<any, any, any>
-export type QBuilders = SQLiteSelect | PgSelect
-export type BaseDatabase = SQLiteDb | PostgresDb
+export type MySqlDb = MySqlDatabase<any, any, any, any>
+export type QBuilders = SQLiteSelect | PgSelect | MySqlSelect
+export type BaseDatabase = SQLiteDb | PostgresDb | MySqlDb
 
 export type Handler<T> = Promise<[ServiceError, null] | [null, T]> // Error types remain the same...
 export class DatabaseError extends Error {
@@ -36,11 +40,45 @@ export class ValidationError extends Error {
 	constructor(
 		message: string,
 		readonly field?: string,
+		readonly issues?: ValidationIssue[],
 	) {
 		super(message)
 	}
 }
 
+export interface ValidationIssue {
+	/**
+	 * Dot separated path of the invalid field, empty for issues on the whole value
+	 */
+	readonly field: string
+	readonly message: string
+}
+
+// Standard Schema v1 interface (https://standardschema.dev), implemented by zod, valibot, arktype...
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+	readonly '~standard': {
+		readonly version: 1
+		readonly vendor: string
+		readonly validate: (
+			value: unknown,
+		) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>
+		readonly types?:
+			| { readonly input: Input; readonly output: Output }
+			| undefined
+	}
+}
+
+export type StandardSchemaResult<Output> =
+	| { readonly value: Output; readonly issues?: undefined }
+	| {
+			readonly issues: ReadonlyArray<{
+				readonly message: string
+				readonly path?:
+					| ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>
+					| undefined
+			}>
+	  }
+
 export class NotFoundError extends Error {
 	readonly _tag = 'NotFoundError'
 	constructor(
@@ -52,13 +90,239 @@ export class NotFoundError extends Error {
 	}
 }
 
-export type ServiceError = DatabaseError | ValidationError | NotFoundError
+/**
+ * Stable codes of the errors raised by the database constraints, the same on every dialect
+ */
+export type ConstraintErrorCode =
+	| 'UNIQUE_VIOLATION'
+	| 'FOREIGN_KEY_VIOLATION'
+	| 'NOT_NULL_VIOLATION'
+	| 'CHECK_VIOLATION'
+	| 'SERIALIZATION_FAILURE'
+	| 'DEADLOCK'
+
+export class ConflictError extends Error {
+	readonly _tag = 'ConflictError'
+	constructor(
+		message: string,
+		readonly entityType?: string,
+		readonly id?: unknown,
+		readonly expectedVersion?: unknown,
+		readonly currentVersion?: unknown,
+		/**
+		 * `VERSION_CONFLICT` for the `concurrency` checks, the constraint code otherwise
+		 */
+		readonly code?:
+			| 'VERSION_CONFLICT'
+			| 'UNIQUE_VIOLATION'
+			| 'SERIALIZATION_FAILURE'
+			| 'DEADLOCK',
+		readonly constraint?: string,
+		readonly column?: string,
+	) {
+		super(message)
+	}
+}
+
+export class ForeignKeyError extends Error {
+	readonly _tag = 'ForeignKeyError'
+	readonly code = 'FOREIGN_KEY_VIOLATION'
+	constructor(
+		message: string,
+		readonly constraint?: string,
+		readonly column?: string,
+	) {
+		super(message)
+	}
+}
+
+export class NotNullError extends Error {
+	readonly _tag = 'NotNullError'
+	readonly code = 'NOT_NULL_VIOLATION'
+	constructor(
+		message: string,
+		readonly constraint?: string,
+		readonly column?: string,
+	) {
+		super(message)
+	}
+}
+
+export class CheckError extends Error {
+	readonly _tag = 'CheckError'
+	readonly code = 'CHECK_VIOLATION'
+	constructor(
+		message: string,
+		readonly constraint?: string,
+		readonly column?: string,
+	) {
+		super(message)
+	}
+}
+
+export type ServiceError =
+	| DatabaseError
+	| ValidationError
+	| NotFoundError
+	| ConflictError
+	| ForeignKeyError
+	| NotNullError
+	| CheckError
+
+/**
+ * RFC 7807 problem details of a `ServiceError`, `type`, `title` and `status` are
+ * the same for every error of a `_tag`
+ */
+export interface ProblemDetails {
+	readonly type: string
+	readonly title: string
+	readonly status: number
+	readonly detail?: string
+	readonly instance?: string
+	readonly code?: string
+	readonly entity?: string
+	readonly id?: unknown
+	readonly field?: string
+	readonly issues?: ValidationIssue[]
+	readonly constraint?: string
+	readonly column?: string
+	readonly expectedVersion?: unknown
+	readonly currentVersion?: unknown
+	readonly [extension: string]: unknown
+}
+
+export interface ProblemDetailsOptions {
+	/**
+	 * Prefix of the problem `type` URIs, `urn:drizzle-service:problem:` by default
+	 */
+	readonly typePrefix?: string
+	readonly instance?: string
+	/**
+	 * Keeps the driver message as `detail` and adds the `stack`, never enable it in production
+	 */
+	readonly debug?: boolean
+}
+
+/**
+ * Routes of `createHttpHandler`, named after the service method they call
+ */
+export type HttpRoute =
+	| 'find'
+	| 'findWithCursor'
+	| 'count'
+	| 'aggregate'
+	| 'stream'
+	| 'findOne'
+	| 'create'
+	| 'upsert'
+	| 'findOrCreate'
+	| 'update'
+	| 'delete'
+	| 'hardDelete'
+	| 'restore'
+	| 'bulkCreate'
+	| 'bulkUpdate'
+	| 'bulkUpsert'
+	| 'bulkDelete'
+	| 'bulkHardDelete'
+	| 'bulkRestore'
+
+/**
+ * Service served by `createHttpHandler`, any service of any dialect
+ */
+export type HttpService = Pick<
+	Service<any, any, any>,
+	'entityName' | 'idField' | 'entity'
+> &
+	Record<HttpRoute, (...args: never[]) => unknown>
+
+export interface HttpRouteContext {
+	readonly request: Request
+	readonly route: HttpRoute
+	/**
+	 * Id of the row for the routes of a single row
+	 */
+	readonly id?: unknown
+}
+
+export interface HttpHandlerOptions
+	extends Pick<ProblemDetailsOptions, 'typePrefix' | 'debug'> {
+	/**
+	 * Path the routes are mounted on, requests outside of it get a 404
+	 * @example '/api/items'
+	 */
+	readonly basePath?: string
+	/**
+	 * Routes to enable or disable, every route is enabled by default
+	 * @example { hardDelete: false, bulkHardDelete: false }
+	 */
+	readonly routes?: Partial<Record<HttpRoute, boolean>>
+	/**
+	 * Runs before every route, `false` answers with a 403 and a `Response` is
+	 * sent as is instead of calling the service
+	 */
+	readonly authorize?: (
+		context: HttpRouteContext,
+	) => boolean | Response | undefined | Promise<boolean | Response | undefined>
+}
+
+/**
+ * JSON Schema of a component or payload of an OpenAPI document
+ */
+export type JsonSchema = { readonly [keyword: string]: unknown }
+
+/**
+ * Service described by `generateOpenApi`, any service of any dialect
+ */
+export type OpenApiService = Pick<
+	Service<any, any, any>,
+	'entityName' | 'idField' | 'entity' | 'soft'
+>
+
+export interface OpenApiOptions
+	extends Pick<HttpHandlerOptions, 'routes' | 'typePrefix'> {
+	readonly info?: {
+		readonly title?: string
+		readonly version?: string
+		readonly description?: string
+	}
+	readonly servers?: ReadonlyArray<{
+		readonly url: string
+		readonly description?: string
+	}>
+	/**
+	 * Path the handlers are mounted under, each service is served at `${basePath}/${name}`
+	 * @example '/api'
+	 */
+	readonly basePath?: string
+}
+
+export interface OpenApiDocument {
+	readonly openapi: '3.1.0'
+	readonly info: {
+		readonly title: string
+		readonly version: string
+		readonly description?: string
+	}
+	readonly servers?: OpenApiOptions['servers']
+	readonly tags: ReadonlyArray<{ readonly name: string }>
+	/**
+	 * Operations of every path by lower case HTTP method
+	 */
+	readonly paths: Record<string, Record<string, JsonSchema>>
+	readonly components: {
+		readonly schemas: Record<string, JsonSchema>
+		readonly parameters: Record<string, JsonSchema>
+		readonly responses: Record<string, JsonSchema>
+	}
+}
 
 // Fixed ServiceOptions - make id field more flexible
 export type ServiceOptions<
 	T extends BaseEntity,
 	DB extends BaseDatabase = BaseDatabase,
 	TExtensions = Record<string, unknown>,
+	TPlugins extends readonly ServicePlugin[] = readonly ServicePlugin[],
 > = {
 	/**
 	 * Default limit for query results
@@ -90,6 +354,64 @@ export type ServiceOptions<
 	 * @see ServiceOptions for more details on the service options
 	 */
 	readonly id?: keyof T['$inferSelect'] // Make id optional and allow any key
+	/**
+	 * Standard Schema validators (zod, valibot, arktype...) run before the mutations
+	 * `insert` validates the data of create, findOrCreate, upsert, bulkCreate and bulkUpsert,
+	 * `update` validates the changes of update and bulkUpdate
+	 * @example { insert: insertItemSchema, update: insertItemSchema.partial() }
+	 */
+	readonly validate?: {
+		readonly insert?: StandardSchemaV1
+		readonly update?: StandardSchemaV1
+	}
+	/**
+	 * Audit log configuration, every mutation writes an entry to the audit table
+	 * Use the `auditTable` helper of the dialect to create the table
+	 * @example { table: auditLog, actor: () => currentUser()?.email ?? null }
+	 */
+	readonly audit?: AuditOption
+	/**
+	 * Optimistic concurrency control, every write increments the version field
+	 * (or sets the timestamp for date fields) and `expectedVersion` makes
+	 * update, bulkUpdate, delete and restore fail with a ConflictError when the
+	 * row changed since it was read. On MySQL a timestamp version needs
+	 * fractional seconds (`fsp: 3`), the service refuses whole second columns
+	 * @example { field: 'version' } | { field: 'updatedAt' }
+	 */
+	readonly concurrency?: ConcurrencyOption<T>
+	/**
+	 * Cache for the results of findOne, findFirst, find, findBy, count and
+	 * aggregate, entries of the entity are invalidated whenever a mutation succeeds
+	 * @example { adapter: createMemoryCache({ max: 500 }), ttl: 60_000 }
+	 */
+	readonly cache?: CacheOption
+	/**
+	 * Tenant scoping applied to every read and write of the service, new rows get
+	 * the tenant of the caller and rows of other tenants are not found
+	 * @example { field: 'storeId', resolve: () => currentUser().storeIds }
+	 */
+	readonly tenant?: TenantOption<T>
+	/**
+	 * Services writing the rows of the `many` relations in nested writes, by
+	 * relation name. The children are written through them, bound to the
+	 * transaction of the parent row
+	 * @example { salesLines: () => salesLinesService }
+	 */
+	readonly relations?: {
+		readonly [K in keyof NestedWrites<T, DB>]?: () => RelatedService<DB>
+	}
+	/**
+	 * Receives the errors of the event handlers added with `on`, with the event
+	 * and rows they failed on. The failures are logged when it is not set
+	 * @example (error, { event }) => reportError(error, { tags: { event } })
+	 */
+	readonly onEventError?: ServiceEventErrorHandler<T>
+	/**
+	 * Plugins wrapping the methods of the service, the first plugin is the outermost.
+	 * Plugins passed to `drizzleService(db, { plugins })` run before these
+	 * @example [loggingPlugin, metricsPlugin]
+	 */
+	readonly plugins?: readonly [...TPlugins]
 	/**
 	 * Extensions for the service
 	 * This allows you to add custom methods or properties to the service
@@ -109,6 +431,11 @@ export type ServiceOptions<
 	) => Partial<ServiceMethods<T, DB>>
 } & TExtensions
 
+/**
+ * Relations to load with the drizzle relational query API, `true` loads the
+ * relation and an object loads it together with its own relations
+ * @example { salesLines: { item: true }, store: true }
+ */
 export type WithRelationsRecursive<
 	TTable extends Table,
 	Db extends BaseDatabase,
@@ -128,12 +455,92 @@ export type WithRelationsRecursive<
 		  >
 }
 
+// `include` tree in the `with` format of the relational query API
+type IncludeConfig<TInclude> = {
+	[K in keyof TInclude]: TInclude[K] extends true
+		? true
+		: { with: IncludeConfig<TInclude[K]> }
+}
+
+type TableRelationalConfig<
+	TTable extends Table,
+	Db extends BaseDatabase,
+> = Extract<
+	NonNullable<Db['_']['schema']>[keyof NonNullable<Db['_']['schema']>],
+	{ dbName: TTable['_']['name'] }
+>
+
+/**
+ * Row of a query together with the relations loaded by `include`
+ */
+export type IncludeResult<
+	T extends BaseEntity,
+	Db extends BaseDatabase,
+	TInclude,
+	TSelect = never,
+> = [TInclude] extends [never]
+	? Projection<T['$inferSelect'], PickedFields<TSelect, TableName<T>, true>>
+	: BuildQueryResult<
+			NonNullable<Db['_']['schema']>,
+			TableRelationalConfig<T, Db>,
+			{ with: IncludeConfig<TInclude> } & ColumnsConfig<
+				PickedFields<TSelect, TableName<T>, true>
+			>
+		>
+
+/**
+ * Columns picked by the `select` option, an array picks the fields of the
+ * queried table and an object picks them per table name of the `relations`
+ * @example ['id', 'name'] | { items: ['id', 'name'], sales_lines: ['quantity'] }
+ */
+export type SelectFields<
+	T extends BaseEntity,
+	TRels extends WithRelations[] = [],
+> =
+	| readonly SelectField<T>[]
+	| ({
+			readonly [K in TableName<T>]?: readonly SelectField<T>[]
+	  } & {
+			readonly [K in TableName<TRels[number]['table']>]?: readonly SelectField<
+				Extract<TRels[number], { table: { _: { name: K } } }>['table']
+			>[]
+	  })
+
+// Fields picked for one table of the query, `never` keeps every column
+type PickedFields<TSelect, TName, TMain extends boolean> = [TSelect] extends [
+	never,
+]
+	? never
+	: TSelect extends readonly (infer K)[]
+		? TMain extends true
+			? K
+			: never
+		: TName extends keyof TSelect
+			? NonNullable<TSelect[TName]> extends readonly (infer K)[]
+				? K
+				: never
+			: never
+
+type Projection<TRow, TFields> = [TFields] extends [never]
+	? TRow
+	: Pick<TRow, TFields & keyof TRow>
+
+type ColumnsConfig<TFields> = [TFields] extends [never]
+	? unknown
+	: { columns: { [K in TFields & string]: true } }
+
+// Method syntax keeps the parser bivariant, so the options of a database stay
+// assignable to the options of `BaseDatabase`
+type IncludeParser<TData, TResult> = { parse(data: TData): TResult }['parse']
+
 // Query options remain mostly the same...
 export interface QueryOpts<
 	T extends BaseEntity,
 	TResult = T['$inferSelect'][],
 	TRels extends WithRelations[] = [],
 	Db extends BaseDatabase = BaseDatabase,
+	TInclude extends WithRelationsRecursive<T, Db> = never,
+	TSelect extends SelectFields<T, TRels> = never,
 > {
 	/**
 	 * Page number for pagination
@@ -165,12 +572,13 @@ export interface QueryOpts<
 	 */
 	withDeleted?: boolean
 	/**
-	 * Cursor for pagination
+	 * Opaque cursor returned by `findWithCursor` as `nextCursor` or `prevCursor`
+	 * The page after (or before) the cursor is returned using the same `orderBy`
 	 * @example ```typescript
-	 *   cursor: new Date('2023-01-01T00:00:00Z')
+	 *   cursor: page.nextCursor
 	 * ```
 	 */
-	cursor?: Date | null
+	cursor?: string | null
 	/**
 	 * SQL Relations to include in the query result
 	 * @example [{ type: 'left', table: relatedTable, on: eq(relatedTable.id, mainTable.relatedId) }]
@@ -195,12 +603,23 @@ export interface QueryOpts<
 	 */
 	where?: SQL
 	/**
-	 * Include related entities in the query result
-	 * This is a legacy field and will be removed in future versions.
-	 * @deprecated Use `relations` instead for better type safety and flexibility.
-	 * This field is for test purposes only and may be removed in future versions or could fully implement by the moment is just a placeholder and ts api for the query builder.
+	 * Related entities to load with the drizzle relational query API, the
+	 * table and its `relations()` must be part of the drizzle schema.
+	 * Can not be combined with `relations`
+	 * @example ```typescript
+	 *   include: { salesLines: { item: true }, store: true }
+	 * ```
+	 */
+	include?: TInclude
+	/**
+	 * Columns to fetch, the result only has these fields. With `relations` the
+	 * columns of every table are picked by its table name
+	 * @example ```typescript
+	 *   select: ['id', 'name', 'price']
+	 *   select: { items: ['id', 'name'], sales_lines: ['quantity'] }
+	 * ```
 	 */
-	include?: WithRelationsRecursive<T, Db>
+	select?: TSelect
 	/**
 	 * Function to parse the result of the query
 	 * @example ```typescript
@@ -210,8 +629,15 @@ export interface QueryOpts<
 	 * ```
 	 */
 	parse?: TRels['length'] extends 0
-		? (data: T['$inferSelect'][]) => TResult
-		: (data: RelationType<T, TRels>[]) => TResult
+		? IncludeParser<IncludeResult<T, Db, TInclude, TSelect>[], TResult>
+		: (data: RelationType<T, TRels, TSelect>[]) => TResult
+	/**
+	 * Drizzle transaction to run the query in, instead of the service database
+	 * @example ```typescript
+	 *   await db.transaction(async (tx) => itemService.find({ tx }))
+	 * ```
+	 */
+	tx?: BaseDatabase
 }
 
 export type CriteriaFilters =
@@ -254,11 +680,27 @@ export type CriteriaFilterOperators<T extends BaseEntity> = {
 		| FilterOperators<T['$inferSelect'][K]>
 }
 
+/**
+ * Criteria and query options carried by a URL query string, see
+ * `parseQueryString` and `stringifyQuery`
+ * @example `?price[$gte]=10&status[$in]=ACTIVE,DRAFT&orderBy=-createdAt&page=2`
+ */
+export interface QueryString<T extends BaseEntity> {
+	readonly criteria?: CriteriaFilterOperators<T>
+	readonly page?: number
+	readonly limit?: number
+	readonly orderBy?: QueryOpts<T>['orderBy']
+	readonly withDeleted?: boolean
+}
+
 export interface FindByQueryOpts<
 	T extends BaseEntity,
 	TResult = T['$inferSelect'][],
 	TRels extends WithRelations[] = [],
-> extends QueryOpts<T, TResult, TRels> {
+	Db extends BaseDatabase = BaseDatabase,
+	TInclude extends WithRelationsRecursive<T, Db> = never,
+	TSelect extends SelectFields<T, TRels> = never,
+> extends QueryOpts<T, TResult, TRels, Db, TInclude, TSelect> {
 	match?: 'startWith' | 'contains' | 'exact' | 'endsWith'
 	caseSensitive?: boolean
 }
@@ -267,8 +709,11 @@ export interface FindOneOpts<
 	T extends BaseEntity,
 	TResult = T['$inferSelect'],
 	TRelations extends WithRelations[] = [],
+	Db extends BaseDatabase = BaseDatabase,
+	TInclude extends WithRelationsRecursive<T, Db> = never,
+	TSelect extends SelectFields<T, TRelations> = never,
 > extends Omit<
-		QueryOpts<T, TResult, TRelations>,
+		QueryOpts<T, TResult, TRelations, Db, TInclude, TSelect>,
 		'page' | 'limit' | 'orderBy' | 'cursor' | 'parse'
 	> {
 	/**
@@ -276,8 +721,11 @@ export interface FindOneOpts<
 	 * @example (data) => ({ ...data, createdAt: new Date(data.createdAt) })
 	 */
 	parse?: TRelations['length'] extends 0
-		? (data: T['$inferSelect'] | null) => TResult | null
-		: (data: RelationType<T, TRelations>[] | null) => TResult | null
+		? IncludeParser<
+				IncludeResult<T, Db, TInclude, TSelect> | null,
+				TResult | null
+			>
+		: (data: RelationType<T, TRelations, TSelect>[] | null) => TResult | null
 }
 
 export interface WithRelations {
@@ -289,7 +737,8 @@ export interface WithRelations {
 // Pagination result
 export interface PaginationResult<T> {
 	readonly items: readonly T[]
-	readonly nextCursor: Date | null
+	readonly nextCursor: string | null
+	readonly prevCursor: string | null
 	readonly pagination: {
 		readonly page: number
 		readonly pageSize: number
@@ -299,6 +748,162 @@ export interface PaginationResult<T> {
 	}
 }
 
+type SelectField<T extends BaseEntity> = keyof T['$inferSelect'] & string
+
+// Fields holding numbers, the ones `sum` and `avg` accept
+type NumericField<T extends BaseEntity> = {
+	[K in SelectField<T>]-?: NonNullable<T['$inferSelect'][K]> extends
+		| number
+		| bigint
+		? K
+		: never
+}[SelectField<T>]
+
+export interface StreamOpts<
+	T extends BaseEntity,
+	TSelect extends SelectFields<T> = never,
+> extends Pick<
+		QueryOpts<T, unknown, [], BaseDatabase, never, TSelect>,
+		'where' | 'workspace' | 'withDeleted' | 'select' | 'tx'
+	> {
+	/**
+	 * Rows read per query
+	 * @default batchSize of the service
+	 */
+	readonly chunkSize?: number
+}
+
+export type ChunkHandler<
+	T extends BaseEntity,
+	Db extends BaseDatabase,
+	TSelect extends SelectFields<T> = never,
+> = (rows: IncludeResult<T, Db, never, TSelect>[], chunk: number) => unknown
+
+export interface ChunkSummary {
+	readonly chunks: number
+	readonly rows: number
+}
+
+export interface BulkUpsertOpts<T extends BaseEntity> {
+	/**
+	 * Columns of the primary key or unique constraint the rows conflict on
+	 */
+	readonly target: readonly SelectField<T>[]
+	/**
+	 * Columns overwritten on the existing rows, `all` overwrites every given
+	 * column but the target and `none` leaves the existing rows untouched
+	 * @default 'all'
+	 */
+	readonly update?: readonly SelectField<T>[] | 'all' | 'none'
+}
+
+export interface AggregateFields<T extends BaseEntity> {
+	readonly sum?: readonly NumericField<T>[]
+	readonly avg?: readonly NumericField<T>[]
+	readonly min?: readonly SelectField<T>[]
+	readonly max?: readonly SelectField<T>[]
+	/**
+	 * Fields every aggregate is computed per, groups are ordered by them
+	 */
+	readonly groupBy?: readonly SelectField<T>[]
+}
+
+type AggregatedField<
+	TFields,
+	K extends keyof AggregateFields<BaseEntity>,
+> = TFields extends { readonly [P in K]?: readonly (infer F)[] } ? F : never
+
+// Only the aggregates that were asked for are part of the result
+type AggregateGroup<TName extends string, TField, TValue> = [TField] extends [
+	never,
+]
+	? unknown
+	: { [P in TName]: TValue }
+
+/**
+ * Aggregates of one group, the grouped fields are part of the row
+ * @example { documentNo: 'SO-1', count: 2, sum: { amount: 150 }, max: { quantity: 3 } }
+ */
+export type AggregateResult<
+	T extends BaseEntity,
+	TFields extends AggregateFields<T>,
+> = Pick<
+	T['$inferSelect'],
+	AggregatedField<TFields, 'groupBy'> & keyof T['$inferSelect']
+> & { count: number } & AggregateGroup<
+		'sum',
+		AggregatedField<TFields, 'sum'>,
+		{ [K in AggregatedField<TFields, 'sum'>]: number | null }
+	> &
+	AggregateGroup<
+		'avg',
+		AggregatedField<TFields, 'avg'>,
+		{ [K in AggregatedField<TFields, 'avg'>]: number | null }
+	> &
+	AggregateGroup<
+		'min',
+		AggregatedField<TFields, 'min'>,
+		{
+			[K in AggregatedField<TFields, 'min'> & keyof T['$inferSelect']]:
+				| T['$inferSelect'][K]
+				| null
+		}
+	> &
+	AggregateGroup<
+		'max',
+		AggregatedField<TFields, 'max'>,
+		{
+			[K in AggregatedField<TFields, 'max'> & keyof T['$inferSelect']]:
+				| T['$inferSelect'][K]
+				| null
+		}
+	>
+
+/**
+ * SQL expressions of the requested aggregates, used to build `having`
+ */
+export type AggregateExpressions<
+	T extends BaseEntity,
+	TFields extends AggregateFields<T>,
+> = {
+	readonly count: SQL<number>
+	readonly sum: { [K in AggregatedField<TFields, 'sum'>]: SQL<number | null> }
+	readonly avg: { [K in AggregatedField<TFields, 'avg'>]: SQL<number | null> }
+	readonly min: {
+		[K in AggregatedField<TFields, 'min'> & keyof T['$inferSelect']]: SQL<
+			T['$inferSelect'][K] | null
+		>
+	}
+	readonly max: {
+		[K in AggregatedField<TFields, 'max'> & keyof T['$inferSelect']]: SQL<
+			T['$inferSelect'][K] | null
+		>
+	}
+}
+
+export interface AggregateOpts<
+	T extends BaseEntity,
+	TFields extends AggregateFields<T> = AggregateFields<T>,
+> extends AggregateFields<T> {
+	/**
+	 * Criteria the rows must match before they are aggregated
+	 * @example { documentNo: { $in: ['SO-1', 'SO-2'] }, quantity: { $gt: 0 } }
+	 */
+	readonly where?: CriteriaFilter<T>
+	/**
+	 * Condition on the aggregates of a group, groups not matching it are dropped
+	 * @example ({ sum }) => gt(sum.amount, 100)
+	 */
+	readonly having?: (aggregates: AggregateExpressions<T, TFields>) => SQL
+	readonly workspace?: WorkspaceOption<T>
+	/**
+	 * Include deleted items in the aggregates
+	 * @default false
+	 */
+	readonly withDeleted?: boolean
+	readonly tx?: BaseDatabase
+}
+
 // Service hooks remain the same...
 export interface ServiceHooks<TBefore, TAfter = TBefore> {
 	/**
@@ -340,13 +945,72 @@ export interface ServiceHooks<TBefore, TAfter = TBefore> {
 	 * ```
 	 */
 	onError?: (error: ServiceError) => Promise<void>
+	/**
+	 * Drizzle transaction to run the mutation in, instead of the service database
+	 * @example
+	 * ```typescript
+	 * await db.transaction(async (tx) => {
+	 *   await salesService.create(header, { tx })
+	 *   await salesLinesService.bulkCreate(lines, { tx })
+	 * })
+	 * ```
+	 */
+	tx?: BaseDatabase
 }
 
 export interface ExtendedServiceHooks<TBefore, TAfter = TBefore>
 	extends ServiceHooks<TBefore, TAfter> {
 	custom?: SQL
+	/**
+	 * Version the row is expected to have, requires the `concurrency` option.
+	 * The write fails with a ConflictError when the row changed since it was read
+	 * @example
+	 * ```typescript
+	 * await salesService.update(id, changes, { expectedVersion: sale.version })
+	 * ```
+	 */
+	expectedVersion?: unknown
+}
+
+export interface DeleteHooks<TBefore, TAfter = TBefore>
+	extends ExtendedServiceHooks<TBefore, TAfter> {
+	/**
+	 * Why the row is deleted, written to the `reasonField` of the soft delete option
+	 */
+	reason?: string
 }
 
+export interface BulkDeleteHooks<TBefore, TAfter = TBefore>
+	extends ServiceHooks<TBefore, TAfter> {
+	/**
+	 * Why the rows are deleted, written to the `reasonField` of the soft delete option
+	 */
+	reason?: string
+}
+
+export interface PurgeDeletedOpts {
+	/**
+	 * Soft deleted rows older than this are deleted for good, a date or an age in milliseconds
+	 * @example new Date('2024-01-01') | 30 * 24 * 60 * 60 * 1000
+	 */
+	readonly olderThan: Date | number
+	readonly tx?: BaseDatabase
+}
+
+export interface BulkCreateHooks<TBefore, TAfter = TBefore>
+	extends ServiceHooks<TBefore, TAfter> {
+	/**
+	 * What to do when the insert of a batch fails. `fail-batch` reports every row
+	 * of the batch as failed, `bisect` retries the halves of the batch until the
+	 * failing rows are isolated and `row-by-row` retries every row on its own.
+	 * The valid rows of the batch are still inserted by `bisect` and `row-by-row`
+	 * @default 'fail-batch'
+	 */
+	onBatchError?: BatchErrorMode
+}
+
+export type BatchErrorMode = 'fail-batch' | 'bisect' | 'row-by-row'
+
 // Fixed IdType to handle undefined options properly
 export type IdType<
 	T extends BaseEntity,
@@ -401,11 +1065,11 @@ export interface MutationOperations<
 	delete: {
 		(
 			id: IdType<T, TOpts>,
-			hooks?: ExtendedServiceHooks<T['$inferInsert'], T['$inferSelect'][]>,
+			hooks?: DeleteHooks<T['$inferInsert'], T['$inferSelect'][]>,
 		): Promise<DeleteType>
 		(
 			id: IdType<T, TOpts>,
-			hooks?: ExtendedServiceHooks<T['$inferInsert'], T['$inferSelect']>,
+			hooks?: DeleteHooks<T['$inferInsert'], T['$inferSelect']>,
 		): Promise<DeleteType>
 	}
 	hardDelete: (
@@ -418,6 +1082,126 @@ export interface MutationOperations<
 	) => Promise<DeleteType>
 }
 
+type TableRelations<
+	T extends BaseEntity,
+	Db extends BaseDatabase,
+> = ExtractTableRelationsFromSchema<Db['_']['fullSchema'], T['_']['name']>
+
+// Relations only carry the name of the related table, the columns come from the schema
+type SchemaTable<Db extends BaseDatabase, TName extends string> = Extract<
+	Db['_']['fullSchema'][keyof Db['_']['fullSchema']],
+	Table & { _: { name: TName } }
+>
+
+/**
+ * Writes to the rows of a `many` relation, the foreign keys pointing to the
+ * parent row are filled in and every row is scoped to that parent
+ */
+export interface NestedWrite<TTable extends Table> {
+	/**
+	 * Rows to insert
+	 */
+	create?: Partial<TTable['$inferInsert']>[]
+	/**
+	 * Changes for the rows matching `where`
+	 */
+	update?: Array<{
+		where: Partial<TTable['$inferSelect']>
+		changes: Partial<TTable['$inferInsert']>
+	}>
+	/**
+	 * Rows to delete, each entry matches the rows with those column values
+	 */
+	delete?: Partial<TTable['$inferSelect']>[]
+}
+
+/**
+ * Service of a related table, as needed by nested writes
+ */
+export interface RelatedService<Db extends BaseDatabase = BaseDatabase> {
+	readonly idField: string
+	readonly withTransaction: (tx: Db) => object
+}
+
+/**
+ * Nested writes for the `many` relations of the table
+ * @example
+ * ```typescript
+ * { salesLines: { create: [line], delete: [{ lineNo: 2 }] } }
+ * ```
+ */
+export type NestedWrites<T extends BaseEntity, Db extends BaseDatabase> = {
+	[K in keyof TableRelations<T, Db> as TableRelations<
+		T,
+		Db
+	>[K] extends Many<any>
+		? K
+		: never]?: NestedWrite<
+		SchemaTable<Db, TableRelations<T, Db>[K]['referencedTableName']>
+	>
+}
+
+// Relations the data writes, optional keys are left out as they may be missing
+type WrittenRelations<T extends BaseEntity, Db extends BaseDatabase, TData> = {
+	[K in Extract<keyof TData, keyof NestedWrites<T, Db>>]-?: Record<
+		never,
+		never
+	> extends Pick<TData, K>
+		? never
+		: K
+}[Extract<keyof TData, keyof NestedWrites<T, Db>>]
+
+// Keys outside of the row and its relations are rejected like excess properties
+type NoExtraKeys<TData, TKeys extends PropertyKey> = {
+	[K in Exclude<keyof TData, TKeys>]: never
+}
+
+/**
+ * Row returned by a nested write, together with the written relations
+ */
+export type NestedResult<
+	T extends BaseEntity,
+	Db extends BaseDatabase,
+	TData,
+> = [WrittenRelations<T, Db, TData>] extends [never]
+	? T['$inferSelect']
+	: IncludeResult<T, Db, { [K in WrittenRelations<T, Db, TData>]: true }>
+
+/**
+ * `create` and `update` accepting nested writes for the relations of the row.
+ * The row and its relations are written in one transaction and the full graph
+ * is returned.
+ */
+export interface NestedMutationOperations<
+	T extends BaseEntity,
+	Db extends BaseDatabase,
+	TOpts extends ServiceOptions<T> | undefined = undefined,
+> {
+	create: <TData extends T['$inferInsert'] & NestedWrites<T, Db>>(
+		data: TData &
+			NoExtraKeys<TData, keyof T['$inferInsert'] | keyof NestedWrites<T, Db>>,
+		hooks?: ServiceHooks<T['$inferInsert'], T['$inferSelect']>,
+	) => Handler<NestedResult<T, Db, TData>>
+	update: {
+		(
+			id: IdType<T, TOpts>,
+			data: Partial<Omit<T['$inferInsert'], 'createdAt' | 'id'>>,
+			hooks: ExtendedServiceHooks<T['$inferInsert'], T['$inferSelect'][]> & {
+				custom: SQL
+			},
+		): Handler<T['$inferSelect'][]>
+		<
+			TData extends Partial<Omit<T['$inferInsert'], 'createdAt' | 'id'>> &
+				NestedWrites<T, Db>,
+		>(
+			id: IdType<T, TOpts>,
+			data: TData &
+				NoExtraKeys<TData, keyof T['$inferInsert'] | keyof NestedWrites<T, Db>>,
+			hooks?: ExtendedServiceHooks<T['$inferInsert'], T['$inferSelect']>,
+		): Handler<NestedResult<T, Db, TData>>
+	}
+}
+
 export interface QueryOperations<
 	T extends BaseEntity,
 	Db extends BaseDatabase,
@@ -425,93 +1209,149 @@ export interface QueryOperations<
 > {
 	find: <
 		TRels extends WithRelations[] = [],
+		TInclude extends WithRelationsRecursive<T, Db> = never,
+		TSelect extends SelectFields<T, TRels> = never,
 		TResult = TRels['length'] extends 0
-			? T['$inferSelect'][]
-			: RelationType<T, TRels>[],
+			? IncludeResult<T, Db, TInclude, TSelect>[]
+			: RelationType<T, TRels, TSelect>[],
 	>(
-		opts?: QueryOpts<T, TResult, TRels, Db>,
+		opts?: QueryOpts<T, TResult, TRels, Db, TInclude, TSelect>,
 	) => Promise<TResult>
 	findOne: <
 		TRels extends WithRelations[] = [],
+		TInclude extends WithRelationsRecursive<T, Db> = never,
+		TSelect extends SelectFields<T, TRels> = never,
 		TResult = TRels['length'] extends 0
-			? T['$inferSelect']
-			: RelationType<T, TRels>,
+			? IncludeResult<T, Db, TInclude, TSelect>
+			: RelationType<T, TRels, TSelect>,
 	>(
 		id: IdType<T, TOpts>,
-		opts?: FindOneOpts<T, TResult, TRels>,
+		opts?: FindOneOpts<T, TResult, TRels, Db, TInclude, TSelect>,
 	) => Promise<TResult | null>
 	findFirst: <
 		TRels extends WithRelations[] = [],
+		TInclude extends WithRelationsRecursive<T, Db> = never,
+		TSelect extends SelectFields<T, TRels> = never,
 		TResult = TRels['length'] extends 0
-			? T['$inferSelect']
-			: RelationType<T, TRels>,
+			? IncludeResult<T, Db, TInclude, TSelect>
+			: RelationType<T, TRels, TSelect>,
 	>(
-		opts?: FindOneOpts<T, TResult, TRels>,
+		opts?: FindOneOpts<T, TResult, TRels, Db, TInclude, TSelect>,
 	) => Promise<TResult | null>
 	findBy: {
 		<
 			TRels extends WithRelations[] = [],
+			TInclude extends WithRelationsRecursive<T, Db> = never,
+			TSelect extends SelectFields<T, TRels> = never,
 			TResult = TRels['length'] extends 0
-				? T['$inferSelect'][]
-				: RelationType<T, TRels>[],
+				? IncludeResult<T, Db, TInclude, TSelect>[]
+				: RelationType<T, TRels, TSelect>[],
 		>(
 			criteria: CriteriaFilterOperators<T>,
-			opts?: FindByQueryOpts<T, TResult, TRels>,
+			opts?: FindByQueryOpts<T, TResult, TRels, Db, TInclude, TSelect>,
 		): Promise<TResult>
 		<
 			TRels extends WithRelations[] = [],
+			TInclude extends WithRelationsRecursive<T, Db> = never,
+			TSelect extends SelectFields<T, TRels> = never,
 			TResult = TRels['length'] extends 0
-				? T['$inferSelect'][]
-				: RelationType<T, TRels>[],
+				? IncludeResult<T, Db, TInclude, TSelect>[]
+				: RelationType<T, TRels, TSelect>[],
 		>(
 			criteria: CriteriaFilter<T>,
-			opts?: FindByQueryOpts<T, TResult, TRels>,
+			opts?: FindByQueryOpts<T, TResult, TRels, Db, TInclude, TSelect>,
 		): Promise<TResult>
 	}
 	findByMatching: {
 		<
 			TRels extends WithRelations[] = [],
+			TInclude extends WithRelationsRecursive<T, Db> = never,
+			TSelect extends SelectFields<T, TRels> = never,
 			TResult = TRels['length'] extends 0
-				? T['$inferSelect'][]
-				: RelationType<T, TRels>[],
+				? IncludeResult<T, Db, TInclude, TSelect>[]
+				: RelationType<T, TRels, TSelect>[],
 		>(
 			criteria: CriteriaFilterOperators<T>,
-			opts?: FindByQueryOpts<T, TResult, TRels>,
+			opts?: FindByQueryOpts<T, TResult, TRels, Db, TInclude, TSelect>,
 		): Promise<TResult>
 		<
 			TRels extends WithRelations[] = [],
+			TInclude extends WithRelationsRecursive<T, Db> = never,
+			TSelect extends SelectFields<T, TRels> = never,
 			TResult = TRels['length'] extends 0
-				? T['$inferSelect'][]
-				: RelationType<T, TRels>[],
+				? IncludeResult<T, Db, TInclude, TSelect>[]
+				: RelationType<T, TRels, TSelect>[],
 		>(
 			criteria: CriteriaFilter<T>,
-			opts?: FindByQueryOpts<T, TResult, TRels>,
+			opts?: FindByQueryOpts<T, TResult, TRels, Db, TInclude, TSelect>,
 		): Promise<TResult>
 	}
 	count: (
 		criteria?: Partial<T['$inferSelect']>,
 		opts?: QueryOpts<T, number>,
 	) => Promise<number>
+	/**
+	 * Computes count, sum, avg, min and max of the rows, per group when
+	 * `groupBy` is given. Without `groupBy` the result has a single row
+	 * @example ```typescript
+	 *   await salesLinesService.aggregate({
+	 *     sum: ['amount'],
+	 *     groupBy: ['documentNo'],
+	 *     having: ({ sum }) => gt(sum.amount, 100),
+	 *   })
+	 * ```
+	 */
+	aggregate: <const TFields extends AggregateFields<T>>(
+		opts: TFields & AggregateOpts<T, TFields>,
+	) => Promise<AggregateResult<T, TFields>[]>
+	/**
+	 * Rows matching the options, read lazily in chunks ordered by the id field
+	 * @example ```typescript
+	 *   for await (const entry of itemEntryService.stream({ chunkSize: 500 })) {
+	 *     await process(entry)
+	 *   }
+	 * ```
+	 */
+	stream: <TSelect extends SelectFields<T> = never>(
+		opts?: StreamOpts<T, TSelect>,
+	) => AsyncIterable<IncludeResult<T, Db, never, TSelect>>
+	/**
+	 * Calls `fn` with every chunk of `size` rows matching the criteria, the
+	 * table is walked by id so only one chunk is held in memory
+	 * @example ```typescript
+	 *   await itemEntryService.forEachChunk({ type: 'SALE' }, 1000, (entries) =>
+	 *     report.add(entries),
+	 *   )
+	 * ```
+	 */
+	forEachChunk: <TSelect extends SelectFields<T> = never>(
+		criteria: CriteriaFilter<T>,
+		size: number,
+		fn: ChunkHandler<T, Db, TSelect>,
+		opts?: Omit<StreamOpts<T, TSelect>, 'chunkSize'>,
+	) => Promise<ChunkSummary>
 	findWithCursor: <
 		TRels extends WithRelations[] = [],
+		TInclude extends WithRelationsRecursive<T, Db> = never,
+		TSelect extends SelectFields<T, TRels> = never,
 		TResult = TRels['length'] extends 0
-			? T['$inferSelect'][]
-			: RelationType<T, TRels>[],
+			? IncludeResult<T, Db, TInclude, TSelect>[]
+			: RelationType<T, TRels, TSelect>[],
 	>(
-		opts: QueryOpts<T, TResult, TRels>,
+		opts: QueryOpts<T, TResult, TRels, Db, TInclude, TSelect>,
 	) => Promise<
-		PaginationResult<
-			TResult extends T['$inferSelect'][] ? T['$inferSelect'] : TResult
-		>
+		PaginationResult<TResult extends readonly (infer R)[] ? R : TResult>
 	>
 	search: <
 		TRels extends WithRelations[] = [],
+		TInclude extends WithRelationsRecursive<T, Db> = never,
+		TSelect extends SelectFields<T, TRels> = never,
 		TResult = TRels['length'] extends 0
-			? T['$inferSelect'][]
-			: RelationType<T, TRels>[],
+			? IncludeResult<T, Db, TInclude, TSelect>[]
+			: RelationType<T, TRels, TSelect>[],
 	>(
 		criteria: FilterCriteria<T>,
-		opts?: QueryOpts<T, TResult, TRels>,
+		opts?: QueryOpts<T, TResult, TRels, Db, TInclude, TSelect>,
 	) => Promise<TResult>
 }
 
@@ -521,24 +1361,35 @@ export interface MutationsBulkOperations<
 > {
 	bulkCreate: (
 		data: T['$inferInsert'][],
-		hooks?: ServiceHooks<T['$inferInsert'][], T['$inferSelect'][]>,
+		hooks?: BulkCreateHooks<T['$inferInsert'][], T['$inferSelect'][]>,
 	) => Promise<BulkOperationResult<T['$inferSelect'][], T>>
 	bulkUpdate: (
 		data: Array<{
 			id: IdType<T, TOpts>
 			changes: Partial<Omit<T['$inferInsert'], 'createdAt' | 'id'>>
+			expectedVersion?: unknown
 		}>,
 		hooks?: ServiceHooks<
 			Array<{
 				id: IdType<T, TOpts>
 				changes: Partial<Omit<T['$inferInsert'], 'createdAt' | 'id'>>
+				expectedVersion?: unknown
 			}>,
 			T['$inferSelect'][]
 		>,
 	) => Promise<BulkOperationResult<T['$inferSelect'][], T>>
+	/**
+	 * Inserts the rows and updates the ones conflicting on `target` instead,
+	 * the batch reports how many were inserted and updated. Not supported on MySQL
+	 */
+	bulkUpsert: (
+		data: T['$inferInsert'][],
+		opts: BulkUpsertOpts<T>,
+		hooks?: BulkCreateHooks<T['$inferInsert'][], T['$inferSelect'][]>,
+	) => Promise<BulkOperationResult<T['$inferSelect'][], T>>
 	bulkDelete: (
 		ids: IdType<T, TOpts>[],
-		hooks?: ServiceHooks<IdType<T, TOpts>[], void>,
+		hooks?: BulkDeleteHooks<IdType<T, TOpts>[], void>,
 	) => Promise<
 		BulkOperationResult<
 			{
@@ -572,6 +1423,25 @@ export interface MutationsBulkOperations<
 			T
 		>
 	>
+	/**
+	 * Deletes for good the rows soft deleted before `olderThan`, in batches of
+	 * `batchSize`. Requires the `deletedAtField` of the soft delete option.
+	 * The purge is neither audited nor emitted, the rows were when they were soft deleted
+	 * @example
+	 * ```typescript
+	 * const [batch] = await itemService.purgeDeleted({ olderThan: 30 * DAY })
+	 * console.log(`${batch.processed} rows purged`)
+	 * ```
+	 */
+	purgeDeleted: (opts: PurgeDeletedOpts) => Promise<
+		BulkOperationResult<
+			{
+				readonly success: boolean
+				readonly message?: string
+			},
+			T
+		>
+	>
 }
 
 export interface ServiceMethods<
@@ -586,7 +1456,8 @@ export interface Service<
 	T extends BaseEntity,
 	DB extends BaseDatabase,
 	TOpts extends ServiceOptions<T> | undefined = undefined,
-> extends ServiceMethods<T, DB, TOpts> {
+> extends Omit<ServiceMethods<T, DB, TOpts>, 'create' | 'update'>,
+		NestedMutationOperations<T, DB, TOpts> {
 	readonly _: ServiceMethods<T, DB, TOpts> & {
 		searchTyped: {
 			<
@@ -610,42 +1481,306 @@ export interface Service<
 		}
 	}
 	readonly entityName: string
+	/**
+	 * Field the service uses as id, `id` unless the `id` option says otherwise
+	 */
+	readonly idField: string
+	/**
+	 * Soft delete configuration, `undefined` when `delete` removes the rows
+	 */
+	readonly soft?: {
+		readonly field: keyof T['$inferSelect']
+		readonly deletedValue: unknown
+		readonly notDeletedValue?: unknown
+	}
 	readonly db: DB
 	readonly entity: T
+	/**
+	 * Runs the callback inside a database transaction with a copy of the service bound to it.
+	 * The transaction is committed when the callback resolves and rolled back when it throws.
+	 * @example
+	 * ```typescript
+	 * await salesService.transaction(async (txService) => {
+	 *   const [error, header] = await txService.create(data)
+	 *   if (error) throw error
+	 *   await salesLinesService.bulkCreate(lines, { tx: txService.db })
+	 * })
+	 * ```
+	 */
+	transaction: <R>(fn: (txService: this) => Promise<R>) => Promise<R>
+	/**
+	 * Returns a copy of the service bound to an existing drizzle transaction
+	 */
+	withTransaction: (tx: BaseDatabase) => this
+	/**
+	 * Audit entries recorded for the entity, oldest first
+	 * Requires the `audit` option, with the `tenant` option the row must be
+	 * visible to the caller, otherwise it fails with a NotFoundError
+	 */
+	history: (id: IdType<T, TOpts>) => Promise<AuditEntry[]>
+	/**
+	 * Subscribes to the mutations of the service, the handler receives the affected
+	 * rows once the mutation succeeds. A failing handler does not fail the
+	 * mutation, its error goes to the `onEventError` option. Returns a function
+	 * that removes the handler
+	 * @example
+	 * ```typescript
+	 * const unsubscribe = itemService.on('created', async ([item]) => {
+	 *   await searchIndex.add(item)
+	 * })
+	 * ```
+	 */
+	on: (event: ServiceEvent, handler: ServiceEventHandler<T>) => () => void
+	/**
+	 * Removes a handler added with `on`
+	 */
+	off: (event: ServiceEvent, handler: ServiceEventHandler<T>) => void
+}
+
+export type ServiceEvent =
+	| 'created'
+	| 'updated'
+	| 'upserted'
+	| 'deleted'
+	| 'hardDeleted'
+	| 'restored'
+	| 'bulkCreated'
+	| 'bulkUpdated'
+	| 'bulkUpserted'
+	| 'bulkDeleted'
+	| 'bulkHardDeleted'
+	| 'bulkRestored'
+
+export type ServiceEventHandler<T extends BaseEntity> = (
+	rows: T['$inferSelect'][],
+) => void | Promise<void>
+
+export type ServiceEventErrorHandler<T extends BaseEntity = BaseEntity> = (
+	error: unknown,
+	context: {
+		readonly entityName: string
+		readonly event: ServiceEvent
+		readonly rows: T['$inferSelect'][]
+	},
+) => void | Promise<void>
+
+// Services that can take part in a unit of work, keyed by the name used in the callback
+export type UnitOfWorkServices = Record<
+	string,
+	Pick<Service<any, any, any>, 'withTransaction'>
+>
+
+export type UnitOfWork = <S extends UnitOfWorkServices, R>(
+	services: S,
+	fn: (uow: S) => Promise<R>,
+) => Promise<R>
+
+export type AuditOperation =
+	| 'create'
+	| 'update'
+	| 'delete'
+	| 'hardDelete'
+	| 'restore'
+
+// Changed columns of an audited row, `before` is null on create and `after` on hard delete
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>
+
+export interface AuditEntry {
+	readonly id: number
+	readonly entityName: string
+	readonly entityId: string
+	readonly operation: AuditOperation
+	readonly actor: string | null
+	readonly changes: AuditChanges
+	readonly createdAt: Date
+}
+
+export type AuditTable = Table & {
+	[K in keyof AuditEntry]: Column<any>
+}
+
+export interface AuditOption {
+	/**
+	 * Table the entries are written to, created with the `auditTable` helper
+	 */
+	readonly table: AuditTable
+	/**
+	 * Resolves who is making the change, e.g. from the request context
+	 */
+	readonly actor?: () =>
+		| string
+		| null
+		| undefined
+		| Promise<string | null | undefined>
 }
 
 // Soft delete types remain the same...
 export type SoftDeleteTimestampMarker = 'NOT_NULL'
 
+interface SoftDeleteMetadata<T extends BaseEntity> {
+	/**
+	 * Field set to the time of the delete, `purgeDeleted` reads the age of the rows from it
+	 */
+	readonly deletedAtField?: keyof T['$inferSelect']
+	/**
+	 * Field set to the `actor` of the delete
+	 */
+	readonly deletedByField?: keyof T['$inferSelect']
+	/**
+	 * Field set to the `reason` given to `delete` and `bulkDelete`
+	 */
+	readonly reasonField?: keyof T['$inferSelect']
+	/**
+	 * Resolves who is deleting, the `actor` of the `audit` option by default
+	 */
+	readonly actor?: AuditOption['actor']
+}
+
 type SoftDeleteConfig<
 	T extends BaseEntity,
 	K extends keyof T['$inferSelect'],
 > = {
 	readonly field: K
-} & (T['$inferSelect'][K] extends boolean
-	? {
-			readonly deletedValue: boolean
-			readonly notDeletedValue?: boolean
-		}
-	: [T['$inferSelect'][K]] extends [Date]
+} & SoftDeleteMetadata<T> &
+	(T['$inferSelect'][K] extends boolean
 		? {
-				readonly deletedValue: Date | SoftDeleteTimestampMarker
-				readonly notDeletedValue?: Date | null
+				readonly deletedValue: boolean
+				readonly notDeletedValue?: boolean
 			}
-		: T['$inferSelect'][K] extends Date | null
+		: [T['$inferSelect'][K]] extends [Date]
 			? {
-					readonly deletedValue: Date | SoftDeleteTimestampMarker | null
+					readonly deletedValue: Date | SoftDeleteTimestampMarker
 					readonly notDeletedValue?: Date | null
 				}
-			: {
-					readonly deletedValue: T['$inferSelect'][K]
-					readonly notDeletedValue: T['$inferSelect'][K]
-				})
+			: T['$inferSelect'][K] extends Date | null
+				? {
+						readonly deletedValue: Date | SoftDeleteTimestampMarker | null
+						readonly notDeletedValue?: Date | null
+					}
+				: {
+						readonly deletedValue: T['$inferSelect'][K]
+						readonly notDeletedValue: T['$inferSelect'][K]
+					})
 
 export type SoftDeleteOption<T extends BaseEntity> = {
 	[K in keyof T['$inferSelect']]: SoftDeleteConfig<T, K>
 }[keyof T['$inferSelect']]
 
+/**
+ * Storage used by the `cache` option, `createMemoryCache` ships an in-memory LRU.
+ * Keys start with the entity name so `invalidate` can drop them by prefix
+ */
+export interface CacheAdapter {
+	get: (key: string) => unknown | Promise<unknown>
+	set: (key: string, value: unknown, ttl?: number) => void | Promise<void>
+	invalidate: (prefix: string) => void | Promise<void>
+}
+
+export interface CacheOption {
+	readonly adapter: CacheAdapter
+	/**
+	 * Time to live of the entries in milliseconds, entries never expire by default
+	 */
+	readonly ttl?: number
+}
+
+export type ServiceMethodName = keyof ServiceMethods<any, any>
+
+/**
+ * Service methods as seen by the wrappers that decorate every one of them
+ */
+export type ServiceMethodMap = Record<
+	ServiceMethodName,
+	(...args: unknown[]) => Promise<unknown>
+>
+
+export interface PluginContext {
+	readonly entityName: string
+	readonly table: BaseEntity
+}
+
+export interface PluginCall extends PluginContext {
+	readonly method: ServiceMethodName
+	readonly args: unknown[]
+}
+
+export interface ServicePlugin<TExtensions extends object = object> {
+	readonly name: string
+	/**
+	 * Methods wrapped by the plugin, every method of the service by default
+	 */
+	readonly methods?: readonly ServiceMethodName[]
+	/**
+	 * Runs before the method, returning an array replaces its arguments
+	 */
+	readonly before?: (
+		call: PluginCall,
+	) => unknown[] | undefined | Promise<unknown[] | undefined>
+	/**
+	 * Runs around the method, `next` calls the method (or the next plugin)
+	 * with the given arguments or the original ones
+	 */
+	readonly around?: (
+		call: PluginCall,
+		next: (args?: unknown[]) => Promise<unknown>,
+	) => Promise<unknown>
+	/**
+	 * Runs after the method resolves, returning a value other than undefined
+	 * replaces its result
+	 */
+	readonly after?: (call: PluginCall, result: unknown) => unknown
+	/**
+	 * Extension methods added to every service using the plugin
+	 */
+	readonly extend?: (
+		service: Service<any, any>,
+		context: PluginContext,
+	) => TExtensions
+}
+
+type UnionToIntersection<U> = (
+	U extends unknown
+		? (value: U) => void
+		: never
+) extends (value: infer I) => void
+	? I
+	: never
+
+type PluginExtension<P> = P extends ServicePlugin<infer E> ? E : never
+
+// Intersection of the extension methods added by the plugins
+export type PluginExtensions<P extends readonly ServicePlugin[]> =
+	UnionToIntersection<PluginExtension<P[number]>>
+
+export interface DrizzleServiceConfig<
+	TPlugins extends readonly ServicePlugin[] = readonly ServicePlugin[],
+> {
+	/**
+	 * Plugins applied to every service created by this instance
+	 */
+	readonly plugins?: readonly [...TPlugins]
+}
+
+export type ConcurrencyOption<T extends BaseEntity> = {
+	readonly field: keyof T['$inferSelect']
+}
+
+export type TenantOption<T extends BaseEntity> = {
+	readonly field: keyof T['$inferSelect']
+	/**
+	 * Tenant of the current caller, or every tenant it can access
+	 */
+	readonly resolve: () =>
+		| TenantValue<T>
+		| readonly TenantValue<T>[]
+		| undefined
+		| Promise<TenantValue<T> | readonly TenantValue<T>[] | undefined>
+}
+
+type TenantValue<T extends BaseEntity> = NonNullable<
+	T['$inferSelect'][keyof T['$inferSelect']]
+>
+
 export type WorkspaceOption<T extends BaseEntity> = {
 	readonly field: keyof T['$inferSelect']
 	readonly value: T['$inferSelect'][keyof T['$inferSelect']]
@@ -662,9 +1797,27 @@ export type BulkOperationResult<T, E extends BaseEntity> = [
 		size: number
 		processed: number
 		failed: number
+		/**
+		 * Rows inserted and existing rows updated, only reported by `bulkUpsert`
+		 */
+		inserted?: number
+		updated?: number
+		/**
+		 * Conflicting rows `bulkUpsert` left untouched, with `update: 'none'` or
+		 * when the existing row belongs to another tenant. They are not processed
+		 */
+		skipped?: number
 		errors?: Array<{
 			id: IdType<E>
 			error: string
+			/**
+			 * Position of the row in the input array
+			 */
+			index?: number
+			/**
+			 * Per-field issues when the row failed validation
+			 */
+			issues?: ValidationIssue[]
 		}>
 	},
 	T,
@@ -689,13 +1842,23 @@ type TableName<T extends BaseEntity> = T extends { _: { name: infer N } }
 export type RelationType<
 	TMain extends BaseEntity,
 	TRelations extends WithRelations[] = [],
+	TSelect = never,
 > = TRelations['length'] extends 0
-	? TMain['$inferSelect']
+	? Projection<
+			TMain['$inferSelect'],
+			PickedFields<TSelect, TableName<TMain>, true>
+		>
 	: {
-			[TKey in TableName<TMain>]: TMain['$inferSelect']
+			[TKey in TableName<TMain>]: Projection<
+				TMain['$inferSelect'],
+				PickedFields<TSelect, TKey, true>
+			>
 		} & {
-			[TKey in TableName<TRelations[number]['table']>]: Extract<
-				TRelations[number],
-				{ table: { _: { name: TKey } } }
-			>['table']['$inferSelect']
+			[TKey in TableName<TRelations[number]['table']>]: Projection<
+				Extract<
+					TRelations[number],
+					{ table: { _: { name: TKey } } }
+				>['table']['$inferSelect'],
+				PickedFields<TSelect, TKey, false>
+			>
 		}
@@ -0,0 +1,194 @@
+import { Effect } from 'effect'
+import {
+	createValidationError,
+	handleOptionalErrorHook,
+	tryEffect,
+	tryHandleError,
+} from '@/helpers'
+import type {
+	BaseEntity,
+	BulkOperationResult,
+	ServiceError,
+	ServiceHooks,
+	ServiceMethodMap,
+	ServiceMethodName,
+	StandardSchemaResult,
+	StandardSchemaV1,
+	ValidationError,
+	ValidationIssue,
+} from './types'
+
+type Issues = Extract<
+	StandardSchemaResult<unknown>,
+	{ issues: ReadonlyArray<unknown> }
+>['issues']
+
+function toValidationIssues(issues: Issues): ValidationIssue[] {
+	return issues.map(({ message, path = [] }) => ({
+		field: path
+			.map((segment) =>
+				typeof segment === 'object' ? String(segment.key) : String(segment),
+			)
+			.join('.'),
+		message,
+	}))
+}
+
+/**
+ * Runs a Standard Schema validator and returns its output value,
+ * failing with a ValidationError that lists every invalid field.
+ */
+export function validateSchema<V>(
+	schema: StandardSchemaV1 | undefined,
+	value: V,
+): Effect.Effect<V, ServiceError, never> {
+	if (!schema) return Effect.succeed(value)
+
+	return Effect.gen(function* () {
+		const result = yield* tryEffect(async () =>
+			schema['~standard'].validate(value),
+		)
+		if (!result.issues) return result.value as V
+
+		const issues = toValidationIssues(result.issues)
+		const details = issues
+			.map(({ field, message }) => (field ? `${field}: ${message}` : message))
+			.join(', ')
+		return yield* createValidationError(
+			`Validation failed: ${details}`,
+			issues[0]?.field || undefined,
+			issues,
+		)
+	})
+}
+
+/**
+ * Wraps the mutations so their input goes through the `validate` schemas first.
+ * Single mutations resolve with the ValidationError in the `[error, null]` tuple,
+ * bulk mutations only write the valid rows and report the invalid ones in `errors`.
+ */
+export function withValidation<M extends object>(
+	methods: M,
+	schemas: { insert?: StandardSchemaV1; update?: StandardSchemaV1 } | undefined,
+	idField: PropertyKey,
+): M {
+	const { insert, update } = schemas ?? {}
+	if (!insert && !update) return methods
+
+	const source = methods as ServiceMethodMap
+	const wrapped: Record<string, unknown> = { ...source }
+
+	function single(
+		name: ServiceMethodName,
+		schema: StandardSchemaV1 | undefined,
+		at: number,
+	) {
+		const method = source[name]
+		if (!schema || typeof method !== 'function') return
+
+		wrapped[name] = async (...args: unknown[]) => {
+			const hooks = args[at + 1] as ServiceHooks<unknown> | undefined
+			const [error, value] = await tryHandleError(
+				validateSchema(schema, args[at]).pipe(
+					Effect.catchAll((error) => handleOptionalErrorHook(error, hooks)),
+				),
+			)
+			if (error) return [error, null]
+
+			const next = [...args]
+			next[at] = value
+			return method(...next)
+		}
+	}
+
+	function bulk<R>(
+		name: ServiceMethodName,
+		schema: StandardSchemaV1 | undefined,
+		input: (row: R) => unknown,
+		output: (row: R, value: unknown) => R,
+		rowId: (row: R, index: number) => unknown,
+	) {
+		const method = source[name]
+		if (!schema || typeof method !== 'function') return
+
+		// Arguments after the rows, like the hooks, are passed through
+		wrapped[name] = async (rows: R[], ...rest: unknown[]) => {
+			const valid: R[] = []
+			// Input position of every valid row
+			const positions: number[] = []
+			const errors: Array<{
+				id: unknown
+				error: string
+				index: number
+				issues?: ValidationIssue[]
+			}> = []
+
+			for (const [index, row] of rows.entries()) {
+				const [error, value] = await tryHandleError(
+					validateSchema(schema, input(row)),
+				)
+				if (error) {
+					errors.push({
+						id: rowId(row, index),
+						error: error.message,
+						index,
+						issues: (error as ValidationError).issues,
+					})
+					continue
+				}
+				valid.push(output(row, value))
+				positions.push(index)
+			}
+
+			if (errors.length === 0) return method(valid, ...rest)
+
+			const [batch, data] = (await method(
+				valid,
+				...rest,
+			)) as BulkOperationResult<unknown, BaseEntity>
+			return [
+				{
+					...batch,
+					failed: batch.failed + errors.length,
+					errors: [
+						...errors,
+						...(batch.errors ?? []).map((error) =>
+							error.index === undefined
+								? error
+								: { ...error, index: positions[error.index] },
+						),
+					],
+				},
+				data,
+			]
+		}
+	}
+
+	single('create', insert, 0)
+	single('findOrCreate', insert, 0)
+	single('upsert', insert, 0)
+	single('update', update, 1)
+	bulk<Record<PropertyKey, unknown>>(
+		'bulkCreate',
+		insert,
+		(row) => row,
+		(_, value) => value as Record<PropertyKey, unknown>,
+		(row, index) => row[idField] ?? `row_${index}`,
+	)
+	bulk<Record<PropertyKey, unknown>>(
+		'bulkUpsert',
+		insert,
+		(row) => row,
+		(_, value) => value as Record<PropertyKey, unknown>,
+		(row, index) => row[idField] ?? `row_${index}`,
+	)
+	bulk<{ id: unknown; changes: unknown }>(
+		'bulkUpdate',
+		update,
+		(item) => item.changes,
+		(item, changes) => ({ ...item, changes }),
+		(item) => item.id,
+	)
+
+	return wrapped as M
+}
@@ -1,12 +1,15 @@
 import { DrizzleQueryError } from 'drizzle-orm/errors'
 import { Console, Effect } from 'effect'
 import type {
+	ConflictError,
+	ConstraintErrorCode,
 	DatabaseError,
 	Handler,
 	NotFoundError,
 	ServiceError,
 	ServiceHooks,
 	ValidationError,
+	ValidationIssue,
 } from './builder/types'
 
 // Helper function to extract clean error details from database errors (any dialect)
@@ -75,6 +78,156 @@ function createCleanError(originalError: ServiceError): ServiceError {
 	return cleanError as ServiceError
 }
 
+// Stable codes of the constraint errors by Postgres SQLSTATE, SQLite extended result code and MySQL errno
+const postgresCodes: Record<string, ConstraintErrorCode> = {
+	'23505': 'UNIQUE_VIOLATION',
+	'23503': 'FOREIGN_KEY_VIOLATION',
+	'23502': 'NOT_NULL_VIOLATION',
+	'23514': 'CHECK_VIOLATION',
+	'40001': 'SERIALIZATION_FAILURE',
+	'40P01': 'DEADLOCK',
+}
+
+const sqliteCodes: Record<string, ConstraintErrorCode> = {
+	SQLITE_CONSTRAINT_UNIQUE: 'UNIQUE_VIOLATION',
+	SQLITE_CONSTRAINT_PRIMARYKEY: 'UNIQUE_VIOLATION',
+	SQLITE_CONSTRAINT_FOREIGNKEY: 'FOREIGN_KEY_VIOLATION',
+	SQLITE_CONSTRAINT_NOTNULL: 'NOT_NULL_VIOLATION',
+	SQLITE_CONSTRAINT_CHECK: 'CHECK_VIOLATION',
+}
+
+const mysqlCodes: Record<number, ConstraintErrorCode> = {
+	1062: 'UNIQUE_VIOLATION',
+	1216: 'FOREIGN_KEY_VIOLATION',
+	1217: 'FOREIGN_KEY_VIOLATION',
+	1451: 'FOREIGN_KEY_VIOLATION',
+	1452: 'FOREIGN_KEY_VIOLATION',
+	1048: 'NOT_NULL_VIOLATION',
+	1364: 'NOT_NULL_VIOLATION',
+	3819: 'CHECK_VIOLATION',
+	1213: 'DEADLOCK',
+}
+
+interface ConstraintDetails {
+	readonly constraint?: string
+	readonly column?: string
+}
+
+// First capture group of the pattern in the message, if any
+function capture(message: string, pattern: RegExp): string | undefined {
+	return pattern.exec(message)?.[1]
+}
+
+const text = (value: unknown) => (typeof value === 'string' ? value : undefined)
+
+// Constraint and column of the driver error, read from its fields or its message
+function constraintDetails(
+	code: ConstraintErrorCode,
+	cause: Record<string, unknown>,
+): ConstraintDetails {
+	const message = text(cause.sqlMessage) ?? text(cause.message) ?? ''
+
+	if (typeof cause.code === 'string' && cause.code in postgresCodes) {
+		return {
+			constraint: text(cause.constraint) ?? text(cause.constraint_name),
+			column:
+				text(cause.column) ??
+				text(cause.column_name) ??
+				capture(text(cause.detail) ?? '', /Key \((.+?)\)=/),
+		}
+	}
+
+	if (typeof cause.code === 'string' && cause.code in sqliteCodes) {
+		// `UNIQUE constraint failed: items.sku, items.name`, `CHECK constraint failed: price > 0`
+		const failed = capture(message, /constraint failed: (.+)$/)
+		if (code === 'CHECK_VIOLATION') return { constraint: failed }
+		return {
+			column: failed
+				?.split(', ')
+				.map((column) => column.slice(column.indexOf('.') + 1))
+				.join(', '),
+		}
+	}
+
+	return {
+		constraint:
+			capture(message, /for key '(?:.+\.)?(.+?)'/) ??
+			capture(message, /CONSTRAINT `(.+?)`/) ??
+			capture(message, /Check constraint '(.+?)'/),
+		column:
+			capture(message, /FOREIGN KEY \(`(.+?)`\)/) ??
+			capture(message, /(?:Column|Field) '(.+?)'/),
+	}
+}
+
+/**
+ * Classifies the constraint violations, serialization failures and deadlocks of every
+ * dialect, undefined for the other driver errors.
+ */
+function constraintError(cause: unknown): ServiceError | undefined {
+	if (!cause || typeof cause !== 'object') return undefined
+	const details = cause as Record<string, unknown>
+	const code =
+		postgresCodes[text(details.code) ?? ''] ??
+		sqliteCodes[text(details.code) ?? ''] ??
+		mysqlCodes[Number(details.errno)]
+	if (!code) return undefined
+
+	const message = text(details.sqlMessage) ?? text(details.message) ?? code
+	const { constraint, column } = constraintDetails(code, details)
+
+	switch (code) {
+		case 'FOREIGN_KEY_VIOLATION':
+			return new (class extends Error {
+				readonly _tag = 'ForeignKeyError'
+				readonly code = 'FOREIGN_KEY_VIOLATION'
+				constructor(
+					message: string,
+					public constraint?: string,
+					public column?: string,
+				) {
+					super(message)
+				}
+			})(message, constraint, column)
+		case 'NOT_NULL_VIOLATION':
+			return new (class extends Error {
+				readonly _tag = 'NotNullError'
+				readonly code = 'NOT_NULL_VIOLATION'
+				constructor(
+					message: string,
+					public constraint?: string,
+					public column?: string,
+				) {
+					super(message)
+				}
+			})(message, constraint, column)
+		case 'CHECK_VIOLATION':
+			return new (class extends Error {
+				readonly _tag = 'CheckError'
+				readonly code = 'CHECK_VIOLATION'
+				constructor(
+					message: string,
+					public constraint?: string,
+					public column?: string,
+				) {
+					super(message)
+				}
+			})(message, constraint, column)
+		default:
+			return new (class extends Error {
+				readonly _tag = 'ConflictError'
+				constructor(
+					message: string,
+					public code: ConflictError['code'],
+					public constraint?: string,
+					public column?: string,
+				) {
+					super(message)
+				}
+			})(message, code, constraint, column)
+	}
+}
+
 // Enhanced error mapping function
 function mapError(error: unknown): ServiceError {
 	if (error instanceof DrizzleQueryError) {
@@ -91,6 +244,9 @@ function mapError(error: unknown): ServiceError {
 			})(`Database error: ${error.message}`)
 		}
 
+		const classified = constraintError(cause)
+		if (classified) return classified
+
 		const { message, name } = cause
 		return new (class extends Error {
 			readonly _tag = 'DatabaseError'
@@ -104,6 +260,9 @@ function mapError(error: unknown): ServiceError {
 	}
 
 	if (error instanceof Error) {
+		const classified = constraintError(error)
+		if (classified) return classified
+
 		return new (class extends Error {
 			readonly _tag = 'DatabaseError'
 			constructor(
@@ -307,9 +466,39 @@ export function createNotFoundError(
 	)
 }
 
+export function createConflictError(
+	entityType: string,
+	id: unknown,
+	expectedVersion: unknown,
+	currentVersion?: unknown,
+): Effect.Effect<never, ConflictError, never> {
+	return Effect.fail(
+		new (class extends Error {
+			readonly _tag = 'ConflictError'
+			constructor(
+				message: string,
+				public entityType?: string,
+				public id?: unknown,
+				public expectedVersion?: unknown,
+				public currentVersion?: unknown,
+				public code = 'VERSION_CONFLICT' as const,
+			) {
+				super(message)
+			}
+		})(
+			`${entityType} with id ${id} was modified by another operation`,
+			entityType,
+			id,
+			expectedVersion,
+			currentVersion,
+		),
+	)
+}
+
 export function createValidationError(
 	message: string,
 	field?: string,
+	issues?: ValidationIssue[],
 ): Effect.Effect<never, ValidationError, never> {
 	return Effect.fail(
 		new (class extends Error {
@@ -317,10 +506,11 @@ export function createValidationError(
 			constructor(
 				message: string,
 				public field?: string,
+				public issues?: ValidationIssue[],
 			) {
 				super(message)
 			}
-		})(message, field),
+		})(message, field, issues),
 	)
 }
 
@@ -1,9 +1,11 @@
+import { drizzleService as mysql } from './mysql'
 import { drizzleService as pg } from './pg'
 import { drizzleService as sqlite } from './sqlite'
 
 export const drizzleService = {
 	pg,
 	sqlite,
+	mysql,
 }
 
 export default drizzleService
@@ -0,0 +1,24 @@
+import type { AuditChanges, AuditOperation } from '@builder/types'
+import { index, mysqlTable } from 'drizzle-orm/mysql-core'
+
+/**
+ * Creates the table used by the `audit` service option
+ * @example export const auditLog = auditTable('audit_log')
+ */
+export function auditTable<TName extends string = 'audit_log'>(
+	name: TName = 'audit_log' as TName,
+) {
+	return mysqlTable(
+		name,
+		(t) => ({
+			id: t.serial().primaryKey(),
+			entityName: t.varchar('entity_name', { length: 255 }).notNull(),
+			entityId: t.varchar('entity_id', { length: 255 }).notNull(),
+			operation: t.varchar({ length: 32 }).$type<AuditOperation>().notNull(),
+			actor: t.varchar({ length: 255 }),
+			changes: t.json().$type<AuditChanges>().notNull(),
+			createdAt: t.timestamp('created_at', { fsp: 3 }).defaultNow().notNull(),
+		}),
+		(t) => [index(`${name}_entity_idx`).on(t.entityName, t.entityId)],
+	)
+}
@@ -0,0 +1,110 @@
+import { withGlobalPlugins } from '@builder/plugins'
+import { bindServices, runTransaction } from '@builder/transaction'
+import type {
+	BaseEntity,
+	DrizzleServiceConfig,
+	MySqlDb,
+	PluginExtensions,
+	Service,
+	ServiceOptions,
+	ServicePlugin,
+	UnitOfWork,
+} from '@builder/types'
+import { createMysqlService } from './service'
+
+export { createMemoryCache } from '@builder/cache'
+export { createHttpHandler } from '@builder/http'
+export { generateOpenApi } from '@builder/openapi'
+export { definePlugin } from '@builder/plugins'
+export { fromProblemDetails, toProblemDetails } from '@builder/problem'
+export { parseQueryString, stringifyQuery } from '@builder/query'
+export { auditTable } from './audit'
+
+// Helper to check if table has an 'id' field of any type
+type HasIdField<T extends BaseEntity> = T['$inferSelect'] extends {
+	id: unknown
+}
+	? true
+	: false
+
+// Helper to get the type of the 'id' field if it exists
+type GetIdType<T extends BaseEntity> = T['$inferSelect'] extends {
+	id: infer IdType
+}
+	? IdType
+	: never
+
+export function drizzleService<
+	D extends MySqlDb,
+	TGlobalPlugins extends readonly ServicePlugin[] = readonly ServicePlugin[],
+>(
+	db: D,
+	config?: DrizzleServiceConfig<TGlobalPlugins>,
+): {
+	// Overload 1: Tables with string 'id' field - opts are optional
+	<
+		T extends BaseEntity & { $inferSelect: { id: string } },
+		TExtensions extends Record<string, unknown> = Record<string, unknown>,
+		TPlugins extends readonly ServicePlugin[] = readonly ServicePlugin[],
+	>(
+		table: T,
+		opts?: ServiceOptions<T, D, TExtensions, TPlugins>,
+	): Service<T, D, ServiceOptions<T, D, TExtensions> | undefined> &
+		TExtensions &
+		PluginExtensions<TGlobalPlugins> &
+		PluginExtensions<TPlugins>
+
+	// Overload 2: Tables with non-string 'id' field OR no 'id' field - must provide id option
+	<
+		T extends BaseEntity,
+		TIdField extends keyof T['$inferSelect'],
+		TExtensions extends Record<string, unknown> = Record<string, unknown>,
+		TPlugins extends readonly ServicePlugin[] = readonly ServicePlugin[],
+	>(
+		table: T,
+		opts: ServiceOptions<T, D, TExtensions, TPlugins> & { id: TIdField },
+	): (HasIdField<T> extends true
+		? GetIdType<T> extends string
+			? never // This case is handled by overload 1
+			: Service<T, D, ServiceOptions<T, D, TExtensions> & { id: TIdField }> &
+					TExtensions
+		: Service<T, D, ServiceOptions<T, D, TExtensions> & { id: TIdField }> &
+				TExtensions) &
+		PluginExtensions<TGlobalPlugins> &
+		PluginExtensions<TPlugins>
+
+	/**
+	 * Binds several services to one transaction, committed when the callback
+	 * resolves and rolled back when it throws.
+	 * @example
+	 * ```typescript
+	 * await service.unitOfWork(
+	 *   { sales: salesService, lines: salesLinesService },
+	 *   async ({ sales, lines }) => {
+	 *     const [error, header] = await sales.create(headerData)
+	 *     if (error) throw error
+	 *     await lines.bulkCreate(linesData)
+	 *   },
+	 * )
+	 * ```
+	 */
+	unitOfWork: UnitOfWork
+}
+
+export function drizzleService<D extends MySqlDb>(
+	db: D,
+	config?: DrizzleServiceConfig<readonly ServicePlugin[]>,
+) {
+	const service = <
+		T extends BaseEntity,
+		TExtensions extends Record<string, unknown> = Record<string, unknown>,
+	>(
+		table: T,
+		opts?: ServiceOptions<T, D, TExtensions>,
+	) => createMysqlService(db, table, withGlobalPlugins(opts, config?.plugins))
+
+	const unitOfWork: UnitOfWork = (services, fn) =>
+		runTransaction(db, (tx) => fn(bindServices(services, tx as D)))
+
+	return Object.assign(service, { unitOfWork })
+}
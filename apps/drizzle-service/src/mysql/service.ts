@@ -0,0 +1,1984 @@
+import { withAudit, withAuditTransaction } from '@builder/audit'
+import { writeBatch } from '@builder/batch'
+import { withCache } from '@builder/cache'
+import { createConcurrency } from '@builder/concurrency'
+import { decodeCursor, encodeCursor } from '@builder/cursor'
+import { serviceEmitter, shareEmitter, withEvents } from '@builder/events'
+import { createFilters } from '@builder/filters'
+import { withNestedWrites } from '@builder/nested'
+import { extendService, withPlugins } from '@builder/plugins'
+import { createSoftDelete } from '@builder/soft'
+import { createTenancy } from '@builder/tenant'
+import { runTransaction, withTransactionOption } from '@builder/transaction'
+import type {
+	AggregateFields,
+	AggregateOpts,
+	AuditEntry,
+	AuditTable,
+	BulkOperationResult,
+	ChunkHandler,
+	CriteriaFilter,
+	ExtendedServiceHooks,
+	FilterCriteria,
+	FindByQueryOpts,
+	FindOneOpts,
+	IdType,
+	IncludeResult,
+	MutationOperations,
+	MutationsBulkOperations,
+	MySqlDb,
+	PaginationResult,
+	QueryOperations,
+	QueryOpts,
+	RelationType,
+	SelectFields,
+	Service,
+	ServiceError,
+	ServiceMethods,
+	StreamOpts,
+	WithRelations,
+	WithRelationsRecursive,
+} from '@builder/types'
+import { withValidation } from '@builder/validation'
+import {
+	and,
+	asc,
+	count,
+	eq,
+	getTableColumns,
+	getTableName,
+	inArray,
+	is,
+	not,
+	or,
+	type SQL,
+	type SQLWrapper,
+} from 'drizzle-orm'
+import {
+	getTableConfig,
+	MySqlColumnWithAutoIncrement,
+	type MySqlSelect,
+	type MySqlTable,
+	MySqlTransaction,
+} from 'drizzle-orm/mysql-core'
+import { Effect, Either } from 'effect'
+import { createService, mysqlIlike } from '@/builder'
+import {
+	createConflictError,
+	createDatabaseError,
+	createNotFoundError,
+	createValidationError,
+	executeHooks,
+	handleError,
+	handleOptionalErrorHook,
+	tryEffect,
+	tryHandleError,
+} from '@/helpers'
+
+export const createMysqlService = createService<MySqlDb>((db, table, opts) => {
+	type D = typeof db
+	type T = typeof table
+	type O = typeof opts
+
+	type Hooks<V = false> =
+		| ExtendedServiceHooks<
+				T['$inferInsert'],
+				V extends true ? T['$inferSelect'][] : T['$inferSelect']
+		  >
+		| undefined
+
+	const {
+		defaultLimit = 100,
+		maxLimit = 1000,
+		batchSize = 100,
+		override,
+		soft,
+		id,
+		validate,
+		audit,
+		concurrency,
+		cache,
+		tenant,
+		relations,
+		onEventError,
+		plugins,
+		...rest
+	} = opts || {}
+	const entityName = getTableName(table)
+	const emitter = serviceEmitter(opts, entityName, onEventError)
+	const tenancy = createTenancy(table, tenant)
+	const versionControl = createConcurrency(table, concurrency)
+	// DATETIME and TIMESTAMP columns round to whole seconds unless declared with
+	// fractional seconds, two writes in the same second would share a version
+	const versionColumn = concurrency
+		? getTableColumns(table)[concurrency.field as string]
+		: undefined
+	if (versionColumn && 'fsp' in versionColumn) {
+		const fsp = versionColumn.fsp as number | undefined
+		if ((fsp ?? 0) < 3) {
+			throw new Error(
+				`${entityName}.${String(concurrency?.field)} needs { fsp: 3 } to be a concurrency version`,
+			)
+		}
+	}
+	// mysql-core query builders require the MySqlTable brand on the table
+	const mysqlTable = table as T & MySqlTable
+
+	const softDelete = createSoftDelete(table, soft, audit?.actor)
+
+	function getIdField(): keyof typeof table {
+		return (id as keyof typeof table) || ('id' as keyof typeof table)
+	}
+
+	const {
+		withOpts,
+		selectedFields,
+		validateCursorSelect,
+		withCursor,
+		keysetValues,
+		parseFilterExpression,
+		withScope,
+		execute,
+		handleQueries,
+		handleOneQuery,
+		handleAggregate,
+		handleStream,
+		handleForEachChunk,
+		conditionsFromCriteria,
+	} = createFilters<T, D>({
+		table,
+		db,
+		soft,
+		handleILike: mysqlIlike,
+		defaultLimit,
+		maxLimit,
+		id,
+		scope: tenancy.scope,
+	})
+
+	// Helper function to split array into batches
+	function createBatches<T>(array: T[], batchSize: number): T[][] {
+		const batches: T[][] = []
+		for (let i = 0; i < array.length; i += batchSize) {
+			batches.push(array.slice(i, i + batchSize))
+		}
+		return batches
+	}
+
+	// ===============================
+	// 🚀 REPOSITORY IMPLEMENTATION
+	// ===============================
+
+	const selectAll = () => db.select().from(mysqlTable).$dynamic()
+	// Projected queries keep the type of the full select, the query options narrow the result
+	const createBaseQuery = (
+		opts: Parameters<typeof selectedFields>[0] = {},
+	): ReturnType<typeof selectAll> => {
+		const fields = selectedFields(opts)
+		if (!fields) return selectAll()
+		return db
+			.select(fields as never)
+			.from(mysqlTable)
+			.$dynamic() as unknown as ReturnType<typeof selectAll>
+	}
+
+	// MySQL has no RETURNING clause, so written rows are read back by id
+	async function findByIds(ids: unknown[]): Promise<T['$inferSelect'][]> {
+		if (ids.length === 0) return []
+		return await createBaseQuery().where(
+			inArray(table[getIdField()] as SQLWrapper, ids),
+		)
+	}
+
+	// Rows matched by an UPDATE, read from the driver result header
+	function affectedRows(result: unknown): number {
+		const header = (Array.isArray(result) ? result[0] : result) as {
+			affectedRows?: number
+			rowsAffected?: number
+		}
+		return header?.affectedRows ?? header?.rowsAffected ?? 0
+	}
+
+	// Unique keys of the table as lists of field names, single column ones first
+	const uniqueKeys = (() => {
+		const fields = new Map(
+			Object.entries(getTableColumns(table)).map(([field, column]) => [
+				column.name,
+				field,
+			]),
+		)
+		const { columns, indexes, uniqueConstraints } = getTableConfig(mysqlTable)
+		const names = (list: { name: string }[]) =>
+			list.map((column) => fields.get(column.name) as string)
+		return [
+			...columns
+				.filter((column) => column.isUnique)
+				.map((column) => names([column])),
+			...uniqueConstraints.map((constraint) => names(constraint.columns)),
+			...indexes
+				.filter((index) => index.config.unique)
+				.map((index) => names(index.config.columns as { name: string }[])),
+		]
+	})()
+
+	// `$returningId` reports the id when it is an auto-increment or `$defaultFn`
+	// primary key
+	const generatesId = (() => {
+		const column = getTableColumns(table)[getIdField() as string]
+		if (!column?.primary) return false
+		if (column.defaultFn) return true
+		return is(column, MySqlColumnWithAutoIncrement) && column.autoIncrement
+	})()
+
+	// A row without an id, a unique key or a generated id can not be read back
+	// once written, so it is rejected before the insert
+	function locate(
+		rows: T['$inferInsert'][],
+	): Effect.Effect<void, ServiceError> {
+		if (generatesId) return Effect.void
+		const idField = getIdField() as string
+		const unreadable = rows.some((row) => {
+			const values = row as Record<string, unknown>
+			return (
+				values[idField] === undefined &&
+				!uniqueKeys.some((fields) =>
+					fields.every((field) => values[field] != null),
+				)
+			)
+		})
+		if (!unreadable) return Effect.void
+		return createValidationError(
+			`${entityName} needs its ${idField} or a unique key to be read back once written`,
+			idField,
+		)
+	}
+
+	// Read inserted or upserted rows back by the key that was written: the id of
+	// the payload, else a unique key of the payload. `$returningId` only reports
+	// auto-increment or `$defaultFn` values, which do not point to the existing
+	// row an ON DUPLICATE KEY UPDATE wrote to, so it is the last resort
+	function findWritten(
+		rows: T['$inferInsert'][],
+		generated: Record<string, unknown>[],
+	): Effect.Effect<T['$inferSelect'][], ServiceError> {
+		return Effect.gen(function* () {
+			const idField = getIdField() as string
+			const ids: unknown[] = []
+			const keys: SQL[] = []
+			for (const [index, row] of rows.entries()) {
+				const values = row as Record<string, unknown>
+				if (values[idField] !== undefined) {
+					ids.push(values[idField])
+					continue
+				}
+				const unique = uniqueKeys.find((fields) =>
+					fields.every((field) => values[field] != null),
+				)
+				if (unique) {
+					const matches = unique.map((field) =>
+						eq(table[field as keyof T] as SQLWrapper, values[field]),
+					)
+					keys.push(and(...matches) as SQL)
+					continue
+				}
+				if (generated[index]?.[idField] !== undefined) {
+					ids.push(generated[index][idField])
+				}
+			}
+			const found = yield* tryEffect(async () => {
+				if (keys.length === 0) return await findByIds(ids)
+				return await createBaseQuery().where(
+					or(
+						ids.length > 0
+							? inArray(table[idField as keyof T] as SQLWrapper, ids)
+							: undefined,
+						...keys,
+					),
+				)
+			})
+			if (found.length < rows.length) {
+				return yield* createValidationError(
+					`${rows.length - found.length} written ${entityName} rows could not be read back`,
+					idField,
+				)
+			}
+			return found
+		})
+	}
+
+	// ===============================
+	// 🚀 QUERY OPERATIONS
+	// ===============================
+
+	const _queryOperations: QueryOperations<T, D, O> = {
+		find: <
+			TRels extends WithRelations[] = [],
+			TInclude extends WithRelationsRecursive<T, D> = never,
+			TSelect extends SelectFields<T, TRels> = never,
+			TResult = TRels['length'] extends 0
+				? T['$inferSelect'][]
+				: RelationType<T, TRels>[],
+		>(
+			opts: QueryOpts<
+				T,
+				TResult,
+				TRels,
+				D,
+				TInclude,
+				TSelect
+			> = {} as QueryOpts<T, TResult, TRels, D, TInclude, TSelect>,
+		) => {
+			return handleError(handleQueries(createBaseQuery(opts), opts))
+		},
+		findFirst: <
+			TRels extends WithRelations[] = [],
+			TResult = TRels['length'] extends 0
+				? T['$inferSelect']
+				: RelationType<T, TRels>,
+		>(
+			opts = {},
+		): Promise<TResult | null> => {
+			return handleError(
+				handleOneQuery(createBaseQuery(opts), opts, {
+					beforeParse(q) {
+						return q.limit(1)
+					},
+					afterParse(data) {
+						const isArray = Array.isArray(data)
+						if (isArray && data.length === 0) return null
+						if (isArray) return (data as TResult[])[0] as TResult
+						return data as TResult
+					},
+				}),
+			)
+		},
+		findOne: <
+			TRels extends WithRelations[] = [],
+			TInclude extends WithRelationsRecursive<T, D> = never,
+			TSelect extends SelectFields<T, TRels> = never,
+			TResult = TRels['length'] extends 0
+				? T['$inferSelect']
+				: RelationType<T, TRels>,
+		>(
+			id: IdType<T, O>,
+			opts: FindOneOpts<T, TResult, TRels, D, TInclude, TSelect> = {},
+		) => {
+			const hasRelations = opts.relations && opts.relations.length > 0
+			return handleError(
+				handleOneQuery(createBaseQuery(opts), opts, {
+					beforeParse(q) {
+						const query = q.where(eq(table[getIdField()] as SQLWrapper, id))
+						if (hasRelations) return query
+						return query.limit(1)
+					},
+					afterParse(data) {
+						const isArray = Array.isArray(data)
+						if (isArray && data.length === 0) return null
+						if (hasRelations) return data as TResult
+						if (isArray) return data[0] as TResult
+						return data as TResult
+					},
+				}),
+			)
+		},
+
+		findWithCursor: <
+			TRels extends WithRelations[] = [],
+			TInclude extends WithRelationsRecursive<T, D> = never,
+			TSelect extends SelectFields<T, TRels> = never,
+			TResult = TRels['length'] extends 0
+				? PaginationResult<T['$inferSelect']>
+				: RelationType<T, TRels>[],
+		>(
+			opts: QueryOpts<T, TResult, TRels, D, TInclude, TSelect>,
+		) => {
+			return handleError(
+				Effect.gen(function* () {
+					const {
+						parse,
+						cursor,
+						orderBy,
+						page: _page,
+						limit: _limit,
+						...queryOpts
+					} = opts
+					const token = cursor ? decodeCursor(cursor) : null
+					if (cursor && !token) {
+						return yield* createValidationError('Invalid cursor', 'cursor')
+					}
+					yield* validateCursorSelect(queryOpts.select, orderBy)
+					const backward = token?.direction === 'prev'
+					const pageSize = Math.min(opts.limit || defaultLimit, maxLimit)
+
+					// One extra row tells whether there is another page in this direction
+					const scoped = yield* withScope(
+						withOpts(createBaseQuery(queryOpts), queryOpts),
+					)
+					const rows = yield* execute(
+						withCursor(scoped, { orderBy, cursor: token }).limit(pageSize + 1),
+						queryOpts.include,
+					)
+					const hasMore = rows.length > pageSize
+					const data = rows.slice(0, pageSize)
+					if (backward) data.reverse()
+
+					// Joined rows are keyed by table name
+					const records = (
+						queryOpts.relations?.length
+							? data.map((row) => (row as Record<string, unknown>)[entityName])
+							: data
+					) as T['$inferSelect'][]
+					const first = records[0]
+					const last = records.at(-1)
+					const nextCursor =
+						last && (backward || hasMore)
+							? encodeCursor({
+									values: keysetValues(last, orderBy),
+									direction: 'next',
+								})
+							: null
+					const prevCursor =
+						first && (backward ? hasMore : !!token)
+							? encodeCursor({
+									values: keysetValues(first, orderBy),
+									direction: 'prev',
+								})
+							: null
+
+					// Create a new object without relations for count query
+					const { relations: _, ...countOpts } = queryOpts
+					const totalCount = yield* tryEffect(async () =>
+						baseMethods.count(undefined, countOpts as QueryOpts<T, number, []>),
+					)
+
+					return {
+						items: parse
+							? parse(
+									data as IncludeResult<T, D, TInclude, TSelect>[] &
+										RelationType<T, TRels>[],
+								)
+							: data,
+						nextCursor,
+						prevCursor,
+						pagination: {
+							page: opts.page || 1,
+							pageSize,
+							total: totalCount,
+							hasNext: nextCursor !== null,
+							hasPrev: prevCursor !== null,
+						},
+					} as unknown as PaginationResult<
+						TResult extends readonly (infer R)[] ? R : TResult
+					>
+				}),
+			)
+		},
+
+		count: <TRels extends WithRelations[] = []>(
+			criteria?: Partial<T['$inferSelect']>,
+			opts: QueryOpts<T, number, TRels> = {} as QueryOpts<T, number, TRels>,
+		) => {
+			return handleError(
+				Effect.gen(function* () {
+					//@ts-ignore
+					let query = db.select({ count: count() }).from(table).$dynamic()
+
+					// Apply opts but exclude ordering for count queries
+					const { orderBy: _, ...countOpts } = opts
+
+					query = withOpts(
+						query as unknown as MySqlSelect,
+						countOpts,
+					) as unknown as typeof query
+					if (criteria && Object.keys(criteria).length > 0) {
+						const conditions = Object.entries(criteria).map(([key, value]) =>
+							eq(table[key as keyof T['$inferSelect']] as SQLWrapper, value),
+						)
+						query = query.where(and(...conditions))
+					}
+					const scoped = (yield* withScope(
+						query as unknown as MySqlSelect,
+					)) as unknown as typeof query
+					const [result] = yield* tryEffect(async () => await scoped.limit(1))
+					if (!result) return 0
+
+					return result.count || 0
+				}),
+			)
+		},
+
+		aggregate: <const TFields extends AggregateFields<T>>(
+			opts: TFields & AggregateOpts<T, TFields>,
+		) => {
+			return handleError(handleAggregate(opts))
+		},
+
+		stream: <TSelect extends SelectFields<T> = never>(
+			opts: StreamOpts<T, TSelect> = {},
+		) => {
+			return handleStream(opts, opts.chunkSize ?? batchSize)
+		},
+
+		forEachChunk: <TSelect extends SelectFields<T> = never>(
+			criteria: CriteriaFilter<T>,
+			size: number,
+			fn: ChunkHandler<T, D, TSelect>,
+			opts: Omit<StreamOpts<T, TSelect>, 'chunkSize'> = {},
+		) => {
+			return handleForEachChunk(criteria, size, fn, opts)
+		},
+
+		findBy: <
+			TRels extends WithRelations[] = [],
+			TInclude extends WithRelationsRecursive<T, D> = never,
+			TSelect extends SelectFields<T, TRels> = never,
+			TResult = TRels['length'] extends 0
+				? T['$inferSelect'][]
+				: RelationType<T, TRels>[],
+		>(
+			criteria: CriteriaFilter<T>,
+			opts: FindByQueryOpts<
+				T,
+				TResult,
+				TRels,
+				D,
+				TInclude,
+				TSelect
+			> = {} as FindByQueryOpts<T, TResult, TRels, D, TInclude, TSelect>,
+		) => {
+			const conditions = conditionsFromCriteria(
+				criteria,
+				opts.match || 'exact',
+				opts.caseSensitive ?? false,
+			)
+			const { where: custom, ...restOpts } = opts
+			if (custom) conditions.push(custom)
+			return handleError(
+				handleQueries<TResult, TRels, TInclude, TSelect>(
+					createBaseQuery(restOpts),
+					restOpts,
+					{
+						beforeParse(q) {
+							return q.where(and(...conditions))
+						},
+					},
+				),
+			)
+		},
+
+		findByMatching: <
+			TRels extends WithRelations[] = [],
+			TInclude extends WithRelationsRecursive<T, D> = never,
+			TSelect extends SelectFields<T, TRels> = never,
+			TResult = TRels['length'] extends 0
+				? T['$inferSelect'][]
+				: RelationType<T, TRels>[],
+		>(
+			criteria: CriteriaFilter<T>,
+			opts: FindByQueryOpts<
+				T,
+				TResult,
+				TRels,
+				D,
+				TInclude,
+				TSelect
+			> = {} as FindByQueryOpts<T, TResult, TRels, D, TInclude, TSelect>,
+		) => {
+			const conditions = conditionsFromCriteria(
+				criteria,
+				opts.match || 'contains',
+				opts.caseSensitive ?? false,
+			)
+
+			const { where: custom, ...restOpts } = opts
+
+			return handleError(
+				handleQueries<TResult, TRels, TInclude, TSelect>(
+					createBaseQuery(restOpts),
+					restOpts,
+					{
+						beforeParse(q) {
+							if (custom) return q.where(and(or(...conditions), custom))
+							return q.where(or(...conditions))
+						},
+					},
+				),
+			)
+		},
+		search: <
+			TRels extends WithRelations[] = [],
+			TInclude extends WithRelationsRecursive<T, D> = never,
+			TSelect extends SelectFields<T, TRels> = never,
+			TResult = TRels['length'] extends 0
+				? T['$inferSelect'][]
+				: RelationType<T, TRels>[],
+		>(
+			criteria: FilterCriteria<T>,
+			opts: QueryOpts<
+				T,
+				TResult,
+				TRels,
+				D,
+				TInclude,
+				TSelect
+			> = {} as QueryOpts<T, TResult, TRels, D, TInclude, TSelect>,
+		) => {
+			const filterConditions = Object.entries(criteria)
+				.map(([field, filterExpr]) => {
+					if (!filterExpr) return null
+					return parseFilterExpression(
+						field as keyof T['$inferSelect'],
+						filterExpr,
+					)
+				})
+				.filter(Boolean) as SQLWrapper[]
+
+			return handleError(
+				handleQueries<TResult, TRels, TInclude, TSelect>(
+					createBaseQuery(opts),
+					opts,
+					{
+						beforeParse(q) {
+							if (filterConditions.length === 0) return q
+							return q.where(and(...filterConditions))
+						},
+					},
+				),
+			)
+		},
+	}
+
+	// ===============================
+	// 🚀 MUTATION OPERATIONS
+	// ===============================
+
+	const _mutationOperations: MutationOperations<T, O> = {
+		create: (data: T['$inferInsert'], hooks?) => {
+			return tryHandleError(
+				Effect.gen(function* () {
+					const insertData = yield* tenancy.assign({
+						...data,
+						createdAt: new Date(),
+						updatedAt: new Date(),
+					})
+					yield* executeHooks(hooks, insertData, 'before')
+
+					yield* locate([insertData])
+					const generated = yield* tryEffect(
+						async () =>
+							await db.insert(mysqlTable).values(insertData).$returningId(),
+					)
+					const [result] = yield* findWritten([insertData], generated)
+
+					if (!result) {
+						return yield* createDatabaseError(
+							`Failed to create ${entityName}`,
+							{
+								code: 'SQL_FAILURE',
+								query: db.insert(mysqlTable).values(insertData).toSQL(),
+							},
+						)
+					}
+					yield* executeHooks(hooks, result, 'after')
+
+					return result
+				}).pipe(
+					Effect.catchAll((error) => handleOptionalErrorHook(error, hooks)),
+				),
+			)
+		},
+
+		update: (
+			id: IdType<T, O>,
+			data: Partial<Omit<T['$inferInsert'], 'id' | 'createdAt'>>,
+			hooks,
+		) => {
+			return tryHandleError(
+				Effect.gen(function* () {
+					const idField = getIdField()
+					const scope = yield* tenancy.scope()
+					const entity = yield* tryEffect(
+						async () => await _queryOperations.findOne(id),
+					)
+
+					if (!entity) {
+						return yield* createNotFoundError(entityName, id)
+					}
+
+					const expectedVersion = hooks?.expectedVersion
+					const conflict = versionControl.conflict(entity, expectedVersion)
+					if (conflict) {
+						return yield* createConflictError(
+							entityName,
+							id,
+							expectedVersion,
+							conflict.current,
+						)
+					}
+
+					yield* tenancy.assign(data, false)
+					const updateData = {
+						...data,
+						updatedAt: new Date(),
+						...versionControl.next(),
+					}
+					yield* executeHooks(hooks as Hooks, updateData, 'before')
+
+					const result = yield* tryEffect(async () => {
+						const targets = hooks?.custom
+							? (await createBaseQuery().where(and(hooks.custom, scope))).map(
+									(row) => row[idField as keyof typeof row],
+								)
+							: [id]
+						const written = await db
+							.update(mysqlTable)
+							.set(updateData)
+							.where(
+								and(
+									hooks?.custom || eq(table[idField] as SQLWrapper, id),
+									versionControl.matches(expectedVersion),
+									scope,
+								),
+							)
+						if (
+							affectedRows(written) === 0 &&
+							versionControl.expects(expectedVersion)
+						) {
+							return null
+						}
+						const data = await findByIds(targets)
+						if (!hooks?.custom) {
+							const result = data[0]
+							if (!result || data.length === 0) {
+								throw createNotFoundError(entityName, id)
+							}
+							return result as unknown as T['$inferSelect'][]
+						}
+						return data as T['$inferSelect'][]
+					})
+
+					if (result === null) {
+						return yield* createConflictError(entityName, id, expectedVersion)
+					}
+					if (!result) {
+						return yield* createDatabaseError(
+							`Failed to update ${entityName}`,
+							{
+								code: 'SQL_FAILURE',
+								query: db
+									.update(mysqlTable)
+									.set(updateData)
+									.where(hooks?.custom || eq(table[idField] as SQLWrapper, id))
+									.toSQL(),
+							},
+						)
+					}
+					yield* executeHooks(hooks as Hooks<true>, result, 'after')
+					return result
+				}).pipe(
+					Effect.catchAll((error) =>
+						handleOptionalErrorHook(error, hooks as Hooks),
+					),
+				),
+			)
+		},
+		upsert(input, hooks) {
+			return tryHandleError(
+				Effect.gen(function* () {
+					const data = yield* tenancy.assign(input)
+					const idValue = data[getIdField() as keyof T['$inferInsert']]
+					const scope = yield* tenancy.scope()
+					if (scope && idValue !== undefined) {
+						// The row of another tenant is not visible, it must not be overwritten
+						const [foreign] = yield* tryEffect(
+							async () =>
+								await createBaseQuery()
+									.where(
+										and(
+											eq(table[getIdField()] as SQLWrapper, idValue),
+											not(scope),
+										),
+									)
+									.limit(1),
+						)
+						if (foreign) return yield* createNotFoundError(entityName, idValue)
+					}
+					yield* executeHooks(hooks, data, 'before')
+
+					yield* locate([data])
+					const generated = yield* tryEffect(
+						async () =>
+							await db
+								.insert(mysqlTable)
+								.values(data)
+								.onDuplicateKeyUpdate({ set: data })
+								.$returningId(),
+					)
+					const [result] = yield* findWritten([data], generated)
+
+					if (!result) {
+						return yield* createDatabaseError(
+							`Failed to upsert ${entityName}`,
+							{
+								code: 'SQL_FAILURE',
+								query: db
+									.insert(mysqlTable)
+									.values(data)
+									.onDuplicateKeyUpdate({ set: data })
+									.toSQL(),
+							},
+						)
+					}
+					yield* executeHooks(hooks, result, 'after')
+					return result
+				}).pipe(
+					Effect.catchAll((error) => handleOptionalErrorHook(error, hooks)),
+				),
+			)
+		},
+		findOrCreate(input, hooks) {
+			return tryHandleError(
+				Effect.gen(function* () {
+					const data = yield* tenancy.assign(input)
+					yield* executeHooks(hooks, data, 'before')
+					const existing = yield* tryEffect(
+						async () =>
+							await _queryOperations.findOne(
+								data[getIdField() as keyof T['$inferInsert']],
+							),
+					)
+					if (existing) {
+						yield* executeHooks(hooks, existing, 'after')
+						return existing
+					}
+
+					yield* locate([data])
+					const generated = yield* tryEffect(
+						async () => await db.insert(mysqlTable).values(data).$returningId(),
+					)
+					const [result] = yield* findWritten([data], generated)
+
+					if (!result) {
+						return yield* createDatabaseError(
+							`Failed to find or create ${entityName}`,
+							{
+								code: 'SQL_FAILURE',
+								query: db.insert(mysqlTable).values(data).toSQL(),
+							},
+						)
+					}
+					yield* executeHooks(hooks, result, 'after')
+					return result
+				}).pipe(
+					Effect.catchAll((error) => handleOptionalErrorHook(error, hooks)),
+				),
+			)
+		},
+		delete: (id: IdType<T, O>, hooks?) => {
+			return handleError(
+				Effect.gen(function* () {
+					const idField = getIdField()
+					const scope = yield* tenancy.scope()
+
+					if (!soft)
+						return yield* createDatabaseError(
+							`Soft delete is not enabled for ${entityName}`,
+						)
+
+					const values = yield* tryEffect(() =>
+						softDelete.deleted(hooks?.reason),
+					)
+					const entity = yield* tryEffect(
+						async () => await _queryOperations.findOne(id),
+					)
+					if (!entity) {
+						return yield* createNotFoundError(entityName, id)
+					}
+
+					const expectedVersion = hooks?.expectedVersion
+					const conflict = versionControl.conflict(entity, expectedVersion)
+					if (conflict) {
+						return yield* createConflictError(
+							entityName,
+							id,
+							expectedVersion,
+							conflict.current,
+						)
+					}
+
+					yield* executeHooks(hooks as Hooks, entity, 'before')
+					const result = yield* tryEffect(async () => {
+						const targets = hooks?.custom
+							? (await createBaseQuery().where(and(hooks.custom, scope))).map(
+									(row) => row[idField as keyof typeof row],
+								)
+							: [id]
+						const written = await db
+							.update(mysqlTable)
+							.set({
+								...values,
+								updatedAt: new Date(),
+								...versionControl.next(),
+							} as Record<string, unknown>)
+							.where(
+								and(
+									hooks?.custom || eq(table[idField] as SQLWrapper, id),
+									versionControl.matches(expectedVersion),
+									scope,
+								),
+							)
+						if (
+							affectedRows(written) === 0 &&
+							versionControl.expects(expectedVersion)
+						) {
+							return null
+						}
+						const updated = await findByIds(targets)
+
+						if (!hooks?.custom) return updated[0] as T['$inferSelect']
+
+						return updated as T['$inferSelect'][]
+					})
+					if (result === null) {
+						return yield* createConflictError(entityName, id, expectedVersion)
+					}
+
+					yield* executeHooks(hooks as Hooks<true>, result, 'after')
+
+					return {
+						success: true,
+						message: 'successfully soft deleted',
+					}
+				}).pipe(
+					Effect.catchAll((error) =>
+						handleOptionalErrorHook(error, hooks as Hooks),
+					),
+				),
+			)
+		},
+
+		hardDelete: (id: IdType<T, O>, hooks?) => {
+			return handleError(
+				Effect.gen(function* () {
+					const idField = getIdField()
+					const scope = yield* tenancy.scope()
+					const entity = yield* tryEffect(
+						async () => await _queryOperations.findOne(id),
+					)
+					if (!entity) {
+						return yield* createNotFoundError(entityName, id)
+					}
+
+					yield* executeHooks(hooks, entity, 'before')
+					yield* tryEffect(async () => {
+						await db
+							.delete(mysqlTable)
+							.where(
+								and(
+									hooks?.custom || eq(table[idField] as SQLWrapper, id),
+									scope,
+								),
+							)
+					})
+
+					yield* executeHooks(hooks, entity, 'after')
+
+					return {
+						success: true,
+						message: `${entityName} permanently deleted`,
+					}
+				}).pipe(
+					Effect.catchAll((error) => handleOptionalErrorHook(error, hooks)),
+				),
+			)
+		},
+
+		restore: (id: IdType<T, O>, hooks?) => {
+			return handleError(
+				Effect.gen(function* () {
+					if (!soft)
+						return yield* createDatabaseError(
+							'notDeletedValue is required for non-boolean, non-timestamp soft delete fields',
+						)
+
+					const data = yield* tryEffect(
+						async () => await _queryOperations.findOne(id),
+					)
+
+					if (!data) {
+						return {
+							success: false,
+							message: `Entity with id ${id} not found`,
+						}
+					}
+
+					const expectedVersion = hooks?.expectedVersion
+					const conflict = versionControl.conflict(data, expectedVersion)
+					if (conflict) {
+						return yield* createConflictError(
+							entityName,
+							id,
+							expectedVersion,
+							conflict.current,
+						)
+					}
+
+					yield* executeHooks(hooks, data, 'before')
+
+					const { field, deletedValue, notDeletedValue } = soft
+
+					// Determine the restore value based on field type
+					let restoreValue: unknown
+					if (typeof deletedValue === 'boolean') {
+						// For boolean fields, use opposite of deletedValue if notDeletedValue not specified
+						restoreValue =
+							notDeletedValue !== undefined ? notDeletedValue : !deletedValue
+					} else if (deletedValue === 'NOT_NULL') {
+						// For timestamp fields with special marker, use null or specified notDeletedValue
+						restoreValue =
+							notDeletedValue !== undefined ? notDeletedValue : null
+					} else {
+						// For other types, notDeletedValue is required
+						if (notDeletedValue === undefined) {
+							return yield* createDatabaseError(
+								'notDeletedValue is required for non-boolean, non-timestamp soft delete fields',
+							)
+						}
+						restoreValue = notDeletedValue
+					}
+
+					const idField = getIdField()
+					const scope = yield* tenancy.scope()
+					const restored = yield* tryEffect(async () => {
+						return await db
+							.update(mysqlTable)
+							.set({
+								...softDelete.restored(),
+								[field]: restoreValue,
+								updatedAt: new Date(),
+								...versionControl.next(),
+							} as Record<string, unknown>)
+							.where(
+								and(
+									hooks?.custom || eq(table[idField] as SQLWrapper, id),
+									versionControl.matches(expectedVersion),
+									scope,
+								),
+							)
+					})
+					if (
+						affectedRows(restored) === 0 &&
+						versionControl.expects(expectedVersion)
+					) {
+						return yield* createConflictError(entityName, id, expectedVersion)
+					}
+
+					const restoredData = {
+						...data,
+						...softDelete.restored(),
+						[field]: restoreValue,
+					} as T['$inferSelect']
+
+					yield* executeHooks(hooks, restoredData, 'after')
+
+					return {
+						success: true,
+						message: `Entity with id ${id} successfully restored`,
+					}
+				}).pipe(
+					Effect.catchAll((error) => handleOptionalErrorHook(error, hooks)),
+				),
+			)
+		},
+	}
+
+	// ===============================
+	// 🚀 BULK OPERATIONS
+	// ===============================
+
+	const _bulkOperations: MutationsBulkOperations<T, O> = {
+		bulkCreate: (data: T['$inferInsert'][], hooks?) => {
+			return handleError(
+				Effect.gen(function* () {
+					const result: {
+						batch: BulkOperationResult<T['$inferSelect'][], T>[0]
+						data: BulkOperationResult<T['$inferSelect'][], T>[1]
+					} = {
+						batch: {
+							size: batchSize,
+							processed: 0,
+							failed: 0,
+							errors: [],
+						},
+						data: [],
+					}
+
+					if (data.length === 0) {
+						return [result.batch, result.data] as BulkOperationResult<
+							T['$inferSelect'][],
+							T
+						>
+					}
+
+					const insertData = yield* Effect.forEach(data, (item) =>
+						tenancy.assign({
+							...item,
+							createdAt: new Date(),
+							updatedAt: new Date(),
+						}),
+					)
+
+					yield* executeHooks(hooks, insertData, 'before')
+
+					const batches = createBatches(insertData, batchSize)
+					const idField = getIdField() as keyof T['$inferInsert']
+
+					for (const [position, batch] of batches.entries()) {
+						const { data: rows, failures } = yield* writeBatch(
+							batch,
+							position * batchSize,
+							(rows) =>
+								Effect.gen(function* () {
+									yield* locate(rows)
+									const generated = yield* tryEffect(
+										async () =>
+											await db.insert(mysqlTable).values(rows).$returningId(),
+									)
+									return yield* findWritten(rows, generated)
+								}),
+							hooks?.onBatchError,
+						)
+
+						result.data.push(...rows)
+						result.batch.processed += rows.length
+						result.batch.failed += failures.length
+						for (const { index, error } of failures) {
+							result.batch.errors?.push({
+								id: (data[index]?.[idField] ?? `row_${index}`) as IdType<T, O>,
+								error: error.message,
+								index,
+							})
+						}
+					}
+
+					yield* executeHooks(hooks, result.data, 'after')
+					return [result.batch, result.data] as BulkOperationResult<
+						T['$inferSelect'][],
+						T
+					>
+				}).pipe(
+					Effect.catchAll((error) => handleOptionalErrorHook(error, hooks)),
+				),
+			)
+		},
+
+		bulkUpdate: (
+			data: Array<{
+				id: IdType<T, O>
+				changes: Partial<Omit<T['$inferInsert'], 'createdAt' | 'id'>>
+				expectedVersion?: unknown
+			}>,
+			hooks?,
+		) => {
+			return handleError(
+				Effect.gen(function* () {
+					const result: {
+						batch: BulkOperationResult<T['$inferSelect'][], T>[0]
+						data: BulkOperationResult<T['$inferSelect'][], T>[1]
+					} = {
+						batch: {
+							size: batchSize,
+							processed: 0,
+							failed: 0,
+							errors: [],
+						},
+						data: [],
+					}
+
+					if (data.length === 0) {
+						return [result.batch, result.data] as BulkOperationResult<
+							T['$inferSelect'][],
+							T
+						>
+					}
+
+					yield* Effect.forEach(data, (item) =>
+						tenancy.assign(item.changes, false),
+					)
+					yield* executeHooks(hooks, data, 'before')
+
+					const batches = createBatches(data, batchSize)
+					const idField = getIdField()
+					const scope = yield* tenancy.scope()
+
+					for (const batch of batches) {
+						for (const item of batch) {
+							const outcome = yield* Effect.either(
+								tryEffect(async () => {
+									const written = await db
+										.update(mysqlTable)
+										.set({
+											...item.changes,
+											updatedAt: new Date(),
+											...versionControl.next(),
+										})
+										.where(
+											and(
+												eq(table[idField] as SQLWrapper, item.id),
+												versionControl.matches(item.expectedVersion),
+												scope,
+											),
+										)
+									if (
+										affectedRows(written) === 0 &&
+										versionControl.expects(item.expectedVersion)
+									) {
+										return null
+									}
+									const [updated] = await findByIds([item.id])
+
+									return updated
+								}),
+							)
+
+							if (Either.isLeft(outcome)) {
+								result.batch.failed += 1
+								result.batch.errors?.push({
+									id: item.id,
+									error: outcome.left.message,
+								})
+							} else if (outcome.right === null) {
+								result.batch.failed += 1
+								result.batch.errors?.push({
+									id: item.id,
+									error: `${entityName} with id ${item.id} was modified by another operation`,
+								})
+							} else if (outcome.right) {
+								result.data.push(outcome.right)
+								result.batch.processed += 1
+							} else {
+								result.batch.failed += 1
+								result.batch.errors?.push({
+									id: item.id,
+									error: 'Record not found or not updated',
+								})
+							}
+						}
+					}
+
+					yield* executeHooks(hooks, result.data, 'after')
+
+					return [result.batch, result.data] as BulkOperationResult<
+						T['$inferSelect'][],
+						T
+					>
+				}).pipe(
+					Effect.catchAll((error) => handleOptionalErrorHook(error, hooks)),
+				),
+			)
+		},
+
+		// MySQL resolves duplicates on any unique key, the conflict target can not be chosen
+		bulkUpsert: (_data: T['$inferInsert'][], _opts, hooks?) => {
+			return handleError(
+				createValidationError(
+					'bulkUpsert is not supported on MySQL',
+					'bulkUpsert',
+				).pipe(
+					Effect.catchAll((error) => handleOptionalErrorHook(error, hooks)),
+				),
+			)
+		},
+
+		bulkDelete: (ids: IdType<T, O>[], hooks?) => {
+			return handleError(
+				Effect.gen(function* () {
+					const result: {
+						batch: BulkOperationResult<
+							{ readonly success: boolean; readonly message?: string },
+							T
+						>[0]
+						data: BulkOperationResult<
+							{ readonly success: boolean; readonly message?: string },
+							T
+						>[1]
+					} = {
+						batch: {
+							size: batchSize,
+							processed: 0,
+							failed: 0,
+							errors: [],
+						},
+						data: { success: false },
+					}
+
+					if (ids.length === 0) {
+						result.data = { success: true, message: 'No records to delete' }
+						return [result.batch, result.data] as BulkOperationResult<
+							{ readonly success: boolean; readonly message?: string },
+							T
+						>
+					}
+
+					if (!soft) {
+						// If no soft delete configured, add all as errors
+						result.batch.failed = ids.length
+						result.data = {
+							success: false,
+							message: `Soft delete is not enabled for the entity: ${entityName}`,
+						}
+						for (const id of ids) {
+							result.batch.errors?.push({
+								id,
+								error: `Soft delete is not enabled for the entity: ${entityName}`,
+							})
+						}
+						return [result.batch, result.data] as BulkOperationResult<
+							{ readonly success: boolean; readonly message?: string },
+							T
+						>
+					}
+
+					if (hooks?.beforeAction) {
+						yield* executeHooks(hooks, ids, 'before')
+					}
+
+					const values = yield* tryEffect(() =>
+						softDelete.deleted(hooks?.reason),
+					)
+					const batches = createBatches(ids, batchSize)
+					const idField = getIdField()
+					const scope = yield* tenancy.scope()
+
+					for (const batch of batches) {
+						try {
+							// First, check which entities exist and are not already deleted
+							const existingData = yield* tryEffect(async () => {
+								return await createBaseQuery().where(
+									and(inArray(table[idField] as SQLWrapper, batch), scope),
+								)
+							})
+
+							const validIds = existingData
+								.filter(
+									(item) =>
+										item[soft.field as keyof typeof item] !== soft.deletedValue,
+								)
+								.map((item) => item[idField as keyof typeof item])
+
+							if (validIds.length === 0) {
+								// All records in this batch are invalid
+								result.batch.failed += batch.length
+								for (const id of batch) {
+									result.batch.errors?.push({
+										id,
+										error: 'Record not found or already deleted',
+									})
+								}
+								continue
+							}
+
+							// Perform the soft delete
+							const updated = yield* tryEffect(async () => {
+								await db
+									.update(mysqlTable)
+									.set({
+										...values,
+										updatedAt: new Date(),
+										...versionControl.next(),
+									} as Partial<T['$inferInsert']>)
+									.where(
+										and(inArray(table[idField] as SQLWrapper, validIds), scope),
+									)
+								return await findByIds(validIds)
+							})
+
+							result.batch.processed += updated.length
+
+							// Track failed deletes within the batch
+							if (updated.length < batch.length) {
+								const failedCount = batch.length - updated.length
+								result.batch.failed += failedCount
+							}
+						} catch (error) {
+							result.batch.failed += batch.length
+							for (const id of batch) {
+								result.batch.errors?.push({
+									id,
+									error:
+										error instanceof Error ? error.message : 'Unknown error',
+								})
+							}
+						}
+					}
+
+					// Set final result data
+					const totalRequested = ids.length
+					const successful = result.batch.processed
+					const failed = result.batch.failed
+
+					if (failed === 0) {
+						result.data = {
+							success: true,
+							message: `Successfully deleted ${successful} records`,
+						}
+					} else if (successful === 0) {
+						result.data = {
+							success: false,
+							message: `Failed to delete all ${totalRequested} records`,
+						}
+					} else {
+						result.data = {
+							success: true,
+							message: `Partially successful: ${successful} deleted, ${failed} failed`,
+						}
+					}
+
+					if (hooks?.afterAction) {
+						yield* executeHooks(hooks, ids, 'after')
+					}
+
+					return [result.batch, result.data] as BulkOperationResult<
+						{ readonly success: boolean; readonly message?: string },
+						T
+					>
+				}).pipe(
+					Effect.catchAll((error) => handleOptionalErrorHook(error, hooks)),
+				),
+			)
+		},
+
+		bulkHardDelete: (ids: IdType<T, O>[], hooks?) => {
+			return handleError(
+				Effect.gen(function* () {
+					const result: {
+						batch: BulkOperationResult<
+							{ readonly success: boolean; readonly message?: string },
+							T
+						>[0]
+						data: BulkOperationResult<
+							{ readonly success: boolean; readonly message?: string },
+							T
+						>[1]
+					} = {
+						batch: {
+							size: batchSize,
+							processed: 0,
+							failed: 0,
+							errors: [],
+						},
+						data: { success: false },
+					}
+
+					if (ids.length === 0) {
+						result.data = { success: true, message: 'No records to delete' }
+						return [result.batch, result.data] as BulkOperationResult<
+							{ readonly success: boolean; readonly message?: string },
+							T
+						>
+					}
+
+					if (hooks?.beforeAction) {
+						yield* executeHooks(hooks, ids, 'before')
+					}
+
+					const batches = createBatches(ids, batchSize)
+					const idField = getIdField()
+					const scope = yield* tenancy.scope()
+
+					for (const batch of batches) {
+						try {
+							// First, get the entities that will be deleted for hooks
+							const existingData = yield* tryEffect(async () => {
+								return await createBaseQuery().where(
+									and(inArray(table[idField] as SQLWrapper, batch), scope),
+								)
+							})
+
+							if (existingData.length === 0) {
+								// All records in this batch are missing
+								result.batch.failed += batch.length
+								for (const id of batch) {
+									result.batch.errors?.push({
+										id,
+										error: 'Record not found',
+									})
+								}
+								continue
+							}
+
+							// Perform the hard delete
+							yield* tryEffect(async () => {
+								await db
+									.delete(mysqlTable)
+									.where(
+										and(inArray(table[idField] as SQLWrapper, batch), scope),
+									)
+							})
+
+							result.batch.processed += existingData.length
+
+							// Track failed deletes within the batch
+							if (existingData.length < batch.length) {
+								const failedCount = batch.length - existingData.length
+								result.batch.failed += failedCount
+							}
+						} catch (error) {
+							result.batch.failed += batch.length
+							for (const id of batch) {
+								result.batch.errors?.push({
+									id,
+									error:
+										error instanceof Error ? error.message : 'Unknown error',
+								})
+							}
+						}
+					}
+
+					// Set final result data
+					const totalRequested = ids.length
+					const successful = result.batch.processed
+					const failed = result.batch.failed
+
+					if (failed === 0) {
+						result.data = {
+							success: true,
+							message: `Successfully hard deleted ${successful} records`,
+						}
+					} else if (successful === 0) {
+						result.data = {
+							success: false,
+							message: `Failed to hard delete all ${totalRequested} records`,
+						}
+					} else {
+						result.data = {
+							success: true,
+							message: `Partially successful: ${successful} hard deleted, ${failed} failed`,
+						}
+					}
+
+					if (hooks?.afterAction) {
+						yield* executeHooks(hooks, ids, 'after')
+					}
+
+					return [result.batch, result.data] as BulkOperationResult<
+						{ readonly success: boolean; readonly message?: string },
+						T
+					>
+				}).pipe(
+					Effect.catchAll((error) => handleOptionalErrorHook(error, hooks)),
+				),
+			)
+		},
+
+		bulkRestore: (ids: IdType<T, O>[], hooks?) => {
+			return Effect.gen(function* () {
+				const result: {
+					batch: BulkOperationResult<
+						{ readonly success: boolean; readonly message?: string },
+						T
+					>[0]
+					data: BulkOperationResult<
+						{ readonly success: boolean; readonly message?: string },
+						T
+					>[1]
+				} = {
+					batch: {
+						size: batchSize,
+						processed: 0,
+						failed: 0,
+						errors: [],
+					},
+					data: { success: false },
+				}
+
+				if (ids.length === 0) {
+					result.data = { success: true, message: 'No records to restore' }
+					return [result.batch, result.data] as BulkOperationResult<
+						{ readonly success: boolean; readonly message?: string },
+						T
+					>
+				}
+
+				if (!soft) {
+					// If no soft delete configured, add all as errors
+					result.batch.failed = ids.length
+					result.data = {
+						success: false,
+						message: `Soft delete is not enabled for the entity: ${entityName}`,
+					}
+					for (const id of ids) {
+						result.batch.errors?.push({
+							id,
+							error: `Soft delete is not enabled for the entity: ${entityName}`,
+						})
+					}
+					return [result.batch, result.data] as BulkOperationResult<
+						{ readonly success: boolean; readonly message?: string },
+						T
+					>
+				}
+
+				if (hooks?.beforeAction) {
+					yield* executeHooks(hooks, ids, 'before')
+				}
+
+				const batches = createBatches(ids, batchSize)
+				const idField = getIdField()
+				const scope = yield* tenancy.scope()
+
+				for (const batch of batches) {
+					try {
+						// First, check which entities exist and are currently deleted
+						const existingData = yield* tryEffect(async () => {
+							return await createBaseQuery().where(
+								and(
+									inArray(table[idField] as SQLWrapper, batch),
+									scope,
+									eq(
+										table[soft.field as keyof T] as SQLWrapper,
+										soft.deletedValue,
+									),
+								),
+							)
+						})
+
+						const validIds = existingData.map(
+							(item) => item[idField as keyof typeof item],
+						)
+
+						if (validIds.length === 0) {
+							// All records in this batch are invalid (not found or not deleted)
+							result.batch.failed += batch.length
+							for (const id of batch) {
+								result.batch.errors?.push({
+									id,
+									error: 'Record not found or not deleted',
+								})
+							}
+							continue
+						}
+
+						// Perform the restore (set soft delete field to notDeletedValue)
+						const restoreValue =
+							soft.notDeletedValue !== undefined
+								? soft.notDeletedValue
+								: typeof soft.deletedValue === 'boolean'
+									? !soft.deletedValue
+									: null
+
+						const updated = yield* tryEffect(async () => {
+							await db
+								.update(mysqlTable)
+								.set({
+									...softDelete.restored(),
+									[soft.field]: restoreValue,
+									updatedAt: new Date(),
+									...versionControl.next(),
+								} as Partial<T['$inferInsert']>)
+								.where(
+									and(inArray(table[idField] as SQLWrapper, validIds), scope),
+								)
+							return await findByIds(validIds)
+						})
+
+						result.batch.processed += updated.length
+
+						// Track failed restores within the batch
+						if (updated.length < batch.length) {
+							const failedCount = batch.length - updated.length
+							result.batch.failed += failedCount
+						}
+					} catch (error) {
+						result.batch.failed += batch.length
+						for (const id of batch) {
+							result.batch.errors?.push({
+								id,
+								error: error instanceof Error ? error.message : 'Unknown error',
+							})
+						}
+					}
+				}
+
+				// Set final result data
+				const totalRequested = ids.length
+				const successful = result.batch.processed
+				const failed = result.batch.failed
+
+				if (failed === 0) {
+					result.data = {
+						success: true,
+						message: `Successfully restored ${successful} records`,
+					}
+				} else if (successful === 0) {
+					result.data = {
+						success: false,
+						message: `Failed to restore all ${totalRequested} records`,
+					}
+				} else {
+					result.data = {
+						success: true,
+						message: `Partially successful: ${successful} restored, ${failed} failed`,
+					}
+				}
+
+				if (hooks?.afterAction) {
+					yield* executeHooks(hooks, ids, 'after')
+				}
+
+				return [result.batch, result.data] as BulkOperationResult<
+					{ readonly success: boolean; readonly message?: string },
+					T
+				>
+			}).pipe(
+				Effect.catchAll((error) => handleOptionalErrorHook(error, hooks)),
+				Effect.runPromise,
+			)
+		},
+		purgeDeleted: ({ olderThan }) => {
+			return handleError(
+				Effect.gen(function* () {
+					const cutoff =
+						olderThan instanceof Date
+							? olderThan
+							: new Date(Date.now() - olderThan)
+					const condition = softDelete.deletedBefore(cutoff)
+					if (!condition) {
+						return yield* createValidationError(
+							`purgeDeleted requires the deletedAtField of the soft delete option of ${entityName}`,
+							'soft',
+						)
+					}
+
+					const batch: BulkOperationResult<
+						{ readonly success: boolean; readonly message?: string },
+						T
+					>[0] = {
+						size: batchSize,
+						processed: 0,
+						failed: 0,
+						errors: [],
+					}
+					const idField = getIdField()
+					const scope = yield* tenancy.scope()
+
+					// Purged rows no longer match, every batch reads the next tombstones
+					let found = batchSize
+					while (found === batchSize) {
+						const rows = yield* tryEffect(async () => {
+							return await createBaseQuery()
+								.where(and(condition, scope))
+								.limit(batchSize)
+						})
+						found = rows.length
+						if (found === 0) break
+
+						const ids = rows.map(
+							(row) => row[idField as keyof typeof row] as IdType<T>,
+						)
+						const purged = yield* Effect.either(
+							tryEffect(async () => {
+								return await db
+									.delete(mysqlTable)
+									.where(
+										and(
+											inArray(table[idField] as SQLWrapper, ids),
+											condition,
+											scope,
+										),
+									)
+							}),
+						)
+						if (Either.isLeft(purged)) {
+							batch.failed += ids.length
+							for (const id of ids) {
+								batch.errors?.push({ id, error: purged.left.message })
+							}
+							break
+						}
+						// Rows restored since they were read are no longer purged
+						batch.processed += affectedRows(purged.right)
+					}
+
+					return [
+						batch,
+						{
+							success: batch.failed === 0,
+							message: `Purged ${batch.processed} soft deleted records`,
+						},
+					] as BulkOperationResult<
+						{ readonly success: boolean; readonly message?: string },
+						T
+					>
+				}),
+			)
+		},
+	}
+
+	const baseMethods: ServiceMethods<T, D, O> = {
+		..._queryOperations,
+		..._mutationOperations,
+		..._bulkOperations,
+	}
+	const _ = {
+		...baseMethods,
+		searchTyped: <
+			TRels extends WithRelations[] = [],
+			TResult = TRels['length'] extends 0
+				? T['$inferSelect'][]
+				: RelationType<T, TRels>[],
+		>(
+			criteria: CriteriaFilter<T>,
+			opts: FindByQueryOpts<T, TResult, TRels> = {} as FindByQueryOpts<
+				T,
+				TResult,
+				TRels
+			>,
+		) => {
+			const conditions = conditionsFromCriteria(
+				criteria,
+				opts.match || 'exact',
+				opts.caseSensitive ?? false,
+			)
+
+			const { where: custom, ...restOpts } = opts
+			return handleError(
+				handleQueries(createBaseQuery(), restOpts, {
+					beforeParse(query) {
+						if (!conditions.length) return query
+						if (custom) return query.where(or(custom, and(...conditions)))
+						return query.where(and(...conditions))
+					},
+				}),
+			)
+		},
+	}
+
+	// Transaction copies notify the listeners of this service
+	const txOpts = shareEmitter(opts, emitter)
+	const bindTransaction = (tx: D) =>
+		createMysqlService(tx, table, txOpts) as Service<T, D, O> & O
+
+	const baseService = withTransactionOption(
+		db,
+		withAuditTransaction(
+			withPlugins(
+				withEvents(
+					withCache(
+						withAudit(
+							withValidation(
+								{
+									...baseMethods,
+									...(override ? override(baseMethods) : {}),
+								},
+								validate,
+								getIdField(),
+							),
+							{
+								entityName,
+								idField: getIdField(),
+								audit,
+								write: (entries) =>
+									db
+										.insert(audit?.table as AuditTable & MySqlTable)
+										.values(entries),
+							},
+						),
+						{
+							db,
+							entityName,
+							cache,
+							render: (condition) => createBaseQuery().where(condition).toSQL(),
+							readThrough: !is(db, MySqlTransaction),
+							partition: tenant
+								? () => Effect.runPromise(tenancy.values())
+								: undefined,
+						},
+					),
+					{ db, emitter, idField: getIdField() },
+				),
+				plugins,
+				{ entityName, table },
+			),
+			{
+				db,
+				audit,
+				bound: is(db, MySqlTransaction),
+				bind: (tx) => bindTransaction(tx as D),
+			},
+		),
+		(tx) => bindTransaction(tx as D),
+	)
+
+	const repository: Service<T, D> = {
+		...withNestedWrites(baseService, {
+			db,
+			table,
+			entityName,
+			idField: getIdField(),
+			relations,
+		}),
+		_,
+		entityName: entityName,
+		idField: getIdField() as string,
+		soft,
+		db,
+		entity: table,
+		transaction: (fn) =>
+			runTransaction(db, (tx) => fn(bindTransaction(tx as D))),
+		withTransaction: (tx) => bindTransaction(tx as D),
+		on: emitter.on,
+		off: emitter.off,
+		history: (entityId) => {
+			if (!audit) {
+				return handleError(
+					createValidationError(
+						`Audit log is not configured for ${entityName}`,
+						'audit',
+					),
+				)
+			}
+			const log = audit.table
+			return handleError(
+				Effect.gen(function* () {
+					const scope = yield* tenancy.scope()
+					if (scope) {
+						// The history of a row of another tenant is not visible
+						const [visible] = yield* tryEffect(
+							async () =>
+								await createBaseQuery()
+									.where(
+										and(eq(table[getIdField()] as SQLWrapper, entityId), scope),
+									)
+									.limit(1),
+						)
+						if (!visible)
+							return yield* createNotFoundError(entityName, entityId)
+					}
+					return yield* tryEffect(async () => {
+						const entries = await db
+							.select()
+							.from(log as AuditTable & MySqlTable)
+							.where(
+								and(
+									eq(log.entityName, entityName),
+									eq(log.entityId, String(entityId)),
+								),
+							)
+							.orderBy(asc(log.createdAt), asc(log.id))
+						return entries as unknown as AuditEntry[]
+					})
+				}),
+			)
+		},
+	}
+
+	return extendService(
+		{
+			...repository,
+			...rest,
+		} as Service<T, D, O> & O,
+		plugins,
+		{ entityName, table },
+	)
+})
@@ -0,0 +1,24 @@
+import type { AuditChanges, AuditOperation } from '@builder/types'
+import { index, pgTable } from 'drizzle-orm/pg-core'
+
+/**
+ * Creates the table used by the `audit` service option
+ * @example export const auditLog = auditTable('audit_log')
+ */
+export function auditTable<TName extends string = 'audit_log'>(
+	name: TName = 'audit_log' as TName,
+) {
+	return pgTable(
+		name,
+		(t) => ({
+			id: t.serial().primaryKey(),
+			entityName: t.text('entity_name').notNull(),
+			entityId: t.text('entity_id').notNull(),
+			operation: t.text().$type<AuditOperation>().notNull(),
+			actor: t.text(),
+			changes: t.jsonb().$type<AuditChanges>().notNull(),
+			createdAt: t.timestamp('created_at').defaultNow().notNull(),
+		}),
+		(t) => [index(`${name}_entity_idx`).on(t.entityName, t.entityId)],
+	)
+}
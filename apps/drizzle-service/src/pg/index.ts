@@ -1,11 +1,25 @@
+import { withGlobalPlugins } from '@builder/plugins'
+import { bindServices, runTransaction } from '@builder/transaction'
 import type {
 	BaseEntity,
+	DrizzleServiceConfig,
+	PluginExtensions,
 	PostgresDb,
 	Service,
 	ServiceOptions,
+	ServicePlugin,
+	UnitOfWork,
 } from '@builder/types'
 import { createPostgresService } from './service'
 
+export { createMemoryCache } from '@builder/cache'
+export { createHttpHandler } from '@builder/http'
+export { generateOpenApi } from '@builder/openapi'
+export { definePlugin } from '@builder/plugins'
+export { fromProblemDetails, toProblemDetails } from '@builder/problem'
+export { parseQueryString, stringifyQuery } from '@builder/query'
+export { auditTable } from './audit'
+
 // Helper to check if table has an 'id' field of any type
 type HasIdField<T extends BaseEntity> = T['$inferSelect'] extends { id: any }
 	? true
@@ -18,41 +32,78 @@ type GetIdType<T extends BaseEntity> = T['$inferSelect'] extends {
 	? IdType
 	: never
 
-export function drizzleService<D extends PostgresDb>(
+export function drizzleService<
+	D extends PostgresDb,
+	TGlobalPlugins extends readonly ServicePlugin[] = readonly ServicePlugin[],
+>(
 	db: D,
+	config?: DrizzleServiceConfig<TGlobalPlugins>,
 ): {
 	// Overload 1: Tables with string 'id' field - opts are optional
 	<
 		T extends BaseEntity & { $inferSelect: { id: string } },
 		TExtensions extends Record<string, unknown> = Record<string, unknown>,
+		TPlugins extends readonly ServicePlugin[] = readonly ServicePlugin[],
 	>(
 		table: T,
-		opts?: ServiceOptions<T, D, TExtensions>,
-	): Service<T, D, ServiceOptions<T, D, TExtensions> | undefined> & TExtensions
+		opts?: ServiceOptions<T, D, TExtensions, TPlugins>,
+	): Service<T, D, ServiceOptions<T, D, TExtensions> | undefined> &
+		TExtensions &
+		PluginExtensions<TGlobalPlugins> &
+		PluginExtensions<TPlugins>
 
 	// Overload 2: Tables with non-string 'id' field OR no 'id' field - must provide id option
 	<
 		T extends BaseEntity,
 		TIdField extends keyof T['$inferSelect'],
 		TExtensions extends Record<string, unknown> = Record<string, unknown>,
+		TPlugins extends readonly ServicePlugin[] = readonly ServicePlugin[],
 	>(
 		table: T,
-		opts: ServiceOptions<T, D, TExtensions> & { id: TIdField },
-	): HasIdField<T> extends true
+		opts: ServiceOptions<T, D, TExtensions, TPlugins> & { id: TIdField },
+	): (HasIdField<T> extends true
 		? GetIdType<T> extends string
 			? never // This case is handled by overload 1
 			: Service<T, D, ServiceOptions<T, D, TExtensions> & { id: TIdField }> &
 					TExtensions
 		: Service<T, D, ServiceOptions<T, D, TExtensions> & { id: TIdField }> &
-				TExtensions
+				TExtensions) &
+		PluginExtensions<TGlobalPlugins> &
+		PluginExtensions<TPlugins>
+
+	/**
+	 * Binds several services to one transaction, committed when the callback
+	 * resolves and rolled back when it throws.
+	 * @example
+	 * ```typescript
+	 * await service.unitOfWork(
+	 *   { sales: salesService, lines: salesLinesService },
+	 *   async ({ sales, lines }) => {
+	 *     const [error, header] = await sales.create(headerData)
+	 *     if (error) throw error
+	 *     await lines.bulkCreate(linesData)
+	 *   },
+	 * )
+	 * ```
+	 */
+	unitOfWork: UnitOfWork
 }
 
-export function drizzleService<D extends PostgresDb>(db: D) {
-	return <
+export function drizzleService<D extends PostgresDb>(
+	db: D,
+	config?: DrizzleServiceConfig<readonly ServicePlugin[]>,
+) {
+	const service = <
 		T extends BaseEntity,
 		TExtensions extends Record<string, unknown> = Record<string, unknown>,
 	>(
 		table: T,
 		opts?: ServiceOptions<T, D, TExtensions>,
-	) => createPostgresService(db, table, opts)
+	) =>
+		createPostgresService(db, table, withGlobalPlugins(opts, config?.plugins))
+
+	const unitOfWork: UnitOfWork = (services, fn) =>
+		runTransaction(db, (tx) => fn(bindServices(services, tx as D)))
+
+	return Object.assign(service, { unitOfWork })
 }
@@ -1,12 +1,29 @@
+import { withAudit, withAuditTransaction } from '@builder/audit'
+import { sharedColumns, writeBatch } from '@builder/batch'
+import { withCache } from '@builder/cache'
+import { createConcurrency } from '@builder/concurrency'
+import { decodeCursor, encodeCursor } from '@builder/cursor'
+import { serviceEmitter, shareEmitter, withEvents } from '@builder/events'
 import { createFilters } from '@builder/filters'
+import { withNestedWrites } from '@builder/nested'
+import { extendService, withPlugins } from '@builder/plugins'
+import { createSoftDelete } from '@builder/soft'
+import { createTenancy } from '@builder/tenant'
+import { runTransaction, withTransactionOption } from '@builder/transaction'
 import type {
+	AggregateFields,
+	AggregateOpts,
+	AuditEntry,
+	AuditTable,
 	BulkOperationResult,
+	ChunkHandler,
 	CriteriaFilter,
 	ExtendedServiceHooks,
 	FilterCriteria,
 	FindByQueryOpts,
 	FindOneOpts,
 	IdType,
+	IncludeResult,
 	MutationOperations,
 	MutationsBulkOperations,
 	PaginationResult,
@@ -14,26 +31,46 @@ import type {
 	QueryOperations,
 	QueryOpts,
 	RelationType,
+	SelectFields,
 	Service,
 	ServiceMethods,
+	StreamOpts,
 	WithRelations,
+	WithRelationsRecursive,
 } from '@builder/types'
+import { withValidation } from '@builder/validation'
 import {
 	and,
+	asc,
+	type Column,
 	count,
 	eq,
+	getTableColumns,
 	getTableName,
 	ilike,
 	inArray,
+	is,
+	not,
 	or,
+	type SQL,
 	type SQLWrapper,
+	sql,
 } from 'drizzle-orm'
-import type { IndexColumn } from 'drizzle-orm/pg-core'
-import { Effect } from 'effect'
+import {
+	type IndexColumn,
+	PgArray,
+	PgEnumColumn,
+	PgEnumObjectColumn,
+	type PgTable,
+	PgTransaction,
+} from 'drizzle-orm/pg-core'
+import { Effect, Either } from 'effect'
 import { createService } from '@/builder'
 import {
+	createConflictError,
 	createDatabaseError,
 	createNotFoundError,
+	createValidationError,
 	executeHooks,
 	handleError,
 	handleOptionalErrorHook,
@@ -61,9 +98,26 @@ export const createPostgresService = createService<PostgresDb>(
 			override,
 			soft,
 			id,
+			validate,
+			audit,
+			concurrency,
+			cache,
+			tenant,
+			relations,
+			onEventError,
+			plugins,
 			...rest
 		} = opts || {}
 		const entityName = getTableName(table)
+		const emitter = serviceEmitter(opts, entityName, onEventError)
+		const tenancy = createTenancy(table, tenant)
+		const versionControl = createConcurrency(
+			table,
+			concurrency,
+			(column) => sql`date_trunc('milliseconds', ${column})`,
+		)
+
+		const softDelete = createSoftDelete(table, soft, audit?.actor)
 
 		function getIdField(): keyof typeof table {
 			return (id as keyof typeof table) || ('id' as keyof typeof table)
@@ -71,9 +125,19 @@ export const createPostgresService = createService<PostgresDb>(
 
 		const {
 			withOpts,
+			selectedFields,
+			validateCursorSelect,
+			withCursor,
+			keysetValues,
 			parseFilterExpression,
+			withScope,
+			execute,
 			handleQueries,
 			handleOneQuery,
+			handleAggregate,
+			handleStream,
+			handleForEachChunk,
+			upsertConflict,
 			conditionsFromCriteria,
 		} = createFilters<T, D>({
 			table,
@@ -82,6 +146,8 @@ export const createPostgresService = createService<PostgresDb>(
 			soft,
 			defaultLimit,
 			maxLimit,
+			id,
+			scope: tenancy.scope,
 		})
 
 		// Helper function to convert Promise-based hooks to Effect-based hooks
@@ -95,12 +161,104 @@ export const createPostgresService = createService<PostgresDb>(
 			return batches
 		}
 
+		// Postgres types of the VALUES list, serial types only exist in column
+		// definitions and enum types are quoted identifiers, qualified by their schema
+		function valueType(column: Column): SQL {
+			if (is(column, PgArray)) return sql`${valueType(column.baseColumn)}[]`
+			if (is(column, PgEnumColumn) || is(column, PgEnumObjectColumn)) {
+				const { enumName, schema } = column.enum
+				return schema
+					? sql`${sql.identifier(schema)}.${sql.identifier(enumName)}`
+					: sql`${sql.identifier(enumName)}`
+			}
+			return sql.raw(
+				column
+					.getSQLType()
+					.replace(/^(small|big)?serial$/, (_, size) =>
+						size ? `${size}int` : 'integer',
+					),
+			)
+		}
+
+		// A failed statement aborts a postgres transaction, the savepoint keeps it usable
+		function savepoint<R>(write: (client: D) => Promise<R>): Promise<R> {
+			if (is(db, PgTransaction)) {
+				return db.transaction((tx) => write(tx as unknown as D))
+			}
+			return write(db)
+		}
+
+		// Updates the rows of a batch in one statement joined with a VALUES list of the changes
+		function updateBatch(
+			client: D,
+			batch: Array<{ id: unknown; changes: object }>,
+			fields: string[],
+			scope: SQL | undefined,
+		) {
+			const columns = getTableColumns(table) as Record<string, Column>
+			const idColumn = table[getIdField()] as unknown as Column
+			const value = (input: unknown, column: Column) =>
+				sql`cast(${sql.param(input, column)} as ${valueType(column)})`
+			const rows = batch.map(
+				(item) =>
+					sql`(${sql.join(
+						[
+							value(item.id, idColumn),
+							...fields.map((field) =>
+								value(
+									(item.changes as Record<string, unknown>)[field],
+									columns[field] as Column,
+								),
+							),
+						],
+						sql`, `,
+					)})`,
+			)
+			const names = [idColumn, ...fields.map((field) => columns[field])].map(
+				(column) => sql.identifier((column as Column).name),
+			)
+
+			return client
+				.update(table)
+				.set({
+					...Object.fromEntries(
+						fields.map((field) => [
+							field,
+							sql`v.${sql.identifier((columns[field] as Column).name)}`,
+						]),
+					),
+					updatedAt: new Date(),
+					...versionControl.next(),
+				})
+				.from(
+					sql`(values ${sql.join(rows, sql`, `)}) as v(${sql.join(names, sql`, `)})`,
+				)
+				.where(
+					and(eq(idColumn, sql`v.${sql.identifier(idColumn.name)}`), scope),
+				)
+				.returning()
+		}
+
 		// ===============================
 		// 🚀 REPOSITORY IMPLEMENTATION
 		// ===============================
 
 		// @ts-ignore
-		const createBaseQuery = () => db.select().from(table).$dynamic()
+		const selectAll = () => db.select().from(table).$dynamic()
+		// Projected queries keep the type of the full select, the query options narrow the result
+		const createBaseQuery = (
+			opts: Parameters<typeof selectedFields>[0] = {},
+		): ReturnType<typeof selectAll> => {
+			const fields = selectedFields(opts)
+			if (!fields) return selectAll()
+			return (
+				db
+					.select(fields as never)
+					// @ts-ignore
+					.from(table)
+					.$dynamic() as unknown as ReturnType<typeof selectAll>
+			)
+		}
 
 		// ===============================
 		// 🚀 QUERY OPERATIONS
@@ -109,13 +267,22 @@ export const createPostgresService = createService<PostgresDb>(
 		const _queryOperations: QueryOperations<T, D, O> = {
 			find: <
 				TRels extends WithRelations[] = [],
+				TInclude extends WithRelationsRecursive<T, D> = never,
+				TSelect extends SelectFields<T, TRels> = never,
 				TResult = TRels['length'] extends 0
 					? T['$inferSelect'][]
 					: RelationType<T, TRels>[],
 			>(
-				opts: QueryOpts<T, TResult, TRels> = {} as QueryOpts<T, TResult, TRels>,
+				opts: QueryOpts<
+					T,
+					TResult,
+					TRels,
+					D,
+					TInclude,
+					TSelect
+				> = {} as QueryOpts<T, TResult, TRels, D, TInclude, TSelect>,
 			) => {
-				return handleError(handleQueries(createBaseQuery(), opts))
+				return handleError(handleQueries(createBaseQuery(opts), opts))
 			},
 			findFirst: <
 				TRels extends WithRelations[] = [],
@@ -126,7 +293,7 @@ export const createPostgresService = createService<PostgresDb>(
 				opts = {},
 			): Promise<TResult | null> => {
 				return handleError(
-					handleOneQuery(createBaseQuery(), opts, {
+					handleOneQuery(createBaseQuery(opts), opts, {
 						beforeParse(q) {
 							return q.limit(1)
 						},
@@ -141,16 +308,18 @@ export const createPostgresService = createService<PostgresDb>(
 			},
 			findOne: <
 				TRels extends WithRelations[] = [],
+				TInclude extends WithRelationsRecursive<T, D> = never,
+				TSelect extends SelectFields<T, TRels> = never,
 				TResult = TRels['length'] extends 0
 					? T['$inferSelect']
 					: RelationType<T, TRels>,
 			>(
 				id: IdType<T, O>,
-				opts: FindOneOpts<T, TResult, TRels> = {},
+				opts: FindOneOpts<T, TResult, TRels, D, TInclude, TSelect> = {},
 			) => {
 				const hasRelations = opts.relations && opts.relations.length > 0
 				return handleError(
-					handleOneQuery(createBaseQuery(), opts, {
+					handleOneQuery(createBaseQuery(opts), opts, {
 						beforeParse(q) {
 							const query = q.where(eq(table[getIdField()] as SQLWrapper, id))
 							if (hasRelations) return query
@@ -169,18 +338,71 @@ export const createPostgresService = createService<PostgresDb>(
 
 			findWithCursor: <
 				TRels extends WithRelations[] = [],
+				TInclude extends WithRelationsRecursive<T, D> = never,
+				TSelect extends SelectFields<T, TRels> = never,
 				TResult = TRels['length'] extends 0
 					? PaginationResult<T['$inferSelect']>
 					: RelationType<T, TRels>[],
 			>(
-				opts: QueryOpts<T, TResult, TRels>,
+				opts: QueryOpts<T, TResult, TRels, D, TInclude, TSelect>,
 			) => {
 				return handleError(
 					Effect.gen(function* () {
-						const { parse, ...queryOpts } = opts
-						let data = yield* tryEffect(
-							async () => await withOpts(createBaseQuery(), queryOpts),
+						const {
+							parse,
+							cursor,
+							orderBy,
+							page: _page,
+							limit: _limit,
+							...queryOpts
+						} = opts
+						const token = cursor ? decodeCursor(cursor) : null
+						if (cursor && !token) {
+							return yield* createValidationError('Invalid cursor', 'cursor')
+						}
+						yield* validateCursorSelect(queryOpts.select, orderBy)
+						const backward = token?.direction === 'prev'
+						const pageSize = Math.min(opts.limit || defaultLimit, maxLimit)
+
+						// One extra row tells whether there is another page in this direction
+						const scoped = yield* withScope(
+							withOpts(createBaseQuery(queryOpts), queryOpts),
+						)
+						const rows = yield* execute(
+							withCursor(scoped, { orderBy, cursor: token }).limit(
+								pageSize + 1,
+							),
+							queryOpts.include,
 						)
+						const hasMore = rows.length > pageSize
+						const data = rows.slice(0, pageSize)
+						if (backward) data.reverse()
+
+						// Joined rows are keyed by table name
+						const records = (
+							queryOpts.relations?.length
+								? data.map(
+										(row) => (row as Record<string, unknown>)[entityName],
+									)
+								: data
+						) as T['$inferSelect'][]
+						const first = records[0]
+						const last = records.at(-1)
+						const nextCursor =
+							last && (backward || hasMore)
+								? encodeCursor({
+										values: keysetValues(last, orderBy),
+										direction: 'next',
+									})
+								: null
+						const prevCursor =
+							first && (backward ? hasMore : !!token)
+								? encodeCursor({
+										values: keysetValues(first, orderBy),
+										direction: 'prev',
+									})
+								: null
+
 						// Create a new object without relations for count query
 						const { relations: _, ...countOpts } = queryOpts
 						const totalCount = yield* tryEffect(async () =>
@@ -190,29 +412,24 @@ export const createPostgresService = createService<PostgresDb>(
 							),
 						)
 
-						// Apply custom parse function if provided
-						if (parse) {
-							data = parse(data) as unknown as typeof data
-						}
-
-						const pageSize = Math.min(opts.limit || defaultLimit, maxLimit)
-						const page = Math.max(0, (opts.page || 1) - 1)
-
 						return {
-							items: data,
-							nextCursor:
-								data.length > 0
-									? (data[data.length - 1]?.createdAt ?? null)
-									: null,
+							items: parse
+								? parse(
+										data as IncludeResult<T, D, TInclude, TSelect>[] &
+											RelationType<T, TRels>[],
+									)
+								: data,
+							nextCursor,
+							prevCursor,
 							pagination: {
-								page: page + 1,
+								page: opts.page || 1,
 								pageSize,
 								total: totalCount,
-								hasNext: (page + 1) * pageSize < totalCount,
-								hasPrev: page > 0,
+								hasNext: nextCursor !== null,
+								hasPrev: prevCursor !== null,
 							},
 						} as unknown as PaginationResult<
-							TResult extends T['$inferSelect'][] ? T['$inferSelect'] : TResult
+							TResult extends readonly (infer R)[] ? R : TResult
 						>
 					}),
 				)
@@ -223,7 +440,7 @@ export const createPostgresService = createService<PostgresDb>(
 				opts: QueryOpts<T, number, TRels> = {} as QueryOpts<T, number, TRels>,
 			) => {
 				return handleError(
-					tryEffect(async () => {
+					Effect.gen(function* () {
 						//@ts-ignore
 						let query = db.select({ count: count() }).from(table).$dynamic()
 
@@ -237,7 +454,8 @@ export const createPostgresService = createService<PostgresDb>(
 							)
 							query = query.where(and(...conditions))
 						}
-						const [result] = await query.limit(1)
+						const scoped = yield* withScope(query)
+						const [result] = yield* tryEffect(async () => await scoped.limit(1))
 						if (!result) return 0
 
 						return result.count || 0
@@ -245,18 +463,44 @@ export const createPostgresService = createService<PostgresDb>(
 				)
 			},
 
+			aggregate: <const TFields extends AggregateFields<T>>(
+				opts: TFields & AggregateOpts<T, TFields>,
+			) => {
+				return handleError(handleAggregate(opts))
+			},
+
+			stream: <TSelect extends SelectFields<T> = never>(
+				opts: StreamOpts<T, TSelect> = {},
+			) => {
+				return handleStream(opts, opts.chunkSize ?? batchSize)
+			},
+
+			forEachChunk: <TSelect extends SelectFields<T> = never>(
+				criteria: CriteriaFilter<T>,
+				size: number,
+				fn: ChunkHandler<T, D, TSelect>,
+				opts: Omit<StreamOpts<T, TSelect>, 'chunkSize'> = {},
+			) => {
+				return handleForEachChunk(criteria, size, fn, opts)
+			},
+
 			findBy: <
 				TRels extends WithRelations[] = [],
+				TInclude extends WithRelationsRecursive<T, D> = never,
+				TSelect extends SelectFields<T, TRels> = never,
 				TResult = TRels['length'] extends 0
 					? T['$inferSelect'][]
 					: RelationType<T, TRels>[],
 			>(
 				criteria: CriteriaFilter<T>,
-				opts: FindByQueryOpts<T, TResult, TRels> = {} as FindByQueryOpts<
+				opts: FindByQueryOpts<
 					T,
 					TResult,
-					TRels
-				>,
+					TRels,
+					D,
+					TInclude,
+					TSelect
+				> = {} as FindByQueryOpts<T, TResult, TRels, D, TInclude, TSelect>,
 			) => {
 				const conditions = conditionsFromCriteria(
 					criteria,
@@ -266,26 +510,35 @@ export const createPostgresService = createService<PostgresDb>(
 				const { where: custom, ...restOpts } = opts
 				if (custom) conditions.push(custom)
 				return handleError(
-					handleQueries<TResult, TRels>(createBaseQuery(), restOpts, {
-						beforeParse(q) {
-							return q.where(and(...conditions))
+					handleQueries<TResult, TRels, TInclude, TSelect>(
+						createBaseQuery(restOpts),
+						restOpts,
+						{
+							beforeParse(q) {
+								return q.where(and(...conditions))
+							},
 						},
-					}),
+					),
 				)
 			},
 
 			findByMatching: <
 				TRels extends WithRelations[] = [],
+				TInclude extends WithRelationsRecursive<T, D> = never,
+				TSelect extends SelectFields<T, TRels> = never,
 				TResult = TRels['length'] extends 0
 					? T['$inferSelect'][]
 					: RelationType<T, TRels>[],
 			>(
 				criteria: CriteriaFilter<T>,
-				opts: FindByQueryOpts<T, TResult, TRels> = {} as FindByQueryOpts<
+				opts: FindByQueryOpts<
 					T,
 					TResult,
-					TRels
-				>,
+					TRels,
+					D,
+					TInclude,
+					TSelect
+				> = {} as FindByQueryOpts<T, TResult, TRels, D, TInclude, TSelect>,
 			) => {
 				const conditions = conditionsFromCriteria(
 					criteria,
@@ -296,22 +549,35 @@ export const createPostgresService = createService<PostgresDb>(
 				const { where: custom, ...restOpts } = opts
 
 				return handleError(
-					handleQueries<TResult, TRels>(createBaseQuery(), restOpts, {
-						beforeParse(q) {
-							if (custom) return q.where(and(or(...conditions), custom))
-							return q.where(or(...conditions))
+					handleQueries<TResult, TRels, TInclude, TSelect>(
+						createBaseQuery(restOpts),
+						restOpts,
+						{
+							beforeParse(q) {
+								if (custom) return q.where(and(or(...conditions), custom))
+								return q.where(or(...conditions))
+							},
 						},
-					}),
+					),
 				)
 			},
 			search: <
 				TRels extends WithRelations[] = [],
+				TInclude extends WithRelationsRecursive<T, D> = never,
+				TSelect extends SelectFields<T, TRels> = never,
 				TResult = TRels['length'] extends 0
 					? T['$inferSelect'][]
 					: RelationType<T, TRels>[],
 			>(
 				criteria: FilterCriteria<T>,
-				opts: QueryOpts<T, TResult, TRels> = {} as QueryOpts<T, TResult, TRels>,
+				opts: QueryOpts<
+					T,
+					TResult,
+					TRels,
+					D,
+					TInclude,
+					TSelect
+				> = {} as QueryOpts<T, TResult, TRels, D, TInclude, TSelect>,
 			) => {
 				const filterConditions = Object.entries(criteria)
 					.map(([field, filterExpr]) => {
@@ -324,12 +590,16 @@ export const createPostgresService = createService<PostgresDb>(
 					.filter(Boolean) as SQLWrapper[]
 
 				return handleError(
-					handleQueries<TResult, TRels>(createBaseQuery(), opts, {
-						beforeParse(q) {
-							if (filterConditions.length === 0) return q
-							return q.where(and(...filterConditions))
+					handleQueries<TResult, TRels, TInclude, TSelect>(
+						createBaseQuery(opts),
+						opts,
+						{
+							beforeParse(q) {
+								if (filterConditions.length === 0) return q
+								return q.where(and(...filterConditions))
+							},
 						},
-					}),
+					),
 				)
 			},
 		}
@@ -342,11 +612,11 @@ export const createPostgresService = createService<PostgresDb>(
 			create: (data: T['$inferInsert'], hooks?) => {
 				return tryHandleError(
 					Effect.gen(function* () {
-						const insertData = {
+						const insertData = yield* tenancy.assign({
 							...data,
 							createdAt: new Date(),
 							updatedAt: new Date(),
-						}
+						})
 						yield* executeHooks(hooks, insertData, 'before')
 
 						const result = yield* tryEffect(async () => {
@@ -384,6 +654,7 @@ export const createPostgresService = createService<PostgresDb>(
 				return tryHandleError(
 					Effect.gen(function* () {
 						const idField = getIdField()
+						const scope = yield* tenancy.scope()
 						const entity = yield* tryEffect(
 							async () => await _queryOperations.findOne(id),
 						)
@@ -392,9 +663,22 @@ export const createPostgresService = createService<PostgresDb>(
 							return yield* createNotFoundError(entityName, id)
 						}
 
+						const expectedVersion = hooks?.expectedVersion
+						const conflict = versionControl.conflict(entity, expectedVersion)
+						if (conflict) {
+							return yield* createConflictError(
+								entityName,
+								id,
+								expectedVersion,
+								conflict.current,
+							)
+						}
+
+						yield* tenancy.assign(data, false)
 						const updateData = {
 							...data,
 							updatedAt: new Date(),
+							...versionControl.next(),
 						}
 						yield* executeHooks(hooks as Hooks, updateData, 'before')
 
@@ -402,9 +686,21 @@ export const createPostgresService = createService<PostgresDb>(
 							const data = await db
 								.update(table)
 								.set(updateData)
-								.where(hooks?.custom || eq(table[idField] as SQLWrapper, id))
+								.where(
+									and(
+										hooks?.custom || eq(table[idField] as SQLWrapper, id),
+										versionControl.matches(expectedVersion),
+										scope,
+									),
+								)
 								.returning()
 								.execute()
+							if (
+								data.length === 0 &&
+								versionControl.expects(expectedVersion)
+							) {
+								return null
+							}
 							if (!hooks?.custom) {
 								const result = data[0]
 								if (!result || data.length === 0) {
@@ -415,6 +711,9 @@ export const createPostgresService = createService<PostgresDb>(
 							return data as T['$inferSelect'][]
 						})
 
+						if (result === null) {
+							return yield* createConflictError(entityName, id, expectedVersion)
+						}
 						if (!result) {
 							return yield* createDatabaseError(
 								`Failed to update ${entityName}`,
@@ -439,9 +738,28 @@ export const createPostgresService = createService<PostgresDb>(
 					),
 				)
 			},
-			upsert(data, hooks) {
+			upsert(input, hooks) {
 				return tryHandleError(
 					Effect.gen(function* () {
+						const data = yield* tenancy.assign(input)
+						const idValue = data[getIdField() as keyof T['$inferInsert']]
+						const scope = yield* tenancy.scope()
+						if (scope && idValue !== undefined) {
+							// The row of another tenant is not visible, it must not be overwritten
+							const [foreign] = yield* tryEffect(
+								async () =>
+									await createBaseQuery()
+										.where(
+											and(
+												eq(table[getIdField()] as SQLWrapper, idValue),
+												not(scope),
+											),
+										)
+										.limit(1),
+							)
+							if (foreign)
+								return yield* createNotFoundError(entityName, idValue)
+						}
 						yield* executeHooks(hooks, data, 'before')
 
 						const result = yield* tryEffect(async () => {
@@ -489,9 +807,10 @@ export const createPostgresService = createService<PostgresDb>(
 					),
 				)
 			},
-			findOrCreate(data, hooks) {
+			findOrCreate(input, hooks) {
 				return tryHandleError(
 					Effect.gen(function* () {
+						const data = yield* tenancy.assign(input)
 						yield* executeHooks(hooks, data, 'before')
 						const existing = yield* tryEffect(
 							async () =>
@@ -534,13 +853,16 @@ export const createPostgresService = createService<PostgresDb>(
 				return handleError(
 					Effect.gen(function* () {
 						const idField = getIdField()
+						const scope = yield* tenancy.scope()
 
 						if (!soft)
 							return yield* createDatabaseError(
 								`Soft delete is not enabled for ${entityName}`,
 							)
 
-						const { field, deletedValue } = soft
+						const values = yield* tryEffect(() =>
+							softDelete.deleted(hooks?.reason),
+						)
 						const entity = yield* tryEffect(
 							async () => await _queryOperations.findOne(id),
 						)
@@ -548,22 +870,49 @@ export const createPostgresService = createService<PostgresDb>(
 							return yield* createNotFoundError(entityName, id)
 						}
 
+						const expectedVersion = hooks?.expectedVersion
+						const conflict = versionControl.conflict(entity, expectedVersion)
+						if (conflict) {
+							return yield* createConflictError(
+								entityName,
+								id,
+								expectedVersion,
+								conflict.current,
+							)
+						}
+
 						yield* executeHooks(hooks as Hooks, entity, 'before')
 						const result = yield* tryEffect(async () => {
 							const updated = await db
 								.update(table)
-								.set({ [field]: deletedValue, updatedAt: new Date() } as Record<
-									string,
-									unknown
-								>)
-								.where(hooks?.custom || eq(table[idField] as SQLWrapper, id))
+								.set({
+									...values,
+									updatedAt: new Date(),
+									...versionControl.next(),
+								} as Record<string, unknown>)
+								.where(
+									and(
+										hooks?.custom || eq(table[idField] as SQLWrapper, id),
+										versionControl.matches(expectedVersion),
+										scope,
+									),
+								)
 								.returning()
 								.execute()
 
+							if (
+								updated.length === 0 &&
+								versionControl.expects(expectedVersion)
+							) {
+								return null
+							}
 							if (!hooks?.custom) return updated[0] as T['$inferSelect']
 
 							return updated as T['$inferSelect'][]
 						})
+						if (result === null) {
+							return yield* createConflictError(entityName, id, expectedVersion)
+						}
 
 						yield* executeHooks(hooks as Hooks<true>, result, 'after')
 
@@ -583,6 +932,7 @@ export const createPostgresService = createService<PostgresDb>(
 				return handleError(
 					Effect.gen(function* () {
 						const idField = getIdField()
+						const scope = yield* tenancy.scope()
 						const entity = yield* tryEffect(
 							async () => await _queryOperations.findOne(id),
 						)
@@ -594,7 +944,12 @@ export const createPostgresService = createService<PostgresDb>(
 						const result = yield* tryEffect(async () => {
 							const [deleted] = await db
 								.delete(table)
-								.where(hooks?.custom || eq(table[idField] as SQLWrapper, id))
+								.where(
+									and(
+										hooks?.custom || eq(table[idField] as SQLWrapper, id),
+										scope,
+									),
+								)
 								.returning()
 								.execute()
 
@@ -635,6 +990,17 @@ export const createPostgresService = createService<PostgresDb>(
 							}
 						}
 
+						const expectedVersion = hooks?.expectedVersion
+						const conflict = versionControl.conflict(data, expectedVersion)
+						if (conflict) {
+							return yield* createConflictError(
+								entityName,
+								id,
+								expectedVersion,
+								conflict.current,
+							)
+						}
+
 						yield* executeHooks(hooks, data, 'before')
 
 						const { field, deletedValue, notDeletedValue } = soft
@@ -660,18 +1026,35 @@ export const createPostgresService = createService<PostgresDb>(
 						}
 
 						const idField = getIdField()
-						yield* tryEffect(async () => {
-							await db
+						const scope = yield* tenancy.scope()
+						const restored = yield* tryEffect(async () => {
+							return await db
 								.update(table)
 								.set({
+									...softDelete.restored(),
 									[field]: restoreValue,
 									updatedAt: new Date(),
+									...versionControl.next(),
 								} as Record<string, unknown>)
-								.where(hooks?.custom || eq(table[idField] as SQLWrapper, id))
+								.where(
+									and(
+										hooks?.custom || eq(table[idField] as SQLWrapper, id),
+										versionControl.matches(expectedVersion),
+										scope,
+									),
+								)
+								.returning()
 						})
+						if (
+							restored.length === 0 &&
+							versionControl.expects(expectedVersion)
+						) {
+							return yield* createConflictError(entityName, id, expectedVersion)
+						}
 
 						const restoredData = {
 							...data,
+							...softDelete.restored(),
 							[field]: restoreValue,
 						} as T['$inferSelect']
 
@@ -716,42 +1099,52 @@ export const createPostgresService = createService<PostgresDb>(
 							>
 						}
 
-						const insertData = data.map((item) => ({
-							...item,
-							createdAt: new Date(),
-							updatedAt: new Date(),
-						}))
+						const insertData = yield* Effect.forEach(data, (item) =>
+							tenancy.assign({
+								...item,
+								createdAt: new Date(),
+								updatedAt: new Date(),
+							}),
+						)
 
 						yield* executeHooks(hooks, insertData, 'before')
 
 						const batches = createBatches(insertData, batchSize)
+						const idField = getIdField() as keyof T['$inferInsert']
+
+						for (const [position, batch] of batches.entries()) {
+							const { data: rows, failures } = yield* writeBatch(
+								batch,
+								position * batchSize,
+								(rows) =>
+									tryEffect(async () => {
+										// A failed statement aborts a postgres transaction, the savepoint keeps it usable
+										if (is(db, PgTransaction)) {
+											return await db.transaction((tx) =>
+												tx.insert(table).values(rows).returning(),
+											)
+										}
+										return await db
+											.insert(table)
+											.values(rows)
+											.returning()
+											.execute()
+									}),
+								hooks?.onBatchError,
+							)
 
-						for (const batch of batches) {
-							try {
-								const batchResult = yield* tryEffect(async () => {
-									return await db
-										.insert(table)
-										.values(batch)
-										.returning()
-										.execute()
+							result.data.push(...rows)
+							result.batch.processed += rows.length
+							result.batch.failed += failures.length
+							for (const { index, error } of failures) {
+								result.batch.errors?.push({
+									id: (data[index]?.[idField] ?? `row_${index}`) as IdType<
+										T,
+										O
+									>,
+									error: error.message,
+									index,
 								})
-
-								result.data.push(...batchResult)
-								result.batch.processed += batch.length
-							} catch (error) {
-								result.batch.failed += batch.length
-								// For create operations, we can't easily identify individual failed records
-								// so we mark the entire batch as failed
-								for (let index = 0; index < batch.length; index++) {
-									result.batch.errors?.push({
-										id: `batch_${batches.indexOf(batch)}_item_${index}` as IdType<
-											T,
-											O
-										>,
-										error:
-											error instanceof Error ? error.message : 'Unknown error',
-									})
-								}
 							}
 						}
 
@@ -770,6 +1163,7 @@ export const createPostgresService = createService<PostgresDb>(
 				data: Array<{
 					id: IdType<T, O>
 					changes: Partial<Omit<T['$inferInsert'], 'createdAt' | 'id'>>
+					expectedVersion?: unknown
 				}>,
 				hooks?,
 			) => {
@@ -795,45 +1189,97 @@ export const createPostgresService = createService<PostgresDb>(
 							>
 						}
 
+						yield* Effect.forEach(data, (item) =>
+							tenancy.assign(item.changes, false),
+						)
 						yield* executeHooks(hooks, data, 'before')
 
 						const batches = createBatches(data, batchSize)
 						const idField = getIdField()
+						const scope = yield* tenancy.scope()
 
 						for (const batch of batches) {
-							for (const item of batch) {
-								try {
-									const updated = yield* tryEffect(async () => {
-										const [updated] = await db
-											.update(table)
-											.set({
-												...item.changes,
-												updatedAt: new Date(),
+							const fields = sharedColumns(batch, getTableColumns(table))
+							if (
+								fields &&
+								!batch.some((item) =>
+									versionControl.expects(item.expectedVersion),
+								)
+							) {
+								const written = yield* Effect.either(
+									tryEffect(() =>
+										savepoint((client) =>
+											updateBatch(client, batch, fields, scope),
+										),
+									),
+								)
+								// A failing row fails the whole statement, the rows are then updated one by one
+								if (Either.isRight(written)) {
+									const updated = new Map(
+										written.right.map((row) => [String(row[idField]), row]),
+									)
+									for (const item of batch) {
+										const row = updated.get(String(item.id))
+										if (row) {
+											result.data.push(row)
+											result.batch.processed += 1
+										} else {
+											result.batch.failed += 1
+											result.batch.errors?.push({
+												id: item.id,
+												error: 'Record not found or not updated',
 											})
-											.where(eq(table[idField] as SQLWrapper, item.id))
-											.returning()
+										}
+									}
+									continue
+								}
+							}
 
-										return updated
-									})
+							for (const item of batch) {
+								const written = yield* Effect.either(
+									tryEffect(() =>
+										savepoint(async (client) => {
+											const [updated] = await client
+												.update(table)
+												.set({
+													...item.changes,
+													updatedAt: new Date(),
+													...versionControl.next(),
+												})
+												.where(
+													and(
+														eq(table[idField] as SQLWrapper, item.id),
+														versionControl.matches(item.expectedVersion),
+														scope,
+													),
+												)
+												.returning()
+
+											return updated
+										}),
+									),
+								)
 
-									if (updated) {
-										result.data.push(updated)
-										result.batch.processed += 1
-									} else {
-										result.batch.failed += 1
-										result.batch.errors?.push({
-											id: item.id,
-											error: 'Record not found or not updated',
-										})
-									}
-								} catch (itemError) {
+								if (Either.isLeft(written)) {
 									result.batch.failed += 1
 									result.batch.errors?.push({
 										id: item.id,
-										error:
-											itemError instanceof Error
-												? itemError.message
-												: 'Unknown error',
+										error: written.left.message,
+									})
+								} else if (written.right) {
+									result.data.push(written.right)
+									result.batch.processed += 1
+								} else if (versionControl.expects(item.expectedVersion)) {
+									result.batch.failed += 1
+									result.batch.errors?.push({
+										id: item.id,
+										error: `${entityName} with id ${item.id} was modified by another operation`,
+									})
+								} else {
+									result.batch.failed += 1
+									result.batch.errors?.push({
+										id: item.id,
+										error: 'Record not found or not updated',
 									})
 								}
 							}
@@ -851,6 +1297,122 @@ export const createPostgresService = createService<PostgresDb>(
 				)
 			},
 
+			bulkUpsert: (data: T['$inferInsert'][], opts, hooks?) => {
+				return handleError(
+					Effect.gen(function* () {
+						const result: {
+							batch: BulkOperationResult<T['$inferSelect'][], T>[0]
+							data: BulkOperationResult<T['$inferSelect'][], T>[1]
+						} = {
+							batch: {
+								size: batchSize,
+								processed: 0,
+								failed: 0,
+								inserted: 0,
+								updated: 0,
+								skipped: 0,
+								errors: [],
+							},
+							data: [],
+						}
+
+						if (data.length === 0) {
+							return [result.batch, result.data] as BulkOperationResult<
+								T['$inferSelect'][],
+								T
+							>
+						}
+
+						const upsertData = yield* Effect.forEach(data, (item) =>
+							tenancy.assign({
+								...item,
+								createdAt: new Date(),
+								updatedAt: new Date(),
+							}),
+						)
+						const conflict = yield* upsertConflict(upsertData, opts)
+						// Rows of another tenant are not visible, they are left untouched
+						const scope = yield* tenancy.scope()
+
+						yield* executeHooks(hooks, upsertData, 'before')
+
+						const batches = createBatches(upsertData, batchSize)
+						const idField = getIdField() as keyof T['$inferInsert']
+
+						for (const [position, batch] of batches.entries()) {
+							const { data: rows, failures } = yield* writeBatch(
+								batch,
+								position * batchSize,
+								(rows) =>
+									Effect.gen(function* () {
+										const existing = yield* conflict.existing(rows)
+										const upsert = (client: Pick<typeof db, 'insert'>) => {
+											const insert = client.insert(table).values(rows)
+											return (
+												conflict.set
+													? insert.onConflictDoUpdate({
+															target: conflict.target as IndexColumn[],
+															set: conflict.set,
+															setWhere: scope,
+														})
+													: insert.onConflictDoNothing({
+															target: conflict.target as IndexColumn[],
+														})
+											).returning()
+										}
+										const written = yield* tryEffect(async () => {
+											// A failed statement aborts a postgres transaction, the savepoint keeps it usable
+											if (is(db, PgTransaction)) {
+												return await db.transaction(
+													async (tx) => await upsert(tx),
+												)
+											}
+											return await upsert(db).execute()
+										})
+										return written.map((row) => ({
+											row,
+											updated: existing.has(conflict.keyOf(row)),
+										}))
+									}),
+								hooks?.onBatchError,
+							)
+
+							// Rows left untouched by the conflict are not returned, nor processed
+							const skipped = batch.length - rows.length - failures.length
+							for (const { row, updated } of rows) {
+								if (updated) {
+									result.batch.updated = (result.batch.updated ?? 0) + 1
+								} else {
+									result.batch.inserted = (result.batch.inserted ?? 0) + 1
+								}
+								result.data.push(row)
+							}
+							result.batch.processed += rows.length
+							result.batch.skipped = (result.batch.skipped ?? 0) + skipped
+							result.batch.failed += failures.length
+							for (const { index, error } of failures) {
+								result.batch.errors?.push({
+									id: (data[index]?.[idField] ?? `row_${index}`) as IdType<
+										T,
+										O
+									>,
+									error: error.message,
+									index,
+								})
+							}
+						}
+
+						yield* executeHooks(hooks, result.data, 'after')
+						return [result.batch, result.data] as BulkOperationResult<
+							T['$inferSelect'][],
+							T
+						>
+					}).pipe(
+						Effect.catchAll((error) => handleOptionalErrorHook(error, hooks)),
+					),
+				)
+			},
+
 			bulkDelete: (ids: IdType<T, O>[], hooks?) => {
 				return handleError(
 					Effect.gen(function* () {
@@ -904,15 +1466,19 @@ export const createPostgresService = createService<PostgresDb>(
 							yield* executeHooks(hooks, ids, 'before')
 						}
 
+						const values = yield* tryEffect(() =>
+							softDelete.deleted(hooks?.reason),
+						)
 						const batches = createBatches(ids, batchSize)
 						const idField = getIdField()
+						const scope = yield* tenancy.scope()
 
 						for (const batch of batches) {
 							try {
 								// First, check which entities exist and are not already deleted
 								const existingData = yield* tryEffect(async () => {
 									return await createBaseQuery().where(
-										inArray(table[idField] as SQLWrapper, batch),
+										and(inArray(table[idField] as SQLWrapper, batch), scope),
 									)
 								})
 
@@ -941,10 +1507,16 @@ export const createPostgresService = createService<PostgresDb>(
 									return await db
 										.update(table)
 										.set({
-											[soft.field]: soft.deletedValue,
+											...values,
 											updatedAt: new Date(),
+											...versionControl.next(),
 										} as Partial<T['$inferInsert']>)
-										.where(inArray(table[idField] as SQLWrapper, validIds))
+										.where(
+											and(
+												inArray(table[idField] as SQLWrapper, validIds),
+												scope,
+											),
+										)
 										.returning()
 								})
 
@@ -1039,13 +1611,14 @@ export const createPostgresService = createService<PostgresDb>(
 
 						const batches = createBatches(ids, batchSize)
 						const idField = getIdField()
+						const scope = yield* tenancy.scope()
 
 						for (const batch of batches) {
 							try {
 								// First, get the entities that will be deleted for hooks
 								const existingData = yield* tryEffect(async () => {
 									return await createBaseQuery().where(
-										inArray(table[idField] as SQLWrapper, batch),
+										and(inArray(table[idField] as SQLWrapper, batch), scope),
 									)
 								})
 
@@ -1065,7 +1638,9 @@ export const createPostgresService = createService<PostgresDb>(
 								yield* tryEffect(async () => {
 									await db
 										.delete(table)
-										.where(inArray(table[idField] as SQLWrapper, batch))
+										.where(
+											and(inArray(table[idField] as SQLWrapper, batch), scope),
+										)
 								})
 
 								result.batch.processed += existingData.length
@@ -1177,6 +1752,7 @@ export const createPostgresService = createService<PostgresDb>(
 
 					const batches = createBatches(ids, batchSize)
 					const idField = getIdField()
+					const scope = yield* tenancy.scope()
 
 					for (const batch of batches) {
 						try {
@@ -1185,6 +1761,7 @@ export const createPostgresService = createService<PostgresDb>(
 								return await createBaseQuery().where(
 									and(
 										inArray(table[idField] as SQLWrapper, batch),
+										scope,
 										eq(
 											table[soft.field as keyof T] as SQLWrapper,
 											soft.deletedValue,
@@ -1221,10 +1798,14 @@ export const createPostgresService = createService<PostgresDb>(
 								return await db
 									.update(table)
 									.set({
+										...softDelete.restored(),
 										[soft.field]: restoreValue,
 										updatedAt: new Date(),
+										...versionControl.next(),
 									} as Partial<T['$inferInsert']>)
-									.where(inArray(table[idField] as SQLWrapper, validIds))
+									.where(
+										and(inArray(table[idField] as SQLWrapper, validIds), scope),
+									)
 									.returning()
 							})
 
@@ -1282,6 +1863,85 @@ export const createPostgresService = createService<PostgresDb>(
 					Effect.runPromise,
 				)
 			},
+			purgeDeleted: ({ olderThan }) => {
+				return handleError(
+					Effect.gen(function* () {
+						const cutoff =
+							olderThan instanceof Date
+								? olderThan
+								: new Date(Date.now() - olderThan)
+						const condition = softDelete.deletedBefore(cutoff)
+						if (!condition) {
+							return yield* createValidationError(
+								`purgeDeleted requires the deletedAtField of the soft delete option of ${entityName}`,
+								'soft',
+							)
+						}
+
+						const batch: BulkOperationResult<
+							{ readonly success: boolean; readonly message?: string },
+							T
+						>[0] = {
+							size: batchSize,
+							processed: 0,
+							failed: 0,
+							errors: [],
+						}
+						const idField = getIdField()
+						const scope = yield* tenancy.scope()
+
+						// Purged rows no longer match, every batch reads the next tombstones
+						let found = batchSize
+						while (found === batchSize) {
+							const rows = yield* tryEffect(async () => {
+								return await createBaseQuery()
+									.where(and(condition, scope))
+									.limit(batchSize)
+							})
+							found = rows.length
+							if (found === 0) break
+
+							const ids = rows.map(
+								(row) => row[idField as keyof typeof row] as IdType<T>,
+							)
+							const purged = yield* Effect.either(
+								tryEffect(async () => {
+									return await db
+										.delete(table)
+										.where(
+											and(
+												inArray(table[idField] as SQLWrapper, ids),
+												condition,
+												scope,
+											),
+										)
+										.returning()
+								}),
+							)
+							if (Either.isLeft(purged)) {
+								batch.failed += ids.length
+								for (const id of ids) {
+									batch.errors?.push({ id, error: purged.left.message })
+								}
+								break
+							}
+							// Rows restored since they were read are no longer purged
+							batch.processed += purged.right.length
+						}
+
+						return [
+							batch,
+							{
+								success: batch.failed === 0,
+								message: `Purged ${batch.processed} soft deleted records`,
+							},
+						] as BulkOperationResult<
+							{ readonly success: boolean; readonly message?: string },
+							T
+						>
+					}),
+				)
+			},
 		}
 
 		const baseMethods: ServiceMethods<T, D, O> = {
@@ -1323,22 +1983,136 @@ export const createPostgresService = createService<PostgresDb>(
 			},
 		}
 
-		const baseService = {
-			...baseMethods,
-			...(override ? override(baseMethods) : {}),
-		}
+		// Transaction copies notify the listeners of this service
+		const txOpts = shareEmitter(opts, emitter)
+		const bindTransaction = (tx: D) =>
+			createPostgresService(tx, table, txOpts) as Service<T, D, O> & O
+
+		const baseService = withTransactionOption(
+			db,
+			withAuditTransaction(
+				withPlugins(
+					withEvents(
+						withCache(
+							withAudit(
+								withValidation(
+									{
+										...baseMethods,
+										...(override ? override(baseMethods) : {}),
+									},
+									validate,
+									getIdField(),
+								),
+								{
+									entityName,
+									idField: getIdField(),
+									audit,
+									write: (entries) =>
+										db
+											.insert(audit?.table as AuditTable & PgTable)
+											.values(entries),
+								},
+							),
+							{
+								db,
+								entityName,
+								cache,
+								render: (condition) =>
+									createBaseQuery().where(condition).toSQL(),
+								readThrough: !is(db, PgTransaction),
+								partition: tenant
+									? () => Effect.runPromise(tenancy.values())
+									: undefined,
+							},
+						),
+						{ db, emitter, idField: getIdField() },
+					),
+					plugins,
+					{ entityName, table },
+				),
+				{
+					db,
+					audit,
+					bound: is(db, PgTransaction),
+					bind: (tx) => bindTransaction(tx as D),
+				},
+			),
+			(tx) => bindTransaction(tx as D),
+		)
 
 		const repository: Service<T, D> = {
-			...baseService,
+			...withNestedWrites(baseService, {
+				db,
+				table,
+				entityName,
+				idField: getIdField(),
+				relations,
+			}),
 			_,
 			entityName: entityName,
+			idField: getIdField() as string,
+			soft,
 			db,
 			entity: table,
+			transaction: (fn) =>
+				runTransaction(db, (tx) => fn(bindTransaction(tx as D))),
+			withTransaction: (tx) => bindTransaction(tx as D),
+			on: emitter.on,
+			off: emitter.off,
+			history: (entityId) => {
+				if (!audit) {
+					return handleError(
+						createValidationError(
+							`Audit log is not configured for ${entityName}`,
+							'audit',
+						),
+					)
+				}
+				const log = audit.table
+				return handleError(
+					Effect.gen(function* () {
+						const scope = yield* tenancy.scope()
+						if (scope) {
+							// The history of a row of another tenant is not visible
+							const [visible] = yield* tryEffect(
+								async () =>
+									await createBaseQuery()
+										.where(
+											and(
+												eq(table[getIdField()] as SQLWrapper, entityId),
+												scope,
+											),
+										)
+										.limit(1),
+							)
+							if (!visible)
+								return yield* createNotFoundError(entityName, entityId)
+						}
+						return yield* tryEffect(async () => {
+							const entries = await db
+								.select()
+								.from(log as AuditTable & PgTable)
+								.where(
+									and(
+										eq(log.entityName, entityName),
+										eq(log.entityId, String(entityId)),
+									),
+								)
+								.orderBy(asc(log.createdAt), asc(log.id))
+							return entries as unknown as AuditEntry[]
+						})
+					}),
+				)
+			},
 		}
 
-		return {
-			...repository,
-			...rest,
-		} as Service<T, D, O> & O
+		return extendService(
+			{
+				...repository,
+				...rest,
+			} as Service<T, D, O> & O,
+			plugins,
+			{ entityName, table },
+		)
 	},
 )
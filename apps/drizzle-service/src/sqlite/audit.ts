@@ -0,0 +1,27 @@
+import type { AuditChanges, AuditOperation } from '@builder/types'
+import { index, sqliteTable } from 'drizzle-orm/sqlite-core'
+
+/**
+ * Creates the table used by the `audit` service option
+ * @example export const auditLog = auditTable('audit_log')
+ */
+export function auditTable<TName extends string = 'audit_log'>(
+	name: TName = 'audit_log' as TName,
+) {
+	return sqliteTable(
+		name,
+		(t) => ({
+			id: t.integer().primaryKey({ autoIncrement: true }),
+			entityName: t.text('entity_name').notNull(),
+			entityId: t.text('entity_id').notNull(),
+			operation: t.text().$type<AuditOperation>().notNull(),
+			actor: t.text(),
+			changes: t.text({ mode: 'json' }).$type<AuditChanges>().notNull(),
+			createdAt: t
+				.integer('created_at', { mode: 'timestamp_ms' })
+				.$defaultFn(() => new Date())
+				.notNull(),
+		}),
+		(t) => [index(`${name}_entity_idx`).on(t.entityName, t.entityId)],
+	)
+}
@@ -1,38 +1,72 @@
+import { withAudit, withAuditTransaction } from '@builder/audit'
+import { sharedColumns, writeBatch } from '@builder/batch'
+import { withCache } from '@builder/cache'
+import { createConcurrency } from '@builder/concurrency'
+import { decodeCursor, encodeCursor } from '@builder/cursor'
+import { serviceEmitter, shareEmitter, withEvents } from '@builder/events'
 import { createFilters } from '@builder/filters'
+import { withNestedWrites } from '@builder/nested'
+import { extendService, withPlugins } from '@builder/plugins'
+import { createSoftDelete } from '@builder/soft'
+import { createTenancy } from '@builder/tenant'
+import { runTransaction, withTransactionOption } from '@builder/transaction'
 import type {
+	AggregateFields,
+	AggregateOpts,
+	AuditEntry,
+	AuditTable,
 	BulkOperationResult,
+	ChunkHandler,
 	CriteriaFilter,
 	ExtendedServiceHooks,
 	FilterCriteria,
 	FindByQueryOpts,
 	FindOneOpts,
 	IdType,
+	IncludeResult,
 	MutationOperations,
 	MutationsBulkOperations,
 	PaginationResult,
 	QueryOperations,
 	QueryOpts,
 	RelationType,
+	SelectFields,
 	Service,
 	ServiceMethods,
 	SQLiteDb,
+	StreamOpts,
 	WithRelations,
+	WithRelationsRecursive,
 } from '@builder/types'
+import { withValidation } from '@builder/validation'
 import {
 	and,
+	asc,
+	type Column,
 	count,
 	eq,
+	getTableColumns,
 	getTableName,
 	inArray,
+	is,
+	not,
 	or,
+	type SQL,
 	type SQLWrapper,
+	sql,
 } from 'drizzle-orm'
-import type { IndexColumn } from 'drizzle-orm/sqlite-core'
-import { Effect } from 'effect'
+import {
+	type IndexColumn,
+	type SQLiteTable,
+	SQLiteTransaction,
+} from 'drizzle-orm/sqlite-core'
+import { Effect, Either } from 'effect'
 import { createService, sqliteIlike } from '@/builder'
 import {
+	createConflictError,
 	createDatabaseError,
 	createNotFoundError,
+	createValidationError,
 	executeHooks,
 	handleError,
 	handleOptionalErrorHook,
@@ -60,9 +94,22 @@ export const createSqliteService = createService<SQLiteDb>(
 			override,
 			soft,
 			id,
+			validate,
+			audit,
+			concurrency,
+			cache,
+			tenant,
+			relations,
+			onEventError,
+			plugins,
 			...rest
 		} = opts || {}
 		const entityName = getTableName(table)
+		const emitter = serviceEmitter(opts, entityName, onEventError)
+		const tenancy = createTenancy(table, tenant)
+		const versionControl = createConcurrency(table, concurrency)
+
+		const softDelete = createSoftDelete(table, soft, audit?.actor)
 
 		function getIdField(): keyof typeof table {
 			return (id as keyof typeof table) || ('id' as keyof typeof table)
@@ -70,9 +117,19 @@ export const createSqliteService = createService<SQLiteDb>(
 
 		const {
 			withOpts,
+			selectedFields,
+			validateCursorSelect,
+			withCursor,
+			keysetValues,
 			parseFilterExpression,
+			withScope,
+			execute,
 			handleQueries,
 			handleOneQuery,
+			handleAggregate,
+			handleStream,
+			handleForEachChunk,
+			upsertConflict,
 			conditionsFromCriteria,
 		} = createFilters<T, D>({
 			table,
@@ -80,7 +137,9 @@ export const createSqliteService = createService<SQLiteDb>(
 			soft,
 			defaultLimit,
 			maxLimit,
+			id,
 			handleILike: sqliteIlike,
+			scope: tenancy.scope,
 		})
 
 		// Helper function to split array into batches
@@ -92,12 +151,65 @@ export const createSqliteService = createService<SQLiteDb>(
 			return batches
 		}
 
+		// Updates the rows of a batch in one statement, every column picks the value of the row by id
+		function updateBatch(
+			batch: Array<{ id: unknown; changes: object }>,
+			fields: string[],
+			scope: SQL | undefined,
+		) {
+			const columns = getTableColumns(table) as Record<string, Column>
+			const idColumn = table[getIdField()] as unknown as Column
+			const cases = (field: string) =>
+				sql`case ${idColumn} ${sql.join(
+					batch.map(
+						(item) =>
+							sql`when ${sql.param(item.id, idColumn)} then ${sql.param(
+								(item.changes as Record<string, unknown>)[field],
+								columns[field],
+							)}`,
+					),
+					sql` `,
+				)} end`
+
+			return db
+				.update(table)
+				.set({
+					...Object.fromEntries(fields.map((field) => [field, cases(field)])),
+					updatedAt: new Date(),
+					...versionControl.next(),
+				})
+				.where(
+					and(
+						inArray(
+							idColumn,
+							batch.map((item) => item.id),
+						),
+						scope,
+					),
+				)
+				.returning()
+		}
+
 		// ===============================
 		// 🚀 REPOSITORY IMPLEMENTATION
 		// ===============================
 
 		// @ts-ignore
-		const createBaseQuery = () => db.select().from(table).$dynamic()
+		const selectAll = () => db.select().from(table).$dynamic()
+		// Projected queries keep the type of the full select, the query options narrow the result
+		const createBaseQuery = (
+			opts: Parameters<typeof selectedFields>[0] = {},
+		): ReturnType<typeof selectAll> => {
+			const fields = selectedFields(opts)
+			if (!fields) return selectAll()
+			return (
+				db
+					.select(fields as never)
+					// @ts-ignore
+					.from(table)
+					.$dynamic() as unknown as ReturnType<typeof selectAll>
+			)
+		}
 
 		// ===============================
 		// 🚀 QUERY OPERATIONS
@@ -106,13 +218,22 @@ export const createSqliteService = createService<SQLiteDb>(
 		const _queryOperations: QueryOperations<T, D, O> = {
 			find: <
 				TRels extends WithRelations[] = [],
+				TInclude extends WithRelationsRecursive<T, D> = never,
+				TSelect extends SelectFields<T, TRels> = never,
 				TResult = TRels['length'] extends 0
 					? T['$inferSelect'][]
 					: RelationType<T, TRels>[],
 			>(
-				opts: QueryOpts<T, TResult, TRels> = {} as QueryOpts<T, TResult, TRels>,
+				opts: QueryOpts<
+					T,
+					TResult,
+					TRels,
+					D,
+					TInclude,
+					TSelect
+				> = {} as QueryOpts<T, TResult, TRels, D, TInclude, TSelect>,
 			) => {
-				return handleError(handleQueries(createBaseQuery(), opts))
+				return handleError(handleQueries(createBaseQuery(opts), opts))
 			},
 			findFirst: <
 				TRels extends WithRelations[] = [],
@@ -123,7 +244,7 @@ export const createSqliteService = createService<SQLiteDb>(
 				opts = {},
 			): Promise<TResult | null> => {
 				return handleError(
-					handleOneQuery(createBaseQuery(), opts, {
+					handleOneQuery(createBaseQuery(opts), opts, {
 						beforeParse(q) {
 							return q.limit(1)
 						},
@@ -138,16 +259,18 @@ export const createSqliteService = createService<SQLiteDb>(
 			},
 			findOne: <
 				TRels extends WithRelations[] = [],
+				TInclude extends WithRelationsRecursive<T, D> = never,
+				TSelect extends SelectFields<T, TRels> = never,
 				TResult = TRels['length'] extends 0
 					? T['$inferSelect']
 					: RelationType<T, TRels>,
 			>(
 				id: IdType<T, O>,
-				opts: FindOneOpts<T, TResult, TRels> = {},
+				opts: FindOneOpts<T, TResult, TRels, D, TInclude, TSelect> = {},
 			) => {
 				const hasRelations = opts.relations && opts.relations.length > 0
 				return handleError(
-					handleOneQuery(createBaseQuery(), opts, {
+					handleOneQuery(createBaseQuery(opts), opts, {
 						beforeParse(q) {
 							const query = q.where(eq(table[getIdField()] as SQLWrapper, id))
 							if (hasRelations) return query
@@ -166,18 +289,71 @@ export const createSqliteService = createService<SQLiteDb>(
 
 			findWithCursor: <
 				TRels extends WithRelations[] = [],
+				TInclude extends WithRelationsRecursive<T, D> = never,
+				TSelect extends SelectFields<T, TRels> = never,
 				TResult = TRels['length'] extends 0
 					? T['$inferSelect'][]
 					: RelationType<T, TRels>[],
 			>(
-				opts: QueryOpts<T, TResult, TRels>,
+				opts: QueryOpts<T, TResult, TRels, D, TInclude, TSelect>,
 			) => {
 				return handleError(
 					Effect.gen(function* () {
-						const { parse, ...queryOpts } = opts
-						let data = yield* tryEffect(
-							async () => await withOpts(createBaseQuery(), queryOpts),
+						const {
+							parse,
+							cursor,
+							orderBy,
+							page: _page,
+							limit: _limit,
+							...queryOpts
+						} = opts
+						const token = cursor ? decodeCursor(cursor) : null
+						if (cursor && !token) {
+							return yield* createValidationError('Invalid cursor', 'cursor')
+						}
+						yield* validateCursorSelect(queryOpts.select, orderBy)
+						const backward = token?.direction === 'prev'
+						const pageSize = Math.min(opts.limit || defaultLimit, maxLimit)
+
+						// One extra row tells whether there is another page in this direction
+						const scoped = yield* withScope(
+							withOpts(createBaseQuery(queryOpts), queryOpts),
+						)
+						const rows = yield* execute(
+							withCursor(scoped, { orderBy, cursor: token }).limit(
+								pageSize + 1,
+							),
+							queryOpts.include,
 						)
+						const hasMore = rows.length > pageSize
+						const data = rows.slice(0, pageSize)
+						if (backward) data.reverse()
+
+						// Joined rows are keyed by table name
+						const records = (
+							queryOpts.relations?.length
+								? data.map(
+										(row) => (row as Record<string, unknown>)[entityName],
+									)
+								: data
+						) as T['$inferSelect'][]
+						const first = records[0]
+						const last = records.at(-1)
+						const nextCursor =
+							last && (backward || hasMore)
+								? encodeCursor({
+										values: keysetValues(last, orderBy),
+										direction: 'next',
+									})
+								: null
+						const prevCursor =
+							first && (backward ? hasMore : !!token)
+								? encodeCursor({
+										values: keysetValues(first, orderBy),
+										direction: 'prev',
+									})
+								: null
+
 						// Create a new object without relations for count query
 						const { relations: _, ...countOpts } = queryOpts
 						const totalCount = yield* tryEffect(async () =>
@@ -187,33 +363,24 @@ export const createSqliteService = createService<SQLiteDb>(
 							),
 						)
 
-						// Apply custom parse function if provided
-						if (parse) {
-							data = parse(
-								opts.relations && opts.relations.length > 0
-									? (data as RelationType<T, TRels>[])
-									: (data as T['$inferSelect'][]),
-							) as unknown as typeof data
-						}
-
-						const pageSize = Math.min(opts.limit || defaultLimit, maxLimit)
-						const page = Math.max(0, (opts.page || 1) - 1)
-
 						return {
-							items: data,
-							nextCursor:
-								data.length > 0
-									? (data[data.length - 1]?.createdAt ?? null)
-									: null,
+							items: parse
+								? parse(
+										data as IncludeResult<T, D, TInclude, TSelect>[] &
+											RelationType<T, TRels>[],
+									)
+								: data,
+							nextCursor,
+							prevCursor,
 							pagination: {
-								page: page + 1,
+								page: opts.page || 1,
 								pageSize,
 								total: totalCount,
-								hasNext: (page + 1) * pageSize < totalCount,
-								hasPrev: page > 0,
+								hasNext: nextCursor !== null,
+								hasPrev: prevCursor !== null,
 							},
 						} as unknown as PaginationResult<
-							TResult extends T['$inferSelect'][] ? T['$inferSelect'] : TResult
+							TResult extends readonly (infer R)[] ? R : TResult
 						>
 					}),
 				)
@@ -224,7 +391,7 @@ export const createSqliteService = createService<SQLiteDb>(
 				opts: QueryOpts<T, number, TRels> = {} as QueryOpts<T, number, TRels>,
 			) => {
 				return handleError(
-					tryEffect(async () => {
+					Effect.gen(function* () {
 						//@ts-ignore
 						let query = db.select({ count: count() }).from(table).$dynamic()
 
@@ -238,7 +405,8 @@ export const createSqliteService = createService<SQLiteDb>(
 							)
 							query = query.where(and(...conditions))
 						}
-						const [result] = await query.limit(1)
+						const scoped = yield* withScope(query)
+						const [result] = yield* tryEffect(async () => await scoped.limit(1))
 						if (!result) return 0
 
 						return result.count || 0
@@ -246,18 +414,44 @@ export const createSqliteService = createService<SQLiteDb>(
 				)
 			},
 
+			aggregate: <const TFields extends AggregateFields<T>>(
+				opts: TFields & AggregateOpts<T, TFields>,
+			) => {
+				return handleError(handleAggregate(opts))
+			},
+
+			stream: <TSelect extends SelectFields<T> = never>(
+				opts: StreamOpts<T, TSelect> = {},
+			) => {
+				return handleStream(opts, opts.chunkSize ?? batchSize)
+			},
+
+			forEachChunk: <TSelect extends SelectFields<T> = never>(
+				criteria: CriteriaFilter<T>,
+				size: number,
+				fn: ChunkHandler<T, D, TSelect>,
+				opts: Omit<StreamOpts<T, TSelect>, 'chunkSize'> = {},
+			) => {
+				return handleForEachChunk(criteria, size, fn, opts)
+			},
+
 			findBy: <
 				TRels extends WithRelations[] = [],
+				TInclude extends WithRelationsRecursive<T, D> = never,
+				TSelect extends SelectFields<T, TRels> = never,
 				TResult = TRels['length'] extends 0
 					? T['$inferSelect'][]
 					: RelationType<T, TRels>[],
 			>(
 				criteria: CriteriaFilter<T>,
-				opts: FindByQueryOpts<T, TResult, TRels> = {} as FindByQueryOpts<
+				opts: FindByQueryOpts<
 					T,
 					TResult,
-					TRels
-				>,
+					TRels,
+					D,
+					TInclude,
+					TSelect
+				> = {} as FindByQueryOpts<T, TResult, TRels, D, TInclude, TSelect>,
 			) => {
 				const conditions = conditionsFromCriteria(
 					criteria,
@@ -270,26 +464,35 @@ export const createSqliteService = createService<SQLiteDb>(
 					conditions.push(custom)
 				}
 				return handleError(
-					handleQueries<TResult, TRels>(createBaseQuery(), restOpts, {
-						beforeParse(q) {
-							return q.where(and(...conditions))
+					handleQueries<TResult, TRels, TInclude, TSelect>(
+						createBaseQuery(restOpts),
+						restOpts,
+						{
+							beforeParse(q) {
+								return q.where(and(...conditions))
+							},
 						},
-					}),
+					),
 				)
 			},
 
 			findByMatching: <
 				TRels extends WithRelations[] = [],
+				TInclude extends WithRelationsRecursive<T, D> = never,
+				TSelect extends SelectFields<T, TRels> = never,
 				TResult = TRels['length'] extends 0
 					? T['$inferSelect'][]
 					: RelationType<T, TRels>[],
 			>(
 				criteria: CriteriaFilter<T>,
-				opts: FindByQueryOpts<T, TResult, TRels> = {} as FindByQueryOpts<
+				opts: FindByQueryOpts<
 					T,
 					TResult,
-					TRels
-				>,
+					TRels,
+					D,
+					TInclude,
+					TSelect
+				> = {} as FindByQueryOpts<T, TResult, TRels, D, TInclude, TSelect>,
 			) => {
 				const conditions = conditionsFromCriteria(
 					criteria,
@@ -300,22 +503,35 @@ export const createSqliteService = createService<SQLiteDb>(
 				const { where: custom, ...restOpts } = opts
 
 				return handleError(
-					handleQueries<TResult, TRels>(createBaseQuery(), restOpts, {
-						beforeParse(q) {
-							if (custom) return q.where(and(or(...conditions), custom))
-							return q.where(or(...conditions))
+					handleQueries<TResult, TRels, TInclude, TSelect>(
+						createBaseQuery(restOpts),
+						restOpts,
+						{
+							beforeParse(q) {
+								if (custom) return q.where(and(or(...conditions), custom))
+								return q.where(or(...conditions))
+							},
 						},
-					}),
+					),
 				)
 			},
 			search: <
 				TRels extends WithRelations[] = [],
+				TInclude extends WithRelationsRecursive<T, D> = never,
+				TSelect extends SelectFields<T, TRels> = never,
 				TResult = TRels['length'] extends 0
 					? T['$inferSelect'][]
 					: RelationType<T, TRels>[],
 			>(
 				criteria: FilterCriteria<T>,
-				opts: QueryOpts<T, TResult, TRels> = {} as QueryOpts<T, TResult, TRels>,
+				opts: QueryOpts<
+					T,
+					TResult,
+					TRels,
+					D,
+					TInclude,
+					TSelect
+				> = {} as QueryOpts<T, TResult, TRels, D, TInclude, TSelect>,
 			) => {
 				const filterConditions = Object.entries(criteria)
 					.map(([field, filterExpr]) => {
@@ -328,12 +544,16 @@ export const createSqliteService = createService<SQLiteDb>(
 					.filter(Boolean) as SQLWrapper[]
 
 				return handleError(
-					handleQueries<TResult, TRels>(createBaseQuery(), opts, {
-						beforeParse(q) {
-							if (filterConditions.length === 0) return q
-							return q.where(and(...filterConditions))
+					handleQueries<TResult, TRels, TInclude, TSelect>(
+						createBaseQuery(opts),
+						opts,
+						{
+							beforeParse(q) {
+								if (filterConditions.length === 0) return q
+								return q.where(and(...filterConditions))
+							},
 						},
-					}),
+					),
 				)
 			},
 		}
@@ -346,11 +566,11 @@ export const createSqliteService = createService<SQLiteDb>(
 			create: (data: T['$inferInsert'], hooks) => {
 				return tryHandleError(
 					Effect.gen(function* () {
-						const insertData = {
+						const insertData = yield* tenancy.assign({
 							...data,
 							createdAt: new Date(),
 							updatedAt: new Date(),
-						}
+						})
 						yield* executeHooks(hooks, insertData, 'before')
 
 						const result = yield* tryEffect(async () => {
@@ -388,15 +608,29 @@ export const createSqliteService = createService<SQLiteDb>(
 				return tryHandleError(
 					Effect.gen(function* () {
 						const idField = getIdField()
+						const scope = yield* tenancy.scope()
 						const entity = yield* tryEffect(
 							async () => await _queryOperations.findOne(id),
 						)
 
 						if (!entity) return yield* createNotFoundError(entityName, id)
 
+						const expectedVersion = hooks?.expectedVersion
+						const conflict = versionControl.conflict(entity, expectedVersion)
+						if (conflict) {
+							return yield* createConflictError(
+								entityName,
+								id,
+								expectedVersion,
+								conflict.current,
+							)
+						}
+
+						yield* tenancy.assign(data, false)
 						const updateData = {
 							...data,
 							updatedAt: new Date(),
+							...versionControl.next(),
 						}
 						yield* executeHooks(hooks as Hooks, updateData, 'before')
 
@@ -404,9 +638,21 @@ export const createSqliteService = createService<SQLiteDb>(
 							const data = await db
 								.update(table)
 								.set(updateData)
-								.where(hooks?.custom || eq(table[idField] as SQLWrapper, id))
+								.where(
+									and(
+										hooks?.custom || eq(table[idField] as SQLWrapper, id),
+										versionControl.matches(expectedVersion),
+										scope,
+									),
+								)
 								.returning()
 								.execute()
+							if (
+								data.length === 0 &&
+								versionControl.expects(expectedVersion)
+							) {
+								return null
+							}
 							if (!hooks?.custom) {
 								const result = data[0]
 								if (!result || data.length === 0) {
@@ -417,6 +663,9 @@ export const createSqliteService = createService<SQLiteDb>(
 							return data as T['$inferSelect'][]
 						})
 
+						if (result === null) {
+							return yield* createConflictError(entityName, id, expectedVersion)
+						}
 						if (!result) {
 							return yield* createDatabaseError(
 								`Failed to update ${entityName}`,
@@ -442,9 +691,28 @@ export const createSqliteService = createService<SQLiteDb>(
 					),
 				)
 			},
-			upsert(data, hooks) {
+			upsert(input, hooks) {
 				return tryHandleError(
 					Effect.gen(function* () {
+						const data = yield* tenancy.assign(input)
+						const idValue = data[getIdField() as keyof T['$inferInsert']]
+						const scope = yield* tenancy.scope()
+						if (scope && idValue !== undefined) {
+							// The row of another tenant is not visible, it must not be overwritten
+							const [foreign] = yield* tryEffect(
+								async () =>
+									await createBaseQuery()
+										.where(
+											and(
+												eq(table[getIdField()] as SQLWrapper, idValue),
+												not(scope),
+											),
+										)
+										.limit(1),
+							)
+							if (foreign)
+								return yield* createNotFoundError(entityName, idValue)
+						}
 						yield* executeHooks(hooks, data, 'before')
 
 						const result = yield* tryEffect(async () => {
@@ -492,9 +760,10 @@ export const createSqliteService = createService<SQLiteDb>(
 					),
 				)
 			},
-			findOrCreate(data, hooks) {
+			findOrCreate(input, hooks) {
 				return tryHandleError(
 					Effect.gen(function* () {
+						const data = yield* tenancy.assign(input)
 						yield* executeHooks(hooks, data, 'before')
 						const existing = yield* tryEffect(
 							async () =>
@@ -539,13 +808,16 @@ export const createSqliteService = createService<SQLiteDb>(
 				return handleError(
 					Effect.gen(function* () {
 						const idField = getIdField()
+						const scope = yield* tenancy.scope()
 
 						if (!soft)
 							return yield* createDatabaseError(
 								`Soft delete is not enabled for ${entityName}`,
 							)
 
-						const { field, deletedValue } = soft
+						const values = yield* tryEffect(() =>
+							softDelete.deleted(hooks?.reason),
+						)
 						const entity = yield* tryEffect(
 							async () => await _queryOperations.findOne(id),
 						)
@@ -553,18 +825,42 @@ export const createSqliteService = createService<SQLiteDb>(
 							return yield* createNotFoundError(entityName, id)
 						}
 
+						const expectedVersion = hooks?.expectedVersion
+						const conflict = versionControl.conflict(entity, expectedVersion)
+						if (conflict) {
+							return yield* createConflictError(
+								entityName,
+								id,
+								expectedVersion,
+								conflict.current,
+							)
+						}
+
 						yield* executeHooks(hooks, entity, 'before')
 						const result = yield* tryEffect(async () => {
 							const updated = await db
 								.update(table)
-								.set({ [field]: deletedValue, updatedAt: new Date() } as Record<
-									string,
-									unknown
-								>)
-								.where(hooks?.custom || eq(table[idField] as SQLWrapper, id))
+								.set({
+									...values,
+									updatedAt: new Date(),
+									...versionControl.next(),
+								} as Record<string, unknown>)
+								.where(
+									and(
+										hooks?.custom || eq(table[idField] as SQLWrapper, id),
+										versionControl.matches(expectedVersion),
+										scope,
+									),
+								)
 								.returning()
 								.execute()
 
+							if (
+								updated.length === 0 &&
+								versionControl.expects(expectedVersion)
+							) {
+								return null
+							}
 							if (updated.length === 0) {
 								return new Error(
 									`Failed to soft delete ${entityName} with id ${id}`,
@@ -573,6 +869,9 @@ export const createSqliteService = createService<SQLiteDb>(
 
 							return updated[0] as T['$inferSelect']
 						})
+						if (result === null) {
+							return yield* createConflictError(entityName, id, expectedVersion)
+						}
 
 						yield* executeHooks(hooks, result, 'after')
 
@@ -590,6 +889,7 @@ export const createSqliteService = createService<SQLiteDb>(
 				return handleError(
 					Effect.gen(function* () {
 						const idField = getIdField()
+						const scope = yield* tenancy.scope()
 						const entity = yield* tryEffect(
 							async () => await _queryOperations.findOne(id),
 						)
@@ -601,7 +901,12 @@ export const createSqliteService = createService<SQLiteDb>(
 						const result = yield* tryEffect(async () => {
 							const [deleted] = await db
 								.delete(table)
-								.where(hooks?.custom || eq(table[idField] as SQLWrapper, id))
+								.where(
+									and(
+										hooks?.custom || eq(table[idField] as SQLWrapper, id),
+										scope,
+									),
+								)
 								.returning()
 								.execute()
 
@@ -642,6 +947,17 @@ export const createSqliteService = createService<SQLiteDb>(
 							}
 						}
 
+						const expectedVersion = hooks?.expectedVersion
+						const conflict = versionControl.conflict(data, expectedVersion)
+						if (conflict) {
+							return yield* createConflictError(
+								entityName,
+								id,
+								expectedVersion,
+								conflict.current,
+							)
+						}
+
 						yield* executeHooks(hooks, data, 'before')
 
 						const { field, deletedValue, notDeletedValue } = soft
@@ -667,18 +983,35 @@ export const createSqliteService = createService<SQLiteDb>(
 						}
 
 						const idField = getIdField()
-						yield* tryEffect(async () => {
-							await db
+						const scope = yield* tenancy.scope()
+						const restored = yield* tryEffect(async () => {
+							return await db
 								.update(table)
 								.set({
+									...softDelete.restored(),
 									[field]: restoreValue,
 									updatedAt: new Date(),
+									...versionControl.next(),
 								} as Record<string, unknown>)
-								.where(hooks?.custom || eq(table[idField] as SQLWrapper, id))
+								.where(
+									and(
+										hooks?.custom || eq(table[idField] as SQLWrapper, id),
+										versionControl.matches(expectedVersion),
+										scope,
+									),
+								)
+								.returning()
 						})
+						if (
+							restored.length === 0 &&
+							versionControl.expects(expectedVersion)
+						) {
+							return yield* createConflictError(entityName, id, expectedVersion)
+						}
 
 						const restoredData = {
 							...data,
+							...softDelete.restored(),
 							[field]: restoreValue,
 						} as T['$inferSelect']
 
@@ -723,42 +1056,46 @@ export const createSqliteService = createService<SQLiteDb>(
 							>
 						}
 
-						const insertData = data.map((item) => ({
-							...item,
-							createdAt: new Date(),
-							updatedAt: new Date(),
-						}))
+						const insertData = yield* Effect.forEach(data, (item) =>
+							tenancy.assign({
+								...item,
+								createdAt: new Date(),
+								updatedAt: new Date(),
+							}),
+						)
 
 						yield* executeHooks(hooks, insertData, 'before')
 
 						const batches = createBatches(insertData, batchSize)
+						const idField = getIdField() as keyof T['$inferInsert']
+
+						for (const [position, batch] of batches.entries()) {
+							const { data: rows, failures } = yield* writeBatch(
+								batch,
+								position * batchSize,
+								(rows) =>
+									tryEffect(async () => {
+										return await db
+											.insert(table)
+											.values(rows)
+											.returning()
+											.execute()
+									}),
+								hooks?.onBatchError,
+							)
 
-						for (const batch of batches) {
-							try {
-								const batchResult = yield* tryEffect(async () => {
-									return await db
-										.insert(table)
-										.values(batch)
-										.returning()
-										.execute()
+							result.data.push(...rows)
+							result.batch.processed += rows.length
+							result.batch.failed += failures.length
+							for (const { index, error } of failures) {
+								result.batch.errors?.push({
+									id: (data[index]?.[idField] ?? `row_${index}`) as IdType<
+										T,
+										O
+									>,
+									error: error.message,
+									index,
 								})
-
-								result.data.push(...batchResult)
-								result.batch.processed += batch.length
-							} catch (error) {
-								result.batch.failed += batch.length
-								// For create operations, we can't easily identify individual failed records
-								// so we mark the entire batch as failed
-								for (let index = 0; index < batch.length; index++) {
-									result.batch.errors?.push({
-										id: `batch_${batches.indexOf(batch)}_item_${index}` as IdType<
-											T,
-											O
-										>,
-										error:
-											error instanceof Error ? error.message : 'Unknown error',
-									})
-								}
 							}
 						}
 
@@ -777,6 +1114,7 @@ export const createSqliteService = createService<SQLiteDb>(
 				data: Array<{
 					id: IdType<T, O>
 					changes: Partial<Omit<T['$inferInsert'], 'createdAt' | 'id'>>
+					expectedVersion?: unknown
 				}>,
 				hooks?,
 			) => {
@@ -802,45 +1140,94 @@ export const createSqliteService = createService<SQLiteDb>(
 							>
 						}
 
+						yield* Effect.forEach(data, (item) =>
+							tenancy.assign(item.changes, false),
+						)
 						yield* executeHooks(hooks, data, 'before')
 
 						const batches = createBatches(data, batchSize)
 						const idField = getIdField()
+						const scope = yield* tenancy.scope()
 
 						for (const batch of batches) {
+							const fields = sharedColumns(batch, getTableColumns(table))
+							if (
+								fields &&
+								!batch.some((item) =>
+									versionControl.expects(item.expectedVersion),
+								)
+							) {
+								const written = yield* Effect.either(
+									tryEffect(() => updateBatch(batch, fields, scope)),
+								)
+								// A failing row fails the whole statement, the rows are then updated one by one
+								if (Either.isRight(written)) {
+									const updated = new Map(
+										written.right.map((row) => [
+											String(row[idField as string]),
+											row,
+										]),
+									)
+									for (const item of batch) {
+										const row = updated.get(String(item.id))
+										if (row) {
+											result.data.push(row)
+											result.batch.processed += 1
+										} else {
+											result.batch.failed += 1
+											result.batch.errors?.push({
+												id: item.id,
+												error: 'Record not found or not updated',
+											})
+										}
+									}
+									continue
+								}
+							}
+
 							for (const item of batch) {
-								try {
-									const updated = yield* tryEffect(async () => {
+								const written = yield* Effect.either(
+									tryEffect(async () => {
 										const [updated] = await db
 											.update(table)
 											.set({
 												...item.changes,
 												updatedAt: new Date(),
+												...versionControl.next(),
 											})
-											.where(eq(table[idField] as SQLWrapper, item.id))
+											.where(
+												and(
+													eq(table[idField] as SQLWrapper, item.id),
+													versionControl.matches(item.expectedVersion),
+													scope,
+												),
+											)
 											.returning()
 
 										return updated
-									})
+									}),
+								)
 
-									if (updated) {
-										result.data.push(updated)
-										result.batch.processed += 1
-									} else {
-										result.batch.failed += 1
-										result.batch.errors?.push({
-											id: item.id,
-											error: 'Record not found or not updated',
-										})
-									}
-								} catch (itemError) {
+								if (Either.isLeft(written)) {
 									result.batch.failed += 1
 									result.batch.errors?.push({
 										id: item.id,
-										error:
-											itemError instanceof Error
-												? itemError.message
-												: 'Unknown error',
+										error: written.left.message,
+									})
+								} else if (written.right) {
+									result.data.push(written.right)
+									result.batch.processed += 1
+								} else if (versionControl.expects(item.expectedVersion)) {
+									result.batch.failed += 1
+									result.batch.errors?.push({
+										id: item.id,
+										error: `${entityName} with id ${item.id} was modified by another operation`,
+									})
+								} else {
+									result.batch.failed += 1
+									result.batch.errors?.push({
+										id: item.id,
+										error: 'Record not found or not updated',
 									})
 								}
 							}
@@ -858,6 +1245,112 @@ export const createSqliteService = createService<SQLiteDb>(
 				)
 			},
 
+			bulkUpsert: (data: T['$inferInsert'][], opts, hooks?) => {
+				return handleError(
+					Effect.gen(function* () {
+						const result: {
+							batch: BulkOperationResult<T['$inferSelect'][], T>[0]
+							data: BulkOperationResult<T['$inferSelect'][], T>[1]
+						} = {
+							batch: {
+								size: batchSize,
+								processed: 0,
+								failed: 0,
+								inserted: 0,
+								updated: 0,
+								skipped: 0,
+								errors: [],
+							},
+							data: [],
+						}
+
+						if (data.length === 0) {
+							return [result.batch, result.data] as BulkOperationResult<
+								T['$inferSelect'][],
+								T
+							>
+						}
+
+						const upsertData = yield* Effect.forEach(data, (item) =>
+							tenancy.assign({
+								...item,
+								createdAt: new Date(),
+								updatedAt: new Date(),
+							}),
+						)
+						const conflict = yield* upsertConflict(upsertData, opts)
+						// Rows of another tenant are not visible, they are left untouched
+						const scope = yield* tenancy.scope()
+
+						yield* executeHooks(hooks, upsertData, 'before')
+
+						const batches = createBatches(upsertData, batchSize)
+						const idField = getIdField() as keyof T['$inferInsert']
+
+						for (const [position, batch] of batches.entries()) {
+							const { data: rows, failures } = yield* writeBatch(
+								batch,
+								position * batchSize,
+								(rows) =>
+									Effect.gen(function* () {
+										const existing = yield* conflict.existing(rows)
+										const written = yield* tryEffect(async () => {
+											const insert = db.insert(table).values(rows)
+											const query = conflict.set
+												? insert.onConflictDoUpdate({
+														target: conflict.target as IndexColumn[],
+														set: conflict.set,
+														setWhere: scope,
+													})
+												: insert.onConflictDoNothing({
+														target: conflict.target as IndexColumn[],
+													})
+											return await query.returning().execute()
+										})
+										return written.map((row) => ({
+											row,
+											updated: existing.has(conflict.keyOf(row)),
+										}))
+									}),
+								hooks?.onBatchError,
+							)
+
+							// Rows left untouched by the conflict are not returned, nor processed
+							const skipped = batch.length - rows.length - failures.length
+							for (const { row, updated } of rows) {
+								if (updated) {
+									result.batch.updated = (result.batch.updated ?? 0) + 1
+								} else {
+									result.batch.inserted = (result.batch.inserted ?? 0) + 1
+								}
+								result.data.push(row)
+							}
+							result.batch.processed += rows.length
+							result.batch.skipped = (result.batch.skipped ?? 0) + skipped
+							result.batch.failed += failures.length
+							for (const { index, error } of failures) {
+								result.batch.errors?.push({
+									id: (data[index]?.[idField] ?? `row_${index}`) as IdType<
+										T,
+										O
+									>,
+									error: error.message,
+									index,
+								})
+							}
+						}
+
+						yield* executeHooks(hooks, result.data, 'after')
+						return [result.batch, result.data] as BulkOperationResult<
+							T['$inferSelect'][],
+							T
+						>
+					}).pipe(
+						Effect.catchAll((error) => handleOptionalErrorHook(error, hooks)),
+					),
+				)
+			},
+
 			bulkDelete: (ids: IdType<T, O>[], hooks?) => {
 				return handleError(
 					Effect.gen(function* () {
@@ -911,15 +1404,19 @@ export const createSqliteService = createService<SQLiteDb>(
 							yield* executeHooks(hooks, ids, 'before')
 						}
 
+						const values = yield* tryEffect(() =>
+							softDelete.deleted(hooks?.reason),
+						)
 						const batches = createBatches(ids, batchSize)
 						const idField = getIdField()
+						const scope = yield* tenancy.scope()
 
 						for (const batch of batches) {
 							try {
 								// First, check which entities exist and are not already deleted
 								const existingData = yield* tryEffect(async () => {
 									return await createBaseQuery().where(
-										inArray(table[idField] as SQLWrapper, batch),
+										and(inArray(table[idField] as SQLWrapper, batch), scope),
 									)
 								})
 
@@ -948,10 +1445,16 @@ export const createSqliteService = createService<SQLiteDb>(
 									return await db
 										.update(table)
 										.set({
-											[soft.field]: soft.deletedValue,
+											...values,
 											updatedAt: new Date(),
+											...versionControl.next(),
 										} as Partial<T['$inferInsert']>)
-										.where(inArray(table[idField] as SQLWrapper, validIds))
+										.where(
+											and(
+												inArray(table[idField] as SQLWrapper, validIds),
+												scope,
+											),
+										)
 										.returning()
 								})
 
@@ -1046,13 +1549,14 @@ export const createSqliteService = createService<SQLiteDb>(
 
 						const batches = createBatches(ids, batchSize)
 						const idField = getIdField()
+						const scope = yield* tenancy.scope()
 
 						for (const batch of batches) {
 							try {
 								// First, get the entities that will be deleted for hooks
 								const existingData = yield* tryEffect(async () => {
 									return await createBaseQuery().where(
-										inArray(table[idField] as SQLWrapper, batch),
+										and(inArray(table[idField] as SQLWrapper, batch), scope),
 									)
 								})
 
@@ -1072,7 +1576,9 @@ export const createSqliteService = createService<SQLiteDb>(
 								yield* tryEffect(async () => {
 									await db
 										.delete(table)
-										.where(inArray(table[idField] as SQLWrapper, batch))
+										.where(
+											and(inArray(table[idField] as SQLWrapper, batch), scope),
+										)
 								})
 
 								result.batch.processed += existingData.length
@@ -1184,6 +1690,7 @@ export const createSqliteService = createService<SQLiteDb>(
 
 					const batches = createBatches(ids, batchSize)
 					const idField = getIdField()
+					const scope = yield* tenancy.scope()
 
 					for (const batch of batches) {
 						try {
@@ -1192,6 +1699,7 @@ export const createSqliteService = createService<SQLiteDb>(
 								return await createBaseQuery().where(
 									and(
 										inArray(table[idField] as SQLWrapper, batch),
+										scope,
 										eq(
 											table[soft.field as keyof T] as SQLWrapper,
 											soft.deletedValue,
@@ -1228,10 +1736,14 @@ export const createSqliteService = createService<SQLiteDb>(
 								return await db
 									.update(table)
 									.set({
+										...softDelete.restored(),
 										[soft.field]: restoreValue,
 										updatedAt: new Date(),
+										...versionControl.next(),
 									} as Partial<T['$inferInsert']>)
-									.where(inArray(table[idField] as SQLWrapper, validIds))
+									.where(
+										and(inArray(table[idField] as SQLWrapper, validIds), scope),
+									)
 									.returning()
 							})
 
@@ -1289,6 +1801,85 @@ export const createSqliteService = createService<SQLiteDb>(
 					Effect.runPromise,
 				)
 			},
+			purgeDeleted: ({ olderThan }) => {
+				return handleError(
+					Effect.gen(function* () {
+						const cutoff =
+							olderThan instanceof Date
+								? olderThan
+								: new Date(Date.now() - olderThan)
+						const condition = softDelete.deletedBefore(cutoff)
+						if (!condition) {
+							return yield* createValidationError(
+								`purgeDeleted requires the deletedAtField of the soft delete option of ${entityName}`,
+								'soft',
+							)
+						}
+
+						const batch: BulkOperationResult<
+							{ readonly success: boolean; readonly message?: string },
+							T
+						>[0] = {
+							size: batchSize,
+							processed: 0,
+							failed: 0,
+							errors: [],
+						}
+						const idField = getIdField()
+						const scope = yield* tenancy.scope()
+
+						// Purged rows no longer match, every batch reads the next tombstones
+						let found = batchSize
+						while (found === batchSize) {
+							const rows = yield* tryEffect(async () => {
+								return await createBaseQuery()
+									.where(and(condition, scope))
+									.limit(batchSize)
+							})
+							found = rows.length
+							if (found === 0) break
+
+							const ids = rows.map(
+								(row) => row[idField as keyof typeof row] as IdType<T>,
+							)
+							const purged = yield* Effect.either(
+								tryEffect(async () => {
+									return await db
+										.delete(table)
+										.where(
+											and(
+												inArray(table[idField] as SQLWrapper, ids),
+												condition,
+												scope,
+											),
+										)
+										.returning()
+								}),
+							)
+							if (Either.isLeft(purged)) {
+								batch.failed += ids.length
+								for (const id of ids) {
+									batch.errors?.push({ id, error: purged.left.message })
+								}
+								break
+							}
+							// Rows restored since they were read are no longer purged
+							batch.processed += purged.right.length
+						}
+
+						return [
+							batch,
+							{
+								success: batch.failed === 0,
+								message: `Purged ${batch.processed} soft deleted records`,
+							},
+						] as BulkOperationResult<
+							{ readonly success: boolean; readonly message?: string },
+							T
+						>
+					}),
+				)
+			},
 		}
 		const baseMethods: ServiceMethods<T, D, O> = {
 			..._queryOperations,
@@ -1330,22 +1921,136 @@ export const createSqliteService = createService<SQLiteDb>(
 			},
 		}
 
-		const baseService = {
-			...baseMethods,
-			...(override ? override(baseMethods) : {}),
-		}
+		// Transaction copies notify the listeners of this service
+		const txOpts = shareEmitter(opts, emitter)
+		const bindTransaction = (tx: D) =>
+			createSqliteService(tx, table, txOpts) as Service<T, D, O> & O
+
+		const baseService = withTransactionOption(
+			db,
+			withAuditTransaction(
+				withPlugins(
+					withEvents(
+						withCache(
+							withAudit(
+								withValidation(
+									{
+										...baseMethods,
+										...(override ? override(baseMethods) : {}),
+									},
+									validate,
+									getIdField(),
+								),
+								{
+									entityName,
+									idField: getIdField(),
+									audit,
+									write: (entries) =>
+										db
+											.insert(audit?.table as AuditTable & SQLiteTable)
+											.values(entries),
+								},
+							),
+							{
+								db,
+								entityName,
+								cache,
+								render: (condition) =>
+									createBaseQuery().where(condition).toSQL(),
+								readThrough: !is(db, SQLiteTransaction),
+								partition: tenant
+									? () => Effect.runPromise(tenancy.values())
+									: undefined,
+							},
+						),
+						{ db, emitter, idField: getIdField() },
+					),
+					plugins,
+					{ entityName, table },
+				),
+				{
+					db,
+					audit,
+					bound: is(db, SQLiteTransaction),
+					bind: (tx) => bindTransaction(tx as D),
+				},
+			),
+			(tx) => bindTransaction(tx as D),
+		)
 
 		const repository: Service<T, D, O> = {
-			...baseService,
+			...withNestedWrites(baseService, {
+				db,
+				table,
+				entityName,
+				idField: getIdField(),
+				relations,
+			}),
 			_,
 			entityName: entityName,
+			idField: getIdField() as string,
+			soft,
 			db,
 			entity: table,
+			transaction: (fn) =>
+				runTransaction(db, (tx) => fn(bindTransaction(tx as D))),
+			withTransaction: (tx) => bindTransaction(tx as D),
+			on: emitter.on,
+			off: emitter.off,
+			history: (entityId) => {
+				if (!audit) {
+					return handleError(
+						createValidationError(
+							`Audit log is not configured for ${entityName}`,
+							'audit',
+						),
+					)
+				}
+				const log = audit.table
+				return handleError(
+					Effect.gen(function* () {
+						const scope = yield* tenancy.scope()
+						if (scope) {
+							// The history of a row of another tenant is not visible
+							const [visible] = yield* tryEffect(
+								async () =>
+									await createBaseQuery()
+										.where(
+											and(
+												eq(table[getIdField()] as SQLWrapper, entityId),
+												scope,
+											),
+										)
+										.limit(1),
+							)
+							if (!visible)
+								return yield* createNotFoundError(entityName, entityId)
+						}
+						return yield* tryEffect(async () => {
+							const entries = await db
+								.select()
+								.from(log as AuditTable & SQLiteTable)
+								.where(
+									and(
+										eq(log.entityName, entityName),
+										eq(log.entityId, String(entityId)),
+									),
+								)
+								.orderBy(asc(log.createdAt), asc(log.id))
+							return entries as unknown as AuditEntry[]
+						})
+					}),
+				)
+			},
 		}
 
-		return {
-			...repository,
-			...rest,
-		} as Service<T, D, O> & O
+		return extendService(
+			{
+				...repository,
+				...rest,
+			} as Service<T, D, O> & O,
+			plugins,
+			{ entityName, table },
+		)
 	},
 )
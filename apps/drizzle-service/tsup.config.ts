@@ -6,6 +6,7 @@ export default defineConfig({
 		'src/index.ts',
 		'src/pg/index.ts',
 		'src/sqlite/index.ts',
+		'src/mysql/index.ts',
 		'src/builder/index.ts',
 		'src/builder/types.ts',
 		'src/builder/filters.ts',
@@ -0,0 +1,102 @@
+import { beforeAll, describe, expect, it } from 'vitest'
+import { type Item, itemService, mockItem } from './repository'
+import { schema, service } from './schema'
+import { setupBeforeAll } from './setup'
+
+setupBeforeAll()
+
+let existing: Item['query']
+
+beforeAll(async () => {
+	const [, item] = await itemService.create(mockItem())
+	if (!item) throw new Error('Failed to create item')
+	existing = item
+})
+
+// Rows at the given positions reuse the sku of an existing item and fail to insert
+function rows(length: number, failing: number[]) {
+	return Array.from({ length }, (_, index) => ({
+		...mockItem(),
+		...(failing.includes(index) ? { sku: existing.sku } : {}),
+	}))
+}
+
+describe('MYSQL Service: Batch errors', () => {
+	it('should fail every row of the batch by default', async () => {
+		const [batch, data] = await itemService.bulkCreate(rows(4, [2]))
+
+		expect(data).toHaveLength(0)
+		expect(batch.processed).toBe(0)
+		expect(batch.failed).toBe(4)
+		expect(batch.errors?.map((error) => error.index)).toEqual([0, 1, 2, 3])
+		expect(batch.errors?.[0]?.id).toBe('row_0')
+		expect(batch.errors?.[0]?.error).toContain('sku')
+	})
+
+	it('should isolate the failing rows by bisecting the batch', async () => {
+		const input = rows(5, [1, 3])
+
+		const [batch, data] = await itemService.bulkCreate(input, {
+			onBatchError: 'bisect',
+		})
+
+		expect(batch.processed).toBe(3)
+		expect(batch.failed).toBe(2)
+		expect(batch.errors?.map((error) => error.index)).toEqual([1, 3])
+		expect(batch.errors?.every((error) => error.error.includes('sku'))).toBe(
+			true,
+		)
+		expect(data.map((item) => item.sku)).toEqual(
+			[0, 2, 4].map((index) => input[index]?.sku),
+		)
+	})
+
+	it('should retry the rows one by one', async () => {
+		const input = rows(4, [0])
+
+		const [batch, data] = await itemService.bulkCreate(input, {
+			onBatchError: 'row-by-row',
+		})
+
+		expect(batch.processed).toBe(3)
+		expect(batch.errors?.map((error) => error.index)).toEqual([0])
+		expect(
+			await itemService.findBy(
+				{ sku: { $in: data.map((item) => item.sku) } },
+				{ withDeleted: true },
+			),
+		).toHaveLength(3)
+	})
+
+	it('should report the input index across batches', async () => {
+		const batchedService = service(schema.items, { batchSize: 2 })
+
+		const [batch, data] = await batchedService.bulkCreate(rows(5, [3]), {
+			onBatchError: 'bisect',
+		})
+
+		expect(data).toHaveLength(4)
+		expect(batch.errors).toHaveLength(1)
+		expect(batch.errors?.[0]?.index).toBe(3)
+	})
+
+	it('should keep the transaction usable after a failed batch', async () => {
+		const input = rows(3, [1])
+
+		await itemService.transaction(async (txService) => {
+			const [batch] = await txService.bulkCreate(input, {
+				onBatchError: 'row-by-row',
+			})
+			expect(batch.processed).toBe(2)
+
+			const [error] = await txService.create(mockItem())
+			expect(error).toBeNull()
+		})
+
+		const stored = await itemService.findBy(
+			{ sku: { $in: [input[0]?.sku ?? '', input[2]?.sku ?? ''] } },
+			{ withDeleted: true },
+		)
+		expect(stored).toHaveLength(2)
+	})
+})
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest'
+import {
+	itemService,
+	mockItem,
+	mockSaleHeader,
+	mockStore,
+	salesService,
+	storeService,
+} from './repository'
+import { setupBeforeAll } from './setup'
+
+setupBeforeAll()
+
+const createItems = async (length: number) => {
+	const [, items] = await itemService.bulkCreate(
+		Array.from({ length }, () => ({
+			...mockItem(),
+			status: 'ACTIVE' as const,
+		})),
+	)
+	return items
+}
+
+describe('MYSQL Service: Bulk Update', () => {
+	it('should give every row its own values when the changes share columns', async () => {
+		const items = await createItems(3)
+
+		const [batch, data] = await itemService.bulkUpdate(
+			items.map((item, index) => ({
+				id: item.id,
+				changes: { price: 10 + index, status: 'INACTIVE' as const },
+			})),
+		)
+
+		expect(batch).toMatchObject({ processed: 3, failed: 0 })
+		expect(data.map((item) => item.id)).toEqual(items.map((item) => item.id))
+		expect(data.map((item) => item.price)).toEqual([10, 11, 12])
+		expect(data.every((item) => item.status === 'INACTIVE')).toBe(true)
+		for (const [index, item] of data.entries()) {
+			expect(item.name).toBe(items[index]?.name)
+		}
+	})
+
+	it('should report the ids that were not updated', async () => {
+		const items = await createItems(2)
+
+		const [batch, data] = await itemService.bulkUpdate([
+			...items.map((item) => ({ id: item.id, changes: { price: 5 } })),
+			{ id: 'ITM-missing', changes: { price: 5 } },
+		])
+
+		expect(data).toHaveLength(2)
+		expect(batch.processed).toBe(2)
+		expect(batch.failed).toBe(1)
+		expect(batch.errors).toEqual([
+			{ id: 'ITM-missing', error: 'Record not found or not updated' },
+		])
+	})
+
+	it('should update the rows one by one when the changes differ', async () => {
+		const [first, second] = await createItems(2)
+		if (!first || !second) throw new Error('Failed to create items')
+
+		const [batch, data] = await itemService.bulkUpdate([
+			{ id: first.id, changes: { price: 20 } },
+			{ id: second.id, changes: { name: 'Renamed' } },
+		])
+
+		expect(batch.processed).toBe(2)
+		expect(data[0]?.price).toBe(20)
+		expect(data[0]?.name).toBe(first.name)
+		expect(data[1]?.name).toBe('Renamed')
+		expect(data[1]?.price).toBe(second.price)
+	})
+
+	it('should update the rows of a failing batch one by one', async () => {
+		const [taken, ...items] = await createItems(4)
+		if (!taken) throw new Error('Failed to create items')
+		const [batch, data] = await itemService.bulkUpdate(
+			items.map((item, index) => ({
+				id: item.id,
+				changes: { sku: index === 1 ? taken.sku : `${item.sku}-renamed` },
+			})),
+		)
+
+		expect(batch).toMatchObject({ processed: 2, failed: 1 })
+		expect(batch.errors?.map((error) => error.id)).toEqual([items[1]?.id])
+		expect(data.map((item) => item.sku)).toEqual([
+			`${items[0]?.sku}-renamed`,
+			`${items[2]?.sku}-renamed`,
+		])
+	})
+
+	it('should update dates and numeric ids', async () => {
+		const [, stores] = await storeService.bulkCreate([mockStore(), mockStore()])
+		const [, renamed] = await storeService.bulkUpdate(
+			stores.map((store, index) => ({
+				id: store.id,
+				changes: { name: `Store ${index}` },
+			})),
+		)
+		expect(renamed.map((store) => store.name)).toEqual(['Store 0', 'Store 1'])
+
+		const storeId = stores[0]?.id ?? 0
+		const [, sales] = await salesService.bulkCreate([
+			mockSaleHeader(storeId),
+			mockSaleHeader(storeId),
+		])
+		const dates = [new Date('2024-01-01'), new Date('2024-02-01')]
+		const [batch, data] = await salesService.bulkUpdate(
+			sales.map((sale, index) => ({
+				id: sale.id,
+				changes: { postingDate: dates[index] },
+			})),
+		)
+
+		expect(batch.processed).toBe(2)
+		expect(data.map((sale) => sale.postingDate)).toEqual(dates)
+	})
+})
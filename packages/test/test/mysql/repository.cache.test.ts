@@ -0,0 +1,167 @@
+import { eq } from 'drizzle-orm'
+import { createMemoryCache } from 'drizzle-service/mysql'
+import { describe, expect, it, vi } from 'vitest'
+import { mockStore } from './repository'
+import { db, schema, service } from './schema'
+import { setupBeforeAll } from './setup'
+
+setupBeforeAll()
+
+const cachedStoreService = service(schema.stores, {
+	id: 'id',
+	cache: { adapter: createMemoryCache() },
+})
+
+// Writes behind the service back so only a cache miss can see the change
+async function renameDirectly(id: number, name: string) {
+	await db.update(schema.stores).set({ name }).where(eq(schema.stores.id, id))
+}
+
+async function createStore() {
+	const [error, store] = await cachedStoreService.create(mockStore())
+	if (error) throw new Error(`Failed to create store: ${error.message}`)
+	return store
+}
+
+describe('MYSQL Service: Cache', () => {
+	it('should serve repeated reads from the cache', async () => {
+		const store = await createStore()
+
+		const first = await cachedStoreService.findOne(store.id)
+		await renameDirectly(store.id, 'Renamed behind the cache')
+		const second = await cachedStoreService.findOne(store.id)
+		const found = await cachedStoreService.findBy({ id: store.id })
+		await renameDirectly(store.id, 'Renamed again')
+		const foundAgain = await cachedStoreService.findBy({ id: store.id })
+
+		expect(second?.name).toBe(first?.name)
+		expect(foundAgain[0]?.name).toBe(found[0]?.name)
+	})
+
+	it('should key entries by the query options', async () => {
+		const store = await createStore()
+
+		const byId = await cachedStoreService.find({
+			where: eq(schema.stores.id, store.id),
+		})
+		const missing = await cachedStoreService.find({
+			where: eq(schema.stores.id, -1),
+		})
+		expect(byId).toHaveLength(1)
+		expect(missing).toHaveLength(0)
+
+		const total = await cachedStoreService.count()
+		await createStore()
+		expect(await cachedStoreService.count()).toBe(total + 1)
+	})
+
+	it('should invalidate the entity entries after a mutation', async () => {
+		const store = await createStore()
+
+		await cachedStoreService.findOne(store.id)
+		await renameDirectly(store.id, 'Stale name')
+		await cachedStoreService.update(store.id, { location: 'New location' })
+
+		const current = await cachedStoreService.findOne(store.id)
+		expect(current?.name).toBe('Stale name')
+		expect(current?.location).toBe('New location')
+
+		await cachedStoreService.findOne(store.id)
+		await cachedStoreService.bulkHardDelete([store.id])
+		expect(await cachedStoreService.findOne(store.id)).toBeNull()
+	})
+
+	it('should keep the entries when a mutation fails', async () => {
+		const store = await createStore()
+
+		await cachedStoreService.findOne(store.id)
+		await renameDirectly(store.id, 'Not visible yet')
+		const [error] = await cachedStoreService.update(-1, { name: 'Missing' })
+
+		expect(error?._tag).toBe('NotFoundError')
+		const cached = await cachedStoreService.findOne(store.id)
+		expect(cached?.name).toBe(store.name)
+	})
+
+	it('should skip the cache inside a transaction', async () => {
+		const store = await createStore()
+		await cachedStoreService.findOne(store.id)
+		await renameDirectly(store.id, 'Seen by the transaction')
+
+		const name = await cachedStoreService.transaction(async (txService) => {
+			const current = await txService.findOne(store.id)
+			return current?.name
+		})
+
+		expect(name).toBe('Seen by the transaction')
+	})
+
+	it('should invalidate once the transaction commits', async () => {
+		const adapter = createMemoryCache()
+		const invalidate = vi.spyOn(adapter, 'invalidate')
+		const txCachedService = service(schema.stores, {
+			id: 'id',
+			cache: { adapter },
+		})
+		const store = await createStore()
+
+		await txCachedService.transaction(async (txService) => {
+			await txService.update(store.id, { location: 'Committed' })
+			expect(invalidate).not.toHaveBeenCalled()
+		})
+		expect(invalidate).toHaveBeenCalledTimes(1)
+
+		await expect(
+			txCachedService.transaction(async (txService) => {
+				await txService.update(store.id, { location: 'Rolled back' })
+				throw new Error('Rolled back')
+			}),
+		).rejects.toThrow('Rolled back')
+		expect(invalidate).toHaveBeenCalledTimes(1)
+	})
+
+	it('should skip the cache for queries with a parse function', async () => {
+		const store = await createStore()
+		const parse = (stores: { name: string }[]) => stores.map((s) => s.name)
+
+		await cachedStoreService.find({
+			where: eq(schema.stores.id, store.id),
+			parse,
+		})
+		await renameDirectly(store.id, 'Parsed name')
+		const names = await cachedStoreService.find({
+			where: eq(schema.stores.id, store.id),
+			parse,
+		})
+
+		expect(names).toEqual(['Parsed name'])
+	})
+
+	it('should expire entries after the ttl', async () => {
+		const store = await createStore()
+		const shortLivedService = service(schema.stores, {
+			id: 'id',
+			cache: { adapter: createMemoryCache(), ttl: 50 },
+		})
+
+		await shortLivedService.findOne(store.id)
+		await renameDirectly(store.id, 'Expired name')
+		await new Promise((resolve) => setTimeout(resolve, 80))
+
+		const current = await shortLivedService.findOne(store.id)
+		expect(current?.name).toBe('Expired name')
+	})
+
+	it('should evict the least recently used entries', () => {
+		const cache = createMemoryCache({ max: 2 })
+
+		cache.set('stores:a', 1)
+		cache.set('stores:b', 2)
+		cache.get('stores:a')
+		cache.set('stores:c', 3)
+
+		expect(cache.get('stores:a')).toBe(1)
+		expect(cache.get('stores:b')).toBeUndefined()
+		expect(cache.get('stores:c')).toBe(3)
+	})
+})
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest'
+import { mockSaleHeader, mockStore } from './repository'
+import { schema, service } from './schema'
+import { setup, setupBeforeAll } from './setup'
+
+setupBeforeAll()
+
+const versionedSalesService = service(schema.salesHeaders, {
+	soft: {
+		field: 'status',
+		deletedValue: 'CANCELED',
+		notDeletedValue: 'DRAFT',
+	},
+	concurrency: { field: 'version' },
+})
+
+const timestampedStoreService = service(schema.stores, {
+	id: 'id',
+	soft: {
+		field: 'deletedAt',
+		deletedValue: 'NOT_NULL',
+	},
+	concurrency: { field: 'updatedAt' },
+})
+
+async function createSale() {
+	const [error, sale] = await versionedSalesService.create(
+		mockSaleHeader(setup.storesId[0] ?? 1),
+	)
+	if (error) throw new Error(`Failed to create sale: ${error.message}`)
+	return sale
+}
+
+describe('MYSQL Service: Optimistic concurrency', () => {
+	it('should increment the version on every update', async () => {
+		const sale = await createSale()
+		expect(sale.version).toBe(1)
+
+		const [error, updated] = await versionedSalesService.update(
+			sale.id,
+			{ amount: 100 },
+			{ expectedVersion: sale.version },
+		)
+		expect(error).toBeNull()
+		expect(updated?.version).toBe(2)
+
+		const [, unchecked] = await versionedSalesService.update(sale.id, {
+			amount: 200,
+		})
+		expect(unchecked?.version).toBe(3)
+	})
+
+	it('should return a ConflictError when the version is stale', async () => {
+		const sale = await createSale()
+
+		await versionedSalesService.update(
+			sale.id,
+			{ amount: 100 },
+			{ expectedVersion: sale.version },
+		)
+		const [error, updated] = await versionedSalesService.update(
+			sale.id,
+			{ amount: 300 },
+			{ expectedVersion: sale.version },
+		)
+
+		expect(updated).toBeNull()
+		expect(error?._tag).toBe('ConflictError')
+		if (error?._tag !== 'ConflictError') throw new Error('Expected conflict')
+		expect(error.expectedVersion).toBe(1)
+		expect(error.currentVersion).toBe(2)
+		expect(error.code).toBe('VERSION_CONFLICT')
+
+		const current = await versionedSalesService.findOne(sale.id)
+		expect(current?.amount).toBe(100)
+	})
+
+	it('should check the version on delete and restore', async () => {
+		const sale = await createSale()
+
+		await expect(
+			versionedSalesService.delete(sale.id, { expectedVersion: 5 }),
+		).rejects.toThrow('was modified by another operation')
+
+		const deleted = await versionedSalesService.delete(sale.id, {
+			expectedVersion: 1,
+		})
+		expect(deleted.success).toBe(true)
+
+		await expect(
+			versionedSalesService.restore(sale.id, { expectedVersion: 1 }),
+		).rejects.toThrow('was modified by another operation')
+
+		const restored = await versionedSalesService.restore(sale.id, {
+			expectedVersion: 2,
+		})
+		expect(restored.success).toBe(true)
+
+		const current = await versionedSalesService.findOne(sale.id)
+		expect(current?.version).toBe(3)
+		expect(current?.status).toBe('DRAFT')
+	})
+
+	it('should report stale rows of a bulk update', async () => {
+		const first = await createSale()
+		const second = await createSale()
+		await versionedSalesService.update(second.id, { amount: 50 })
+
+		const [batch, data] = await versionedSalesService.bulkUpdate([
+			{ id: first.id, changes: { amount: 10 }, expectedVersion: 1 },
+			{ id: second.id, changes: { amount: 20 }, expectedVersion: 1 },
+		])
+
+		expect(data).toHaveLength(1)
+		expect(data[0]?.version).toBe(2)
+		expect(batch.failed).toBe(1)
+		expect(batch.errors?.[0]?.id).toBe(second.id)
+		expect(batch.errors?.[0]?.error).toContain(
+			'was modified by another operation',
+		)
+	})
+
+	it('should use updatedAt as the version of a row', async () => {
+		const [, store] = await timestampedStoreService.create(mockStore())
+		if (!store?.updatedAt) throw new Error('Failed to create store')
+
+		const [error, updated] = await timestampedStoreService.update(
+			store.id,
+			{ name: 'Renamed store' },
+			{ expectedVersion: store.updatedAt },
+		)
+		expect(error).toBeNull()
+		expect(updated?.updatedAt?.getTime()).toBeGreaterThanOrEqual(
+			store.updatedAt.getTime(),
+		)
+
+		const [conflict] = await timestampedStoreService.update(
+			store.id,
+			{ name: 'Stale store' },
+			{ expectedVersion: new Date(0) },
+		)
+		expect(conflict?._tag).toBe('ConflictError')
+	})
+
+	it('should refuse timestamp versions without fractional seconds', () => {
+		expect(() =>
+			service(schema.items, { concurrency: { field: 'updatedAt' } }),
+		).toThrow('needs { fsp: 3 }')
+	})
+})
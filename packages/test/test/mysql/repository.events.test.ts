@@ -0,0 +1,171 @@
+import { describe, expect, it, vi } from 'vitest'
+import { type Item, mockItem } from './repository'
+import { db, schema, service } from './schema'
+import { setupBeforeAll } from './setup'
+
+setupBeforeAll()
+
+function createItemService() {
+	return service(schema.items, {
+		soft: {
+			field: 'status',
+			deletedValue: 'DISCONTINUED',
+			notDeletedValue: 'ACTIVE',
+		},
+	})
+}
+
+const activeItem = () => ({ ...mockItem(), status: 'ACTIVE' as const })
+
+describe('MYSQL Service: Events', () => {
+	it('should emit the created and updated rows', async () => {
+		const itemService = createItemService()
+		const created: Item['query'][] = []
+		const updated: Item['query'][] = []
+		itemService.on('created', (rows) => {
+			created.push(...rows)
+		})
+		itemService.on('updated', (rows) => {
+			updated.push(...rows)
+		})
+
+		const [, item] = await itemService.create(activeItem())
+		if (!item) throw new Error('Failed to create item')
+		await itemService.update(item.id, { name: 'Renamed item' })
+		await itemService.update('missing-id', { name: 'Missing item' })
+
+		expect(created).toEqual([item])
+		expect(updated).toHaveLength(1)
+		expect(updated[0]?.name).toBe('Renamed item')
+	})
+
+	it('should emit the state of deleted, restored and hard deleted rows', async () => {
+		const itemService = createItemService()
+		const events: [string, string | undefined][] = []
+		for (const event of ['deleted', 'restored', 'hardDeleted'] as const) {
+			itemService.on(event, (rows) => {
+				events.push([event, rows[0]?.status])
+			})
+		}
+
+		const [, item] = await itemService.create(activeItem())
+		if (!item) throw new Error('Failed to create item')
+		await itemService.delete(item.id)
+		await itemService.restore(item.id)
+		await itemService.hardDelete(item.id)
+
+		expect(events).toEqual([
+			['deleted', 'DISCONTINUED'],
+			['restored', 'ACTIVE'],
+			['hardDeleted', 'ACTIVE'],
+		])
+	})
+
+	it('should only emit the rows a bulk mutation changed', async () => {
+		const itemService = createItemService()
+		const bulkCreated = vi.fn()
+		const bulkDeleted = vi.fn()
+		itemService.on('bulkCreated', bulkCreated)
+		itemService.on('bulkDeleted', bulkDeleted)
+
+		const [, items] = await itemService.bulkCreate([activeItem(), activeItem()])
+		const [first, second] = items
+		if (!first || !second) throw new Error('Failed to create items')
+		await itemService.delete(first.id)
+		await itemService.bulkDelete([first.id, second.id])
+
+		expect(bulkCreated).toHaveBeenCalledWith(items)
+		const [deleted] = bulkDeleted.mock.calls[0] ?? []
+		expect(deleted).toHaveLength(1)
+		expect(deleted[0]).toMatchObject({ id: second.id, status: 'DISCONTINUED' })
+	})
+
+	it('should not fail the mutation when a listener fails', async () => {
+		const itemService = createItemService()
+		const logged = vi.spyOn(console, 'error').mockImplementation(() => {})
+		const listener = vi.fn()
+		itemService.on('created', async () => {
+			throw new Error('Index unavailable')
+		})
+		itemService.on('created', listener)
+
+		const [error, item] = await itemService.create(activeItem())
+
+		expect(error).toBeNull()
+		expect(listener).toHaveBeenCalledWith([item])
+		expect(logged).toHaveBeenCalledWith(
+			expect.stringContaining('Index unavailable'),
+		)
+		logged.mockRestore()
+	})
+
+	it('should pass the listener failures to onEventError', async () => {
+		const onEventError = vi.fn()
+		const itemService = service(schema.items, { onEventError })
+		const failure = new Error('Index unavailable')
+		itemService.on('created', async () => {
+			throw failure
+		})
+
+		const [error, item] = await itemService.create(activeItem())
+
+		expect(error).toBeNull()
+		expect(onEventError).toHaveBeenCalledWith(failure, {
+			entityName: 'items',
+			event: 'created',
+			rows: [item],
+		})
+	})
+
+	it('should stop notifying removed handlers', async () => {
+		const itemService = createItemService()
+		const unsubscribed = vi.fn()
+		const removed = vi.fn()
+		const unsubscribe = itemService.on('created', unsubscribed)
+		itemService.on('created', removed)
+
+		unsubscribe()
+		itemService.off('created', removed)
+		await itemService.create(activeItem())
+
+		expect(unsubscribed).not.toHaveBeenCalled()
+		expect(removed).not.toHaveBeenCalled()
+	})
+
+	it('should emit the mutations made inside a transaction', async () => {
+		const itemService = createItemService()
+		const created = vi.fn()
+		itemService.on('created', created)
+
+		await itemService.transaction(async (txService) => {
+			const [error] = await txService.create(activeItem())
+			if (error) throw error
+		})
+		await db.transaction(async (tx) => {
+			const [error] = await itemService.create(activeItem(), { tx })
+			if (error) throw error
+		})
+
+		expect(created).toHaveBeenCalledTimes(2)
+	})
+
+	it('should emit after the commit and drop the events of a rollback', async () => {
+		const itemService = createItemService()
+		const created = vi.fn()
+		itemService.on('created', created)
+
+		await itemService.transaction(async (txService) => {
+			await txService.create(activeItem())
+			expect(created).not.toHaveBeenCalled()
+		})
+		expect(created).toHaveBeenCalledTimes(1)
+
+		await expect(
+			itemService.transaction(async (txService) => {
+				await txService.create(activeItem())
+				throw new Error('Rolled back')
+			}),
+		).rejects.toThrow('Rolled back')
+		expect(created).toHaveBeenCalledTimes(1)
+	})
+})
@@ -0,0 +1,146 @@
+import { sql } from 'drizzle-orm'
+import { beforeAll, describe, expect, it } from 'vitest'
+import {
+	mockStore,
+	type SaleHeader,
+	salesService,
+	storeService,
+} from './repository'
+import { schema } from './schema'
+import { setupBeforeAll } from './setup'
+
+setupBeforeAll()
+
+let storeId = 0
+
+beforeAll(async () => {
+	const [, store] = await storeService.create(mockStore())
+	if (!store) throw new Error('Failed to create store')
+	storeId = store.id
+})
+
+const createSale = () => salesService.mockHeader(storeId)
+
+describe('MYSQL Service: Include', () => {
+	it('should load the included relations of a row', async () => {
+		const sale = await createSale()
+
+		const found = await salesService.findOne(sale.id, {
+			include: { salesLines: true, store: true },
+		})
+
+		expect(found?.id).toBe(sale.id)
+		expect(found?.salesLines).toHaveLength(sale.salesLines.length)
+		expect(found?.salesLines.every((line) => line.documentNo === sale.id)).toBe(
+			true,
+		)
+		expect(found?.store.id).toBe(storeId)
+	})
+
+	it('should load nested relations', async () => {
+		const sale = await createSale()
+
+		const [found] = await salesService.findBy(
+			{ id: sale.id },
+			{ include: { salesLines: { item: true } } },
+		)
+		const lines = found?.salesLines ?? []
+
+		expect(lines).toHaveLength(sale.salesLines.length)
+		for (const line of lines) {
+			expect(line.item.id).toBe(line.itemNo)
+		}
+	})
+
+	it('should keep the filters, order and page of the query', async () => {
+		const first = await createSale()
+		const second = await createSale()
+		const ids = [first.id, second.id]
+
+		const page = await salesService.findBy(
+			{ id: { $in: ids } },
+			{ include: { salesLines: true }, orderBy: { id: 'desc' }, limit: 1 },
+		)
+		expect(page).toHaveLength(1)
+		expect(ids).toContain(page[0]?.id)
+		expect(page[0]?.salesLines.length).toBeGreaterThan(0)
+
+		await salesService.delete(first.id)
+		const active = await salesService.find({ include: { salesLines: true } })
+		const activeIds = active.map((sale) => sale.id)
+		expect(activeIds).toContain(second.id)
+		expect(activeIds).not.toContain(first.id)
+
+		const deleted = await salesService.findOne(first.id, {
+			include: { salesLines: true },
+			withDeleted: true,
+		})
+		expect(deleted?.salesLines.length).toBeGreaterThan(0)
+	})
+
+	it('should include relations in find, findFirst, search and cursor pages', async () => {
+		const sale = await createSale()
+		const include = { salesLines: true } as const
+
+		const all = await salesService.find({ include })
+		expect(all.find((row) => row.id === sale.id)?.salesLines).toHaveLength(
+			sale.salesLines.length,
+		)
+
+		const first = await salesService.findFirst({
+			include,
+			workspace: { field: 'documentNo', value: sale.documentNo },
+		})
+		expect(first?.salesLines).toHaveLength(sale.salesLines.length)
+
+		const searched = await salesService.search(
+			{ documentNo: ['%1', sale.documentNo] },
+			{ include },
+		)
+		expect(searched[0]?.salesLines).toHaveLength(sale.salesLines.length)
+
+		const { items, nextCursor } = await salesService.findWithCursor({
+			include,
+			limit: 1,
+			orderBy: { id: 'asc' },
+		})
+		expect(items).toHaveLength(1)
+		expect(items[0]?.salesLines).toBeInstanceOf(Array)
+		if (nextCursor) {
+			const next = await salesService.findWithCursor({
+				include,
+				limit: 1,
+				orderBy: { id: 'asc' },
+				cursor: nextCursor,
+			})
+			expect(next.items[0]?.id).not.toBe(items[0]?.id)
+		}
+	})
+
+	it('should pass the included shape to parse', async () => {
+		const sale = await createSale()
+
+		const count = await salesService.findOne(sale.id, {
+			include: { salesLines: true },
+			parse: (row: (SaleHeader['query'] & { salesLines: unknown[] }) | null) =>
+				row ? row.salesLines.length : null,
+		})
+
+		expect(count).toBe(sale.salesLines.length)
+	})
+
+	it('should reject include combined with relations', async () => {
+		await expect(
+			salesService.find({
+				include: { salesLines: true },
+				relations: [
+					{
+						type: 'left',
+						table: schema.items,
+						on: sql`true`,
+					},
+				],
+			}),
+		).rejects.toThrow('can not be combined')
+	})
+})
@@ -0,0 +1,187 @@
+import { createMemoryCache } from 'drizzle-service/mysql'
+import { beforeAll, describe, expect, it } from 'vitest'
+import {
+	type Item,
+	itemService,
+	mockItem,
+	mockSaleHeader,
+	mockSaleLine,
+	mockStore,
+	salesLinesService,
+	salesService,
+	storeService,
+} from './repository'
+import { auditLog, schema, service } from './schema'
+import { setupBeforeAll } from './setup'
+
+setupBeforeAll()
+
+let storeId = 0
+let items: Item['query'][] = []
+
+beforeAll(async () => {
+	const [, store] = await storeService.create(mockStore())
+	if (!store) throw new Error('Failed to create store')
+	storeId = store.id
+	const [, created] = await itemService.bulkCreate([mockItem(), mockItem()])
+	items = created
+})
+
+// Sales line without its header, the nested write fills in the document no
+function line(index = 0) {
+	const item = items[index % items.length]
+	if (!item) throw new Error('Missing item')
+	const { documentNo: _, ...rest } = mockSaleLine(
+		{ no: '', type: 'INVOICE' },
+		{ no: item.id, type: item.type, unitPrice: item.price },
+	)
+	return rest
+}
+
+async function createSale(lines = 2) {
+	const [error, sale] = await salesService.create({
+		...mockSaleHeader(storeId),
+		salesLines: { create: Array.from({ length: lines }, (_, i) => line(i)) },
+	})
+	if (error) throw new Error(`Failed to create sale: ${error.message}`)
+	return sale
+}
+
+describe('MYSQL Service: Nested Writes', () => {
+	it('should create the row and its relations and return the graph', async () => {
+		const sale = await createSale()
+
+		expect(sale.salesLines).toHaveLength(2)
+		expect(sale.salesLines.every((row) => row.documentNo === sale.id)).toBe(
+			true,
+		)
+		expect(sale.salesLines.map((row) => row.itemNo).sort()).toEqual(
+			items.map((item) => item.id).sort(),
+		)
+	})
+
+	it('should create, update and delete related rows on update', async () => {
+		const sale = await createSale()
+		const [kept, removed] = sale.salesLines
+		if (!kept || !removed) throw new Error('Missing sales lines')
+
+		const [error, updated] = await salesService.update(sale.id, {
+			amount: 250,
+			salesLines: {
+				create: [line()],
+				update: [{ where: { lineNo: kept.lineNo }, changes: { quantity: 7 } }],
+				delete: [{ lineNo: removed.lineNo }],
+			},
+		})
+
+		expect(error).toBeNull()
+		expect(updated?.amount).toBe(250)
+		expect(updated?.salesLines).toHaveLength(2)
+		const lineNos = updated?.salesLines.map((row) => row.lineNo)
+		expect(lineNos).toContain(kept.lineNo)
+		expect(lineNos).not.toContain(removed.lineNo)
+		expect(
+			updated?.salesLines.find((row) => row.lineNo === kept.lineNo)?.quantity,
+		).toBe(7)
+	})
+
+	it('should only change the related rows of the parent', async () => {
+		const first = await createSale(1)
+		const second = await createSale(1)
+		const item = first.salesLines[0]?.itemNo
+
+		const [error] = await salesService.update(first.id, {
+			salesLines: { delete: [{ itemNo: item }] },
+		})
+
+		expect(error).toBeNull()
+		expect(
+			await salesLinesService.findBy({ documentNo: first.id }),
+		).toHaveLength(0)
+		expect(
+			await salesLinesService.findBy({ documentNo: second.id }),
+		).toHaveLength(1)
+	})
+
+	it('should roll back the row when a related write fails', async () => {
+		const header = mockSaleHeader(storeId)
+		const { description: _, ...invalid } = line()
+
+		const [error, sale] = await salesService.create({
+			...header,
+			salesLines: { create: [line(), invalid] },
+		})
+
+		expect(sale).toBeNull()
+		expect(error?._tag).toBe('NotNullError')
+		expect(
+			await salesService.findBy({ documentNo: header.documentNo }),
+		).toHaveLength(0)
+	})
+
+	it('should reject relations that are not many relations', async () => {
+		const [error] = await salesService.create({
+			...mockSaleHeader(storeId),
+			store: { create: [mockStore()] },
+		} as never)
+
+		expect(error?._tag).toBe('ValidationError')
+		expect(error?.message).toContain('store is not a many relation')
+	})
+
+	it('should need the service of the relation', async () => {
+		const [error] = await service(schema.salesHeaders).create({
+			...mockSaleHeader(storeId),
+			salesLines: { create: [line()] },
+		})
+
+		expect(error?._tag).toBe('ValidationError')
+		expect(error?.message).toContain('salesLines needs its service')
+	})
+
+	it('should write the graph inside an existing transaction', async () => {
+		const header = mockSaleHeader(storeId)
+
+		await expect(
+			salesService.transaction(async (txService) => {
+				const [error, sale] = await txService.create({
+					...header,
+					salesLines: { create: [line()] },
+				})
+				if (error) throw error
+				expect(sale.salesLines).toHaveLength(1)
+				throw new Error('Rollback')
+			}),
+		).rejects.toThrow('Rollback')
+
+		expect(
+			await salesService.findBy({ documentNo: header.documentNo }),
+		).toHaveLength(0)
+	})
+
+	it('should write the children through the service of the relation', async () => {
+		const lines = service(schema.salesLines, {
+			id: 'lineNo',
+			cache: { adapter: createMemoryCache() },
+			audit: { table: auditLog, actor: () => 'nested-writer' },
+		})
+		const sales = service(schema.salesHeaders, {
+			relations: { salesLines: () => lines },
+		})
+		const sale = await createSale(1)
+		expect(await lines.findBy({ documentNo: sale.id })).toHaveLength(1)
+
+		const [error, updated] = await sales.update(sale.id, {
+			salesLines: { create: [line(1)] },
+		})
+		const created = updated?.salesLines.find(
+			(row) => row.lineNo !== sale.salesLines[0]?.lineNo,
+		)
+		if (error || !created) throw new Error('Failed to write the sales line')
+
+		expect(await lines.findBy({ documentNo: sale.id })).toHaveLength(2)
+		const history = await lines.history(created.lineNo)
+		expect(history.map((entry) => entry.operation)).toEqual(['create'])
+		expect(history[0]?.actor).toBe('nested-writer')
+	})
+})
@@ -0,0 +1,100 @@
+import { fromProblemDetails, toProblemDetails } from 'drizzle-service/mysql'
+import { beforeAll, describe, expect, it } from 'vitest'
+import { type Item, itemService, mockItem } from './repository'
+import { setupBeforeAll } from './setup'
+
+setupBeforeAll()
+
+let item: Item['query']
+
+beforeAll(async () => {
+	const [, created] = await itemService.create(mockItem())
+	if (!created) throw new Error('Failed to create item')
+	item = created
+})
+
+async function uniqueViolation() {
+	const [error] = await itemService.create({ ...mockItem(), sku: item.sku })
+	if (!error) throw new Error('Expected an error')
+	return error
+}
+
+describe('MYSQL Service: Problem details', () => {
+	it('should describe a NotFoundError with the entity and id', async () => {
+		const [error] = await itemService.update('ITM-missing', { price: 1 })
+		if (!error) throw new Error('Expected an error')
+
+		expect(toProblemDetails(error, { instance: '/items/ITM-missing' })).toEqual(
+			{
+				type: 'urn:drizzle-service:problem:not-found',
+				title: 'Not found',
+				status: 404,
+				detail: error.message,
+				instance: '/items/ITM-missing',
+				entity: 'items',
+				id: 'ITM-missing',
+			},
+		)
+	})
+
+	it('should strip the driver message of constraint errors', async () => {
+		const error = await uniqueViolation()
+
+		const problem = toProblemDetails(error)
+
+		expect(problem).toMatchObject({
+			type: 'urn:drizzle-service:problem:conflict',
+			status: 409,
+			code: 'UNIQUE_VIOLATION',
+		})
+		expect(problem.detail).toContain('already exists')
+		expect(problem.detail).not.toBe(error.message)
+		expect(problem.column ?? problem.constraint).toContain('sku')
+		expect(problem.stack).toBeUndefined()
+	})
+
+	it('should keep the driver message and stack in debug mode', async () => {
+		const error = await uniqueViolation()
+
+		const problem = toProblemDetails(error, { debug: true })
+
+		expect(problem.detail).toBe(error.message)
+		expect(problem.stack).toBeTypeOf('string')
+	})
+
+	it('should rebuild the error from the serialized problem', async () => {
+		const error = await uniqueViolation()
+		const problem = JSON.parse(JSON.stringify(toProblemDetails(error)))
+
+		const rebuilt = fromProblemDetails(problem)
+
+		expect(rebuilt._tag).toBe('ConflictError')
+		if (rebuilt._tag !== 'ConflictError') throw new Error('Expected conflict')
+		expect(rebuilt.code).toBe('UNIQUE_VIOLATION')
+		expect(rebuilt.message).toBe(problem.detail)
+		expect(rebuilt).toBeInstanceOf(Error)
+	})
+
+	it('should use the type prefix on both sides', async () => {
+		const [error] = await itemService.update('ITM-missing', { price: 1 })
+		if (!error) throw new Error('Expected an error')
+		const typePrefix = 'https://errors.example.com/'
+
+		const problem = toProblemDetails(error, { typePrefix })
+
+		expect(problem.type).toBe('https://errors.example.com/not-found')
+		expect(fromProblemDetails(problem, { typePrefix })._tag).toBe(
+			'NotFoundError',
+		)
+		expect(fromProblemDetails(problem)._tag).toBe('DatabaseError')
+	})
+
+	it('should read a problem without a type as about:blank', () => {
+		const problem = JSON.parse('{"title":"Bad Gateway","status":502}')
+
+		const rebuilt = fromProblemDetails(problem)
+
+		expect(rebuilt._tag).toBe('DatabaseError')
+		expect(rebuilt.message).toBe('Bad Gateway')
+	})
+})
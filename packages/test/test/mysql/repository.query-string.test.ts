@@ -0,0 +1,107 @@
+import { parseQueryString, stringifyQuery } from 'drizzle-service/mysql'
+import { describe, expect, it } from 'vitest'
+import { itemService, mockItem, schema } from './repository'
+import { setupBeforeAll } from './setup'
+
+setupBeforeAll()
+
+describe('MYSQL Service: Query string', () => {
+	it('should read criteria and options', () => {
+		const query = parseQueryString(
+			schema.items,
+			'?price[$gte]=10&price[$lt]=99.5&status[$in]=ACTIVE,INACTIVE&type=ITEM&orderBy=-createdAt,name&page=2&limit=20&withDeleted=true',
+		)
+
+		expect(query).toEqual({
+			criteria: {
+				type: 'ITEM',
+				price: { $gte: 10, $lt: 99.5 },
+				status: { $in: ['ACTIVE', 'INACTIVE'] },
+			},
+			orderBy: { createdAt: 'desc', name: 'asc' },
+			page: 2,
+			limit: 20,
+			withDeleted: true,
+		})
+	})
+
+	it('should convert the values to the column types', () => {
+		const { criteria } = parseQueryString(
+			schema.items,
+			new URLSearchParams({
+				'createdAt[$between]': '2024-01-01,2024-12-31',
+				'name[$contains]': '10',
+			}),
+		)
+
+		expect(criteria).toEqual({
+			createdAt: {
+				$between: [new Date('2024-01-01'), new Date('2024-12-31')],
+			},
+			name: { $contains: '10' },
+		})
+	})
+
+	it('should reject unknown columns, operators and invalid values', () => {
+		expect(() => parseQueryString(schema.items, 'missing=1')).toThrow(
+			'missing is not a column of items',
+		)
+		expect(() => parseQueryString(schema.items, 'price[$near]=1')).toThrow(
+			'$near is not a criteria operator',
+		)
+		expect(() => parseQueryString(schema.items, 'price=cheap')).toThrow(
+			'price must be a number',
+		)
+		expect(() => parseQueryString(schema.items, 'status=UNKNOWN')).toThrow(
+			'status must be one of',
+		)
+		expect(() => parseQueryString(schema.items, 'orderBy=-missing')).toThrow(
+			'missing is not a column of items',
+		)
+		expect(() =>
+			parseQueryString(schema.items, 'createdAt[$between]=2024-01-01'),
+		).toThrow('takes two comma separated values')
+		expect(() => parseQueryString(schema.items, 'page=0')).toThrow(
+			'page must be a positive integer',
+		)
+	})
+
+	it('should write the query string it reads', () => {
+		const query = {
+			criteria: {
+				price: { $gte: 10 },
+				status: { $in: ['ACTIVE' as const, 'INACTIVE' as const] },
+				createdAt: { $lt: new Date('2024-06-01T00:00:00.000Z') },
+				name: 'Desk & chair',
+			},
+			orderBy: { createdAt: 'desc' as const },
+			page: 2,
+		}
+
+		const search = stringifyQuery<typeof schema.items>(query)
+
+		expect(search).toBe(
+			'price[$gte]=10&status[$in]=ACTIVE,INACTIVE&createdAt[$lt]=2024-06-01T00%3A00%3A00.000Z&name=Desk%20%26%20chair&orderBy=-createdAt&page=2',
+		)
+		expect(parseQueryString(schema.items, search)).toEqual(query)
+	})
+
+	it('should find the rows matching the parsed criteria', async () => {
+		const [, items] = await itemService.bulkCreate([
+			{ ...mockItem(), price: 11, status: 'ACTIVE' },
+			{ ...mockItem(), price: 12, status: 'ACTIVE' },
+		])
+		const skus = items.map((item) => item.sku)
+
+		const { criteria, ...opts } = parseQueryString(
+			schema.items,
+			stringifyQuery<typeof schema.items>({
+				criteria: { sku: { $in: skus }, price: { $gte: 12 } },
+				orderBy: { price: 'asc' },
+			}),
+		)
+		const found = await itemService.findBy(criteria, opts)
+
+		expect(found.map((item) => item.price)).toEqual([12])
+	})
+})
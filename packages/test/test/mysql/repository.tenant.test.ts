@@ -0,0 +1,190 @@
+import { beforeAll, describe, expect, it } from 'vitest'
+import {
+	mockSaleHeader,
+	mockStore,
+	type SaleHeader,
+	storeService,
+} from './repository'
+import { auditLog, schema, service } from './schema'
+import { setupBeforeAll } from './setup'
+
+setupBeforeAll()
+
+let storeA = 0
+let storeB = 0
+let tenants: number | number[] | undefined
+
+const tenantSalesService = service(schema.salesHeaders, {
+	soft: {
+		field: 'status',
+		deletedValue: 'CANCELED',
+		notDeletedValue: 'DRAFT',
+	},
+	tenant: { field: 'storeId', resolve: () => tenants },
+})
+
+const auditedSalesService = service(schema.salesHeaders, {
+	tenant: { field: 'storeId', resolve: () => tenants },
+	audit: { table: auditLog },
+})
+
+// Sale without a store, the service fills it with the tenant of the caller
+function unassignedSale() {
+	const { storeId: _, ...sale } = mockSaleHeader(0)
+	return { ...sale, status: 'DRAFT' } as SaleHeader['mutation']
+}
+
+async function createSale(store: number) {
+	tenants = store
+	const [error, sale] = await tenantSalesService.create(unassignedSale())
+	if (error) throw new Error(`Failed to create sale: ${error.message}`)
+	return sale
+}
+
+beforeAll(async () => {
+	const [, first] = await storeService.create(mockStore())
+	const [, second] = await storeService.create(mockStore())
+	if (!first || !second) throw new Error('Failed to create stores')
+	storeA = first.id
+	storeB = second.id
+})
+
+describe('MYSQL Service: Tenant', () => {
+	it('should fill the tenant of new rows', async () => {
+		const sale = await createSale(storeA)
+		expect(sale.storeId).toBe(storeA)
+
+		tenants = storeB
+		const [, sales] = await tenantSalesService.bulkCreate([
+			unassignedSale(),
+			unassignedSale(),
+		])
+		expect(sales.map((row) => row.storeId)).toEqual([storeB, storeB])
+	})
+
+	it('should only read the rows of the caller tenants', async () => {
+		const saleA = await createSale(storeA)
+		const saleB = await createSale(storeB)
+
+		tenants = storeA
+		expect(await tenantSalesService.findOne(saleB.id)).toBeNull()
+		expect(await tenantSalesService.findOne(saleA.id)).not.toBeNull()
+		const found = await tenantSalesService.findBy({
+			id: { $in: [saleA.id, saleB.id] },
+		})
+		expect(found.map((sale) => sale.id)).toEqual([saleA.id])
+		const all = await tenantSalesService.find()
+		expect(all.every((sale) => sale.storeId === storeA)).toBe(true)
+		const { items } = await tenantSalesService.findWithCursor({ limit: 100 })
+		expect(items.every((sale) => sale.storeId === storeA)).toBe(true)
+
+		tenants = [storeA, storeB]
+		const both = await tenantSalesService.findBy({
+			id: { $in: [saleA.id, saleB.id] },
+		})
+		expect(both).toHaveLength(2)
+	})
+
+	it('should return NotFoundError for the ids of other tenants', async () => {
+		const saleB = await createSale(storeB)
+
+		tenants = storeA
+		const [error] = await tenantSalesService.update(saleB.id, { amount: 10 })
+		expect(error?._tag).toBe('NotFoundError')
+		await expect(tenantSalesService.delete(saleB.id)).rejects.toThrow(
+			'not found',
+		)
+		await expect(tenantSalesService.hardDelete(saleB.id)).rejects.toThrow(
+			'not found',
+		)
+		const [upsertError] = await tenantSalesService.upsert({
+			...unassignedSale(),
+			id: saleB.id,
+		})
+		expect(upsertError?._tag).toBe('NotFoundError')
+
+		tenants = storeB
+		const current = await tenantSalesService.findOne(saleB.id)
+		expect(current?.amount).toBe(saleB.amount)
+		expect(current?.status).toBe('DRAFT')
+	})
+
+	it('should only apply bulk mutations to the rows of the caller tenants', async () => {
+		const saleA = await createSale(storeA)
+		const saleB = await createSale(storeB)
+
+		tenants = storeA
+		const [updated] = await tenantSalesService.bulkUpdate([
+			{ id: saleA.id, changes: { amount: 5 } },
+			{ id: saleB.id, changes: { amount: 5 } },
+		])
+		const [deleted] = await tenantSalesService.bulkDelete([saleA.id, saleB.id])
+		const [removed] = await tenantSalesService.bulkHardDelete([saleB.id])
+
+		expect(updated.processed).toBe(1)
+		expect(deleted.processed).toBe(1)
+		expect(removed.processed).toBe(0)
+
+		tenants = storeB
+		const current = await tenantSalesService.findOne(saleB.id)
+		expect(current?.amount).toBe(saleB.amount)
+		expect(current?.status).toBe('DRAFT')
+	})
+
+	it('should reject rows and changes for other tenants', async () => {
+		const saleA = await createSale(storeA)
+
+		tenants = storeA
+		const [createError] = await tenantSalesService.create(
+			mockSaleHeader(storeB),
+		)
+		expect(createError?._tag).toBe('ValidationError')
+
+		const [updateError] = await tenantSalesService.update(saleA.id, {
+			storeId: storeB,
+		})
+		expect(updateError?._tag).toBe('ValidationError')
+
+		tenants = [storeA, storeB]
+		const [ambiguous] = await tenantSalesService.create(unassignedSale())
+		expect(ambiguous?.message).toContain('storeId is required')
+		const [, sale] = await tenantSalesService.create({
+			...mockSaleHeader(storeB),
+			status: 'DRAFT',
+		})
+		expect(sale?.storeId).toBe(storeB)
+	})
+
+	it('should not clear the tenant of a row', async () => {
+		const sale = await createSale(storeA)
+
+		const [error] = await tenantSalesService.update(sale.id, {
+			storeId: undefined,
+		})
+		expect(error?._tag).toBe('ValidationError')
+		expect(error?.message).toContain('storeId can not be cleared')
+		expect((await tenantSalesService.findOne(sale.id))?.storeId).toBe(storeA)
+	})
+
+	it('should only read the history of the rows of the caller tenants', async () => {
+		tenants = storeA
+		const [, sale] = await auditedSalesService.create(unassignedSale())
+		if (!sale) throw new Error('Failed to create sale')
+		expect(await auditedSalesService.history(sale.id)).toHaveLength(1)
+
+		tenants = storeB
+		await expect(auditedSalesService.history(sale.id)).rejects.toThrow(
+			'not found',
+		)
+	})
+
+	it('should fail when the tenant can not be resolved', async () => {
+		tenants = undefined
+
+		await expect(tenantSalesService.find()).rejects.toThrow(
+			'could not be resolved',
+		)
+		const [error] = await tenantSalesService.create(unassignedSale())
+		expect(error?._tag).toBe('ValidationError')
+	})
+})
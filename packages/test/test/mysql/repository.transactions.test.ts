@@ -0,0 +1,236 @@
+import { describe, expect, it } from 'vitest'
+import {
+	itemEntryService,
+	itemService,
+	mockItem,
+	mockSaleHeader,
+	mockSaleLine,
+	salesLinesService,
+	salesService,
+} from './repository'
+import { db, service } from './schema'
+import { setup, setupBeforeAll } from './setup'
+
+setupBeforeAll()
+
+describe('MYSQL Service: Transaction Operations', () => {
+	it('should commit the changes made through the tx-bound service', async () => {
+		const itemData = mockItem()
+		const item = await itemService.transaction(async (txService) => {
+			const [error, created] = await txService.create(itemData)
+			if (error) throw error
+			return created
+		})
+
+		expect(item.sku).toBe(itemData.sku)
+		const found = await itemService.findOne(item.id)
+		expect(found?.id).toBe(item.id)
+	})
+
+	it('should roll back the changes when the callback throws', async () => {
+		const itemData = mockItem()
+		await expect(
+			itemService.transaction(async (txService) => {
+				const [error] = await txService.create(itemData)
+				if (error) throw error
+				throw new Error('Rollback')
+			}),
+		).rejects.toThrow('Rollback')
+
+		const found = await itemService.findBy({ sku: itemData.sku })
+		expect(found).toHaveLength(0)
+	})
+
+	it('should bind the copy of the service to the transaction', async () => {
+		await itemService.transaction(async (txService) => {
+			expect(txService.db).not.toBe(itemService.db)
+			expect(txService.entityName).toBe(itemService.entityName)
+			expect(txService.withTransaction(txService.db).db).toBe(txService.db)
+		})
+	})
+
+	it('should run mutations of several services in a passed transaction', async () => {
+		const header = mockSaleHeader(setup.storesId[0] ?? 1)
+		const item = mockItem()
+
+		await expect(
+			db.transaction(async (tx) => {
+				const [headerError, document] = await salesService.create(header, {
+					tx,
+				})
+				if (headerError) throw headerError
+				const [itemError, created] = await itemService.create(item, { tx })
+				if (itemError) throw itemError
+				const [result] = await salesLinesService.bulkCreate(
+					[
+						mockSaleLine(
+							{ no: document.id, type: document.documentType },
+							{ no: created.id, type: created.type, unitPrice: created.price },
+						),
+					],
+					{ tx },
+				)
+				expect(result.processed).toBe(1)
+
+				const lines = await salesLinesService.findBy(
+					{ documentNo: document.id },
+					{ tx },
+				)
+				expect(lines).toHaveLength(1)
+				throw new Error('Posting failed')
+			}),
+		).rejects.toThrow('Posting failed')
+
+		const headers = await salesService.findBy({
+			documentNo: header.documentNo,
+		})
+		expect(headers).toHaveLength(0)
+		const items = await itemService.findBy({ sku: item.sku })
+		expect(items).toHaveLength(0)
+	})
+
+	it('should run afterAction hooks inside the same transaction', async () => {
+		const itemData = mockItem()
+		const storeId = setup.storesId[0] ?? 1
+		let entryNo: number | undefined
+
+		await expect(
+			itemService.transaction(async (txService) => {
+				const [error] = await txService.create(itemData, {
+					afterAction: async (item) => {
+						const [entryError, entry] = await itemEntryService.create(
+							{
+								itemId: item.id,
+								type: 'POSITIVE_ADJ',
+								storeId,
+								quantity: 10,
+							},
+							{ tx: txService.db },
+						)
+						if (entryError) throw entryError
+						entryNo = entry.entryNo
+					},
+				})
+				if (error) throw error
+				throw new Error('Rollback')
+			}),
+		).rejects.toThrow('Rollback')
+
+		expect(entryNo).toBeDefined()
+		const items = await itemService.findBy({ sku: itemData.sku })
+		expect(items).toHaveLength(0)
+		const entries = await itemEntryService.findBy({ entryNo })
+		expect(entries).toHaveLength(0)
+	})
+
+	it('should commit the services of a unit of work together', async () => {
+		const header = mockSaleHeader(setup.storesId[0] ?? 1)
+		const itemData = mockItem()
+
+		const document = await service.unitOfWork(
+			{ sales: salesService, items: itemService, lines: salesLinesService },
+			async ({ sales, items, lines }) => {
+				const [headerError, document] = await sales.create(header)
+				if (headerError) throw headerError
+				const [itemError, item] = await items.create(itemData)
+				if (itemError) throw itemError
+				const [linesBatch] = await lines.bulkCreate([
+					mockSaleLine(
+						{ no: document.id, type: document.documentType },
+						{ no: item.id, type: item.type, unitPrice: item.price },
+					),
+				])
+				if (linesBatch.failed) throw linesBatch.errors?.[0]?.error
+				return document
+			},
+		)
+
+		const lines = await salesLinesService.findBy({ documentNo: document.id })
+		expect(lines).toHaveLength(1)
+		expect(lines[0]?.itemNo).toBeDefined()
+	})
+
+	it('should roll back every service of a failed unit of work', async () => {
+		const header = mockSaleHeader(setup.storesId[0] ?? 1)
+		const itemData = mockItem()
+
+		await expect(
+			service.unitOfWork(
+				{ sales: salesService, items: itemService },
+				async ({ sales, items }) => {
+					const [headerError] = await sales.create(header)
+					if (headerError) throw headerError
+					const [itemError] = await items.create(itemData)
+					if (itemError) throw itemError
+					throw new Error('Posting failed')
+				},
+			),
+		).rejects.toThrow('Posting failed')
+
+		const headers = await salesService.findBy({
+			documentNo: header.documentNo,
+		})
+		expect(headers).toHaveLength(0)
+		const items = await itemService.findBy({ sku: itemData.sku })
+		expect(items).toHaveLength(0)
+	})
+
+	it('should post a document with its lines and inventory in a unit of work', async () => {
+		const storeId = setup.storesId[0] ?? 1
+		const quantity = 10
+
+		const document = await service.unitOfWork(
+			{
+				sales: salesService,
+				items: itemService,
+				lines: salesLinesService,
+				entries: itemEntryService,
+			},
+			async ({ sales, items, lines, entries }) => {
+				const [headerError, sale] = await sales.create(mockSaleHeader(storeId))
+				if (headerError) throw headerError
+				const [itemsBatch, created] = await items.bulkCreate([
+					mockItem(),
+					mockItem(),
+				])
+				if (itemsBatch.failed) throw itemsBatch.errors?.[0]?.error
+				const [linesBatch, posted] = await lines.bulkCreate(
+					created.map((item) =>
+						mockSaleLine(
+							{ no: sale.id, type: sale.documentType },
+							{ no: item.id, type: item.type, unitPrice: item.price },
+						),
+					),
+				)
+				if (linesBatch.failed) throw linesBatch.errors?.[0]?.error
+				const amount = posted.reduce(
+					(acc, line) => acc + parseFloat(line.amount.toString()),
+					0,
+				)
+				const [updateError] = await sales.update(sale.id, { amount })
+				if (updateError) throw updateError
+				const [entriesBatch] = await entries.bulkCreate(
+					created.map((item) => ({
+						itemId: item.id,
+						type: 'POSITIVE_ADJ' as const,
+						storeId,
+						quantity,
+					})),
+				)
+				if (entriesBatch.failed) throw entriesBatch.errors?.[0]?.error
+				return { sale, created }
+			},
+		)
+
+		const lines = await salesLinesService.findBy({
+			documentNo: document.sale.id,
+		})
+		expect(lines).toHaveLength(2)
+		const header = await salesService.findOne(document.sale.id)
+		expect(Number(header?.amount)).toBeGreaterThan(0)
+		for (const item of document.created) {
+			const inventory = await itemEntryService.getInventory(item.id, storeId)
+			expect(inventory).toBe(quantity)
+		}
+	})
+})
@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest'
+import { itemService, mockItem } from './repository'
+import { setupBeforeAll } from './setup'
+
+setupBeforeAll()
+
+describe('MYSQL Service: Bulk Upsert', () => {
+	it('should reject bulk upserts', async () => {
+		await expect(
+			itemService.bulkUpsert([mockItem()], { target: ['sku'] }),
+		).rejects.toThrow('bulkUpsert is not supported on MySQL')
+	})
+})
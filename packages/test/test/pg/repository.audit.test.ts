@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest'
+import { itemService, mockItem } from './repository'
+import { auditLog, schema, service } from './schema'
+import { setupBeforeAll } from './setup'
+
+setupBeforeAll()
+
+let currentActor: string | null = 'user-1'
+
+const auditedItemService = service(schema.items, {
+	soft: {
+		field: 'status',
+		deletedValue: 'DISCONTINUED',
+		notDeletedValue: 'ACTIVE',
+	},
+	audit: {
+		table: auditLog,
+		actor: () => currentActor,
+	},
+})
+
+describe('PG Service: Audit log', () => {
+	it('should record the created row', async () => {
+		const [, item] = await auditedItemService.create(mockItem())
+		if (!item) throw new Error('Failed to create item')
+
+		const history = await auditedItemService.history(item.id)
+		expect(history).toHaveLength(1)
+		expect(history[0]?.operation).toBe('create')
+		expect(history[0]?.entityName).toBe('items')
+		expect(history[0]?.entityId).toBe(item.id)
+		expect(history[0]?.actor).toBe('user-1')
+		expect(history[0]?.createdAt).toBeInstanceOf(Date)
+		expect(history[0]?.changes.sku).toEqual({ before: null, after: item.sku })
+	})
+
+	it('should only record changed columns on update', async () => {
+		const [, item] = await auditedItemService.create(mockItem())
+		if (!item) throw new Error('Failed to create item')
+
+		currentActor = 'user-2'
+		await auditedItemService.update(item.id, { name: 'Audited name' })
+		currentActor = 'user-1'
+
+		const history = await auditedItemService.history(item.id)
+		expect(history.map((entry) => entry.operation)).toEqual([
+			'create',
+			'update',
+		])
+		const update = history[1]
+		expect(update?.actor).toBe('user-2')
+		expect(update?.changes.name).toEqual({
+			before: item.name,
+			after: 'Audited name',
+		})
+		expect(update?.changes.sku).toBeUndefined()
+	})
+
+	it('should record delete, restore and hard delete', async () => {
+		const [, item] = await auditedItemService.create({
+			...mockItem(),
+			status: 'ACTIVE',
+		})
+		if (!item) throw new Error('Failed to create item')
+
+		await auditedItemService.delete(item.id)
+		await auditedItemService.restore(item.id)
+		await auditedItemService.hardDelete(item.id)
+
+		const history = await auditedItemService.history(item.id)
+		expect(history.map((entry) => entry.operation)).toEqual([
+			'create',
+			'delete',
+			'restore',
+			'hardDelete',
+		])
+		expect(history[1]?.changes.status).toEqual({
+			before: 'ACTIVE',
+			after: 'DISCONTINUED',
+		})
+		expect(history[3]?.changes.id).toEqual({ before: item.id, after: null })
+	})
+
+	it('should record one entry per row of bulk operations', async () => {
+		const [, items] = await auditedItemService.bulkCreate([
+			{ ...mockItem(), status: 'ACTIVE' },
+			{ ...mockItem(), status: 'ACTIVE' },
+		])
+		const [first, second] = items
+		if (!first || !second) throw new Error('Failed to create items')
+
+		await auditedItemService.bulkUpdate([
+			{ id: first.id, changes: { price: 1 } },
+			{ id: second.id, changes: { price: 2 } },
+		])
+		await auditedItemService.bulkDelete([first.id, second.id])
+
+		for (const item of [first, second]) {
+			const history = await auditedItemService.history(item.id)
+			expect(history.map((entry) => entry.operation)).toEqual([
+				'create',
+				'update',
+				'delete',
+			])
+		}
+	})
+
+	it('should record bulk upserts as creates and updates', async () => {
+		const [, existing] = await auditedItemService.create(mockItem())
+		if (!existing) throw new Error('Failed to create item')
+
+		const [, rows] = await auditedItemService.bulkUpsert(
+			[{ ...mockItem(), sku: existing.sku, price: 3 }, mockItem()],
+			{ target: ['sku'], update: ['price'] },
+		)
+		const added = rows.find((row) => row.id !== existing.id)
+		if (!added) throw new Error('Failed to insert item')
+
+		const history = await auditedItemService.history(existing.id)
+		expect(history.map((entry) => entry.operation)).toEqual([
+			'create',
+			'update',
+		])
+		expect(history[1]?.changes.price).toEqual({
+			before: existing.price,
+			after: 3,
+		})
+		const [created] = await auditedItemService.history(added.id)
+		expect(created?.operation).toBe('create')
+	})
+
+	it('should not record failed mutations', async () => {
+		const [, item] = await auditedItemService.create(mockItem())
+		if (!item) throw new Error('Failed to create item')
+
+		const [error] = await auditedItemService.create({
+			...mockItem(),
+			sku: item.sku,
+		})
+		expect(error).not.toBeNull()
+
+		const history = await auditedItemService.history(item.id)
+		expect(history).toHaveLength(1)
+	})
+
+	it('should roll the change back when the audit entry fails', async () => {
+		const [, item] = await auditedItemService.create(mockItem())
+		if (!item) throw new Error('Failed to create item')
+
+		const failingService = service(schema.items, {
+			audit: {
+				table: auditLog,
+				actor: () => {
+					throw new Error('Actor unavailable')
+				},
+			},
+		})
+
+		const [error] = await failingService.update(item.id, {
+			name: 'Unaudited name',
+		})
+		expect(error).not.toBeNull()
+		await expect(failingService.bulkHardDelete([item.id])).rejects.toThrow(
+			'Actor unavailable',
+		)
+
+		expect((await auditedItemService.findOne(item.id))?.name).toBe(item.name)
+		expect(await auditedItemService.history(item.id)).toHaveLength(1)
+	})
+
+	it('should reject history when the audit log is not configured', async () => {
+		await expect(itemService.history('ITM-unknown')).rejects.toThrow(
+			'Audit log is not configured',
+		)
+	})
+})
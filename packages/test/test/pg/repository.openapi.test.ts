@@ -0,0 +1,197 @@
+import { createHttpHandler, generateOpenApi } from 'drizzle-service/pg'
+import { describe, expect, it } from 'vitest'
+import { itemService, mockItem, salesLinesService } from './repository'
+import { setupBeforeAll } from './setup'
+
+setupBeforeAll()
+
+const document = generateOpenApi(
+	{ items: itemService, 'sales-lines': salesLinesService },
+	{ basePath: '/api', info: { title: 'Inventory', version: '2.0.0' } },
+)
+const { schemas, parameters } = document.components
+
+describe('PG Service: OpenAPI', () => {
+	it('should describe the document and the services', () => {
+		expect(document).toMatchObject({
+			openapi: '3.1.0',
+			info: { title: 'Inventory', version: '2.0.0' },
+			tags: [{ name: 'items' }, { name: 'sales-lines' }],
+		})
+		expect(Object.keys(document.paths)).toEqual(
+			expect.arrayContaining([
+				'/api/items',
+				'/api/items/page',
+				'/api/items/bulk',
+				'/api/items/{id}',
+				'/api/items/{id}/restore',
+				'/api/sales-lines/{id}',
+			]),
+		)
+		expect(Object.keys(document.paths['/api/items'] ?? {})).toEqual([
+			'get',
+			'post',
+			'put',
+		])
+	})
+
+	it('should derive the entity schemas from the columns', () => {
+		expect(schemas.Items).toMatchObject({
+			type: 'object',
+			description: expect.stringContaining('`DISCONTINUED` in status'),
+			properties: {
+				id: { type: 'string' },
+				price: { type: 'number' },
+				barcode: { type: ['string', 'null'] },
+				createdAt: { type: ['string', 'null'], format: 'date-time' },
+				status: {
+					type: 'string',
+					enum: expect.arrayContaining(['ACTIVE', 'DISCONTINUED']),
+				},
+			},
+		})
+		expect(schemas.Items?.required).toContain('barcode')
+		expect(schemas.ItemsInsert?.required).toEqual(
+			expect.arrayContaining(['name', 'sku', 'price']),
+		)
+		expect(schemas.ItemsInsert?.required).not.toContain('id')
+		expect(schemas.ItemsInsert?.required).not.toContain('status')
+		expect(schemas.ItemsUpdate?.required).toBeUndefined()
+		expect(schemas.ItemsUpdate?.properties).not.toHaveProperty('id')
+		expect(schemas.ItemsUpdate?.properties).toHaveProperty('price')
+	})
+
+	it('should describe the results and the errors', () => {
+		expect(schemas.ItemsPaginationResult?.properties).toMatchObject({
+			items: { type: 'array', items: { $ref: '#/components/schemas/Items' } },
+		})
+		expect(schemas.ItemsBulkOperationResult).toMatchObject({
+			prefixItems: [
+				{ $ref: '#/components/schemas/BulkOperationSummary' },
+				{ items: { $ref: '#/components/schemas/Items' } },
+			],
+		})
+		expect(schemas.ProblemDetails?.required).toEqual([
+			'type',
+			'title',
+			'status',
+		])
+
+		const create = document.paths['/api/items']?.post
+		expect(create).toMatchObject({
+			operationId: 'createItems',
+			requestBody: {
+				content: {
+					'application/json': {
+						schema: { $ref: '#/components/schemas/ItemsInsert' },
+					},
+				},
+			},
+			responses: {
+				'201': {
+					content: {
+						'application/json': {
+							schema: { $ref: '#/components/schemas/Items' },
+						},
+					},
+				},
+				'409': { $ref: '#/components/responses/Conflict' },
+			},
+		})
+		expect(document.components.responses.Conflict).toMatchObject({
+			content: {
+				'application/problem+json': {
+					schema: { $ref: '#/components/schemas/ProblemDetails' },
+				},
+			},
+		})
+	})
+
+	it('should describe the criteria operators of the columns', () => {
+		const find = document.paths['/api/items']?.get
+		const refs = (find?.parameters as { $ref: string }[]).map(({ $ref }) =>
+			$ref.replace('#/components/parameters/', ''),
+		)
+
+		expect(refs).toEqual(
+			expect.arrayContaining([
+				'page',
+				'withDeleted',
+				'Items.orderBy',
+				'Items.sku',
+				'Items.price.gte',
+				'Items.status.in',
+				'Items.name.contains',
+			]),
+		)
+		expect(refs).not.toContain('Items.status.contains')
+		expect(parameters['Items.price.between']).toMatchObject({
+			name: 'price[$between]',
+			in: 'query',
+			style: 'form',
+			explode: false,
+			schema: { type: 'array', items: { type: 'number' }, minItems: 2 },
+		})
+	})
+
+	it('should follow the id field and the soft delete support', () => {
+		const lines = document.paths['/api/sales-lines/{id}']
+
+		expect(parameters['SalesLines.id']).toMatchObject({
+			in: 'path',
+			description: 'lineNo of the row',
+			schema: { type: 'integer' },
+		})
+		expect(Object.keys(lines ?? {})).toEqual(['get', 'patch'])
+		expect(schemas.SalesLinesUpdate?.properties).not.toHaveProperty('lineNo')
+		expect(schemas.SalesLinesUpdate?.properties).toHaveProperty('documentNo')
+		expect(document.paths['/api/sales-lines/{id}/restore']).toBeUndefined()
+		expect(document.paths['/api/sales-lines/{id}/hard']).toHaveProperty(
+			'delete',
+		)
+		expect(
+			(document.paths['/api/sales-lines']?.get?.parameters as unknown[]).some(
+				(parameter) =>
+					JSON.stringify(parameter).includes('/parameters/withDeleted'),
+			),
+		).toBe(false)
+	})
+
+	it('should leave out the disabled routes', () => {
+		const readOnly = generateOpenApi(
+			{ items: itemService },
+			{
+				routes: {
+					create: false,
+					upsert: false,
+					bulkCreate: false,
+					bulkUpdate: false,
+					bulkUpsert: false,
+					bulkDelete: false,
+				},
+			},
+		)
+
+		expect(Object.keys(readOnly.paths['/items'] ?? {})).toEqual(['get'])
+		expect(readOnly.paths['/items/bulk']).toBeUndefined()
+		expect(readOnly.info).toEqual({ title: 'API', version: '1.0.0' })
+	})
+
+	it('should match the routes the handler serves', async () => {
+		const handler = createHttpHandler(itemService, { basePath: '/api/items' })
+		const [, item] = await itemService.create({
+			...mockItem(),
+			status: 'ACTIVE',
+		})
+		if (!item) throw new Error('Failed to create item')
+
+		for (const [path, operations] of Object.entries(document.paths)) {
+			if (!path.startsWith('/api/items') || !operations.get) continue
+			const response = await handler(
+				new Request(`http://localhost${path.replace('{id}', item.id)}`),
+			)
+			await response.body?.cancel()
+			expect(response.status, path).toBe(200)
+		}
+	})
+})
@@ -0,0 +1,120 @@
+import { inArray } from 'drizzle-orm'
+import { describe, expect, it } from 'vitest'
+import { itemService, mockItem } from './repository'
+import { db, schema, service } from './schema'
+import { setupBeforeAll } from './setup'
+
+setupBeforeAll()
+
+const archiveService = service(schema.items, {
+	soft: {
+		field: 'status',
+		deletedValue: 'DISCONTINUED',
+		notDeletedValue: 'ACTIVE',
+		deletedAtField: 'deletedAt',
+		deletedByField: 'deletedBy',
+		reasonField: 'deleteReason',
+		actor: () => 'inventory-bot',
+	},
+	batchSize: 2,
+})
+
+const activeItem = () => ({ ...mockItem(), status: 'ACTIVE' as const })
+
+async function createItems(count: number) {
+	const [, items] = await archiveService.bulkCreate(
+		Array.from({ length: count }, activeItem),
+	)
+	return items.map((item) => item.id)
+}
+
+describe('PG Service: Soft delete metadata', () => {
+	it('should record who deleted a row, when and why', async () => {
+		const [id = ''] = await createItems(1)
+
+		const result = await archiveService.delete(id, { reason: 'Out of range' })
+		const deleted = await archiveService.findOne(id)
+
+		expect(result.success).toBe(true)
+		expect(deleted).toMatchObject({
+			status: 'DISCONTINUED',
+			deletedBy: 'inventory-bot',
+			deleteReason: 'Out of range',
+		})
+		expect(deleted?.deletedAt).toBeInstanceOf(Date)
+	})
+
+	it('should clear the metadata on restore', async () => {
+		const [first = '', second = ''] = await createItems(2)
+		await archiveService.delete(first, { reason: 'Duplicate' })
+		await archiveService.bulkDelete([second], { reason: 'Duplicate' })
+
+		await archiveService.restore(first)
+		await archiveService.bulkRestore([second])
+
+		const restored = await archiveService.findBy(
+			{ id: { $in: [first, second] } },
+			{ withDeleted: true },
+		)
+		expect(restored).toHaveLength(2)
+		for (const item of restored) {
+			expect(item).toMatchObject({
+				status: 'ACTIVE',
+				deletedAt: null,
+				deletedBy: null,
+				deleteReason: null,
+			})
+		}
+	})
+
+	it('should fill the metadata of bulk deletes', async () => {
+		const ids = await createItems(3)
+
+		const [batch] = await archiveService.bulkDelete(ids, {
+			reason: 'Supplier closed',
+		})
+		const deleted = await archiveService.findBy(
+			{ id: { $in: ids } },
+			{ withDeleted: true },
+		)
+
+		expect(batch.processed).toBe(3)
+		expect(deleted.map((item) => item.deleteReason)).toEqual([
+			'Supplier closed',
+			'Supplier closed',
+			'Supplier closed',
+		])
+		expect(deleted.every((item) => item.deletedBy === 'inventory-bot')).toBe(
+			true,
+		)
+	})
+
+	it('should purge the rows deleted before olderThan in batches', async () => {
+		const old = await createItems(3)
+		const [recent = '', kept = ''] = await createItems(2)
+		await archiveService.bulkDelete([...old, recent])
+		await db
+			.update(schema.items)
+			.set({ deletedAt: new Date('2020-01-01T00:00:00.000Z') })
+			.where(inArray(schema.items.id, old))
+
+		const [batch, data] = await archiveService.purgeDeleted({
+			olderThan: 24 * 60 * 60 * 1000,
+		})
+
+		expect(batch.processed).toBeGreaterThanOrEqual(3)
+		expect(batch.failed).toBe(0)
+		expect(data.success).toBe(true)
+		for (const id of old) {
+			expect(await archiveService.findOne(id)).toBeNull()
+		}
+		expect(await archiveService.findOne(recent)).not.toBeNull()
+		expect(await archiveService.findOne(kept)).not.toBeNull()
+	})
+
+	it('should require the deletedAtField to purge', async () => {
+		await expect(
+			itemService.purgeDeleted({ olderThan: new Date() }),
+		).rejects.toThrow('deletedAtField')
+	})
+})
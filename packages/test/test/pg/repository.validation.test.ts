@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest'
+import { z } from 'zod/v4'
+import { mockItem } from './repository'
+import { schema, service } from './schema'
+import { setupBeforeAll } from './setup'
+
+setupBeforeAll()
+
+const insertItemSchema = z.object({
+	id: z.string().optional(),
+	name: z.string().min(1),
+	sku: z.string().min(1),
+	description: z.string(),
+	type: z.enum(['ITEM', 'SERVICE', 'BUNDLE']),
+	status: z.enum(['ACTIVE', 'INACTIVE', 'ARCHIVED', 'DISCONTINUED']),
+	category: z
+		.enum(['ELECTRONICS', 'FURNITURE', 'CLOTHING', 'FOOD', 'SPORTS'])
+		.optional(),
+	barcode: z.string().nullable().optional(),
+	price: z.number().min(0),
+	createdAt: z.date().optional(),
+})
+
+const validatedItemService = service(schema.items, {
+	validate: {
+		insert: insertItemSchema,
+		update: insertItemSchema.partial(),
+	},
+})
+
+describe('PG Service: Validation', () => {
+	it('should return a validation error with per-field issues on create', async () => {
+		const itemData = { ...mockItem(), name: '', price: -1 }
+		const [error, item] = await validatedItemService.create(itemData)
+
+		expect(item).toBeNull()
+		expect(error?._tag).toBe('ValidationError')
+		if (error?._tag !== 'ValidationError') throw new Error('Expected error')
+		expect(error.issues?.map((issue) => issue.field).sort()).toEqual([
+			'name',
+			'price',
+		])
+		expect(error.field).toBeDefined()
+
+		const items = await validatedItemService.findBy({ sku: itemData.sku })
+		expect(items).toHaveLength(0)
+	})
+
+	it('should create records that pass validation', async () => {
+		const itemData = mockItem()
+		const [error, item] = await validatedItemService.create(itemData)
+
+		expect(error).toBeNull()
+		expect(item?.sku).toBe(itemData.sku)
+	})
+
+	it('should call the onError hook when validation fails', async () => {
+		let hookError: unknown = null
+		const [error] = await validatedItemService.create(
+			{ ...mockItem(), sku: '' },
+			{
+				onError: async (error) => {
+					hookError = error
+				},
+			},
+		)
+
+		expect(error?._tag).toBe('ValidationError')
+		expect(hookError).not.toBeNull()
+	})
+
+	it('should validate the changes of an update', async () => {
+		const [, item] = await validatedItemService.create(mockItem())
+		if (!item) throw new Error('Failed to create item')
+
+		const [error, updated] = await validatedItemService.update(item.id, {
+			price: -10,
+		})
+		expect(updated).toBeNull()
+		expect(error?._tag).toBe('ValidationError')
+
+		const [validError, valid] = await validatedItemService.update(item.id, {
+			price: 10,
+		})
+		expect(validError).toBeNull()
+		expect(valid?.price).toBe(10)
+	})
+
+	it('should validate upsert and findOrCreate data', async () => {
+		const [upsertError] = await validatedItemService.upsert({
+			...mockItem(),
+			price: -1,
+		})
+		expect(upsertError?._tag).toBe('ValidationError')
+
+		const [findOrCreateError] = await validatedItemService.findOrCreate({
+			...mockItem(),
+			name: '',
+		})
+		expect(findOrCreateError?._tag).toBe('ValidationError')
+	})
+
+	it('should report invalid rows of a bulk create and insert the rest', async () => {
+		const rows = [mockItem(), { ...mockItem(), price: -1 }, mockItem()]
+		const [batch, data] = await validatedItemService.bulkCreate(rows)
+
+		expect(data).toHaveLength(2)
+		expect(batch.processed).toBe(2)
+		expect(batch.failed).toBe(1)
+		expect(batch.errors).toHaveLength(1)
+		expect(batch.errors?.[0]?.index).toBe(1)
+		expect(batch.errors?.[0]?.issues?.[0]?.field).toBe('price')
+	})
+
+	it('should report invalid changes of a bulk update', async () => {
+		const [, created] = await validatedItemService.bulkCreate([
+			mockItem(),
+			mockItem(),
+		])
+		const [first, second] = created
+		if (!first || !second) throw new Error('Failed to create items')
+
+		const [batch, data] = await validatedItemService.bulkUpdate([
+			{ id: first.id, changes: { name: 'Validated name' } },
+			{ id: second.id, changes: { name: '' } },
+		])
+
+		expect(data).toHaveLength(1)
+		expect(data[0]?.name).toBe('Validated name')
+		expect(batch.failed).toBe(1)
+		expect(batch.errors?.[0]?.id).toBe(second.id)
+		expect(batch.errors?.[0]?.issues?.[0]?.field).toBe('name')
+	})
+})
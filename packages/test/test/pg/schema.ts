@@ -2,7 +2,7 @@ import { PGlite } from '@electric-sql/pglite'
 import { relations, type SQL, sql } from 'drizzle-orm'
 import { index, pgEnum, pgTable, primaryKey } from 'drizzle-orm/pg-core'
 import { drizzle } from 'drizzle-orm/pglite'
-import { drizzleService } from 'drizzle-service/pg'
+import { auditTable, drizzleService } from 'drizzle-service/pg'
 
 export const genId = (prefix: string) => `${prefix}-${crypto.randomUUID()}`
 export const itemType = pgEnum('item_type', ['ITEM', 'SERVICE', 'BUNDLE', ' '])
@@ -112,6 +112,9 @@ export const items = pgTable(
 			.timestamp('updated_at')
 			.defaultNow()
 			.$onUpdateFn(() => new Date()),
+		deletedAt: t.timestamp('deleted_at'),
+		deletedBy: t.text('deleted_by'),
+		deleteReason: t.text('delete_reason'),
 	}),
 	(t) => [
 		index('items_name_idx').on(t.name),
@@ -191,6 +194,7 @@ export const salesHeaders = pgTable(
 				(): SQL =>
 					sql`${salesHeaders.amount} + COALESCE(${salesHeaders.tax}, 0)`,
 			),
+		version: t.integer().default(1).notNull(),
 		createdAt: t.timestamp('created_at').defaultNow().notNull(),
 		updatedAt: t
 			.timestamp('updated_at')
@@ -311,6 +315,8 @@ export const salesHeadersRelations = relations(
 	}),
 )
 
+export const auditLog = auditTable()
+
 export const schema = {
 	itemType,
 	documentType,
@@ -331,6 +337,7 @@ export const schema = {
 	salesLinesRelations,
 	salesHeadersRelations,
 	itemsRelations,
+	auditLog,
 }
 
 const client = new PGlite('./test/pg/db.sql')
@@ -174,6 +174,42 @@ describe('PostgreSQL Service Types - Complex Schema', () => {
 				.parameter(0)
 				.toExtend<CriteriaFilter<ItemEntryEntity>>()
 		})
+
+		it('should narrow the result to the selected columns', () => {
+			const find = () => itemService.find({ select: ['id', 'name'] })
+			expectTypeOf(find).returns.resolves.toEqualTypeOf<
+				Pick<ItemEntity['$inferSelect'], 'id' | 'name'>[]
+			>()
+
+			const findOne = () => salesService.findOne('id', { select: ['amount'] })
+			expectTypeOf(findOne).returns.resolves.toEqualTypeOf<Pick<
+				SalesHeaderEntity['$inferSelect'],
+				'amount'
+			> | null>()
+		})
+
+		it('should have correct aggregate method types', () => {
+			const aggregate = () =>
+				salesLinesService.aggregate({
+					sum: ['amount'],
+					max: ['createdAt'],
+					groupBy: ['documentNo'],
+				})
+			expectTypeOf(aggregate).returns.resolves.toEqualTypeOf<
+				Array<
+					Pick<SalesLineEntity['$inferSelect'], 'documentNo'> & {
+						count: number
+					} & { sum: { amount: number | null } } & {
+						max: { createdAt: Date | null }
+					}
+				>
+			>()
+
+			const numericOnly = () =>
+				// @ts-expect-error description is not numeric
+				salesLinesService.aggregate({ sum: ['description'] })
+			expectTypeOf(numericOnly).toBeFunction()
+		})
 	})
 
 	describe('Mutation Operations Types', () => {
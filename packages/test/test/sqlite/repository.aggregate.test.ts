@@ -0,0 +1,128 @@
+import { gt } from 'drizzle-orm'
+import { beforeAll, describe, expect, it } from 'vitest'
+import {
+	mockSaleHeader,
+	mockStore,
+	salesLinesService,
+	salesService,
+	storeService,
+} from './repository'
+import { setupBeforeAll } from './setup'
+
+setupBeforeAll()
+
+let storeId = 0
+
+beforeAll(async () => {
+	const [, store] = await storeService.create(mockStore())
+	if (!store) throw new Error('Failed to create store')
+	storeId = store.id
+})
+
+const createSale = () => salesService.mockHeader(storeId)
+
+const total = (values: number[]) =>
+	values.reduce((sum, value) => sum + value, 0)
+
+describe('SQLITE Service: Aggregate', () => {
+	it('should aggregate the rows of every group', async () => {
+		const first = await createSale()
+		const second = await createSale()
+		const sales = [first, second].sort((a, b) => a.id.localeCompare(b.id))
+
+		const groups = await salesLinesService.aggregate({
+			sum: ['amount', 'quantity'],
+			max: ['quantity'],
+			groupBy: ['documentNo'],
+			where: { documentNo: { $in: sales.map((sale) => sale.id) } },
+		})
+
+		expect(groups.map((group) => group.documentNo)).toEqual(
+			sales.map((sale) => sale.id),
+		)
+		for (const [index, group] of groups.entries()) {
+			const lines = sales[index]?.salesLines ?? []
+			expect(group.count).toBe(lines.length)
+			expect(group.sum.amount).toBeCloseTo(
+				total(lines.map((line) => line.amount)),
+			)
+			expect(group.sum.quantity).toBeCloseTo(
+				total(lines.map((line) => line.quantity)),
+			)
+			expect(group.max.quantity).toBe(
+				Math.max(...lines.map((line) => line.quantity)),
+			)
+		}
+	})
+
+	it('should return a single row without groupBy', async () => {
+		const sale = await createSale()
+		const prices = sale.salesLines.map((line) => line.unitPrice)
+
+		const [totals] = await salesLinesService.aggregate({
+			avg: ['unitPrice'],
+			min: ['unitPrice'],
+			where: { documentNo: sale.id },
+		})
+
+		expect(totals?.count).toBe(prices.length)
+		expect(totals?.avg.unitPrice).toBeCloseTo(total(prices) / prices.length)
+		expect(totals?.min.unitPrice).toBe(Math.min(...prices))
+
+		const [empty] = await salesLinesService.aggregate({
+			sum: ['amount'],
+			where: { documentNo: 'missing' },
+		})
+		expect(empty?.count).toBe(0)
+		expect(empty?.sum.amount).toBeNull()
+	})
+
+	it('should filter the groups with having', async () => {
+		const sales = [await createSale(), await createSale(), await createSale()]
+		const quantities = sales.map((sale) =>
+			total(sale.salesLines.map((line) => line.quantity)),
+		)
+		const threshold = Math.min(...quantities)
+
+		const groups = await salesLinesService.aggregate({
+			sum: ['quantity'],
+			groupBy: ['documentNo'],
+			where: { documentNo: { $in: sales.map((sale) => sale.id) } },
+			having: ({ sum }) => gt(sum.quantity, threshold),
+		})
+
+		expect(groups).toHaveLength(
+			quantities.filter((quantity) => quantity > threshold).length,
+		)
+		for (const group of groups) {
+			expect(group.sum.quantity).toBeGreaterThan(threshold)
+		}
+	})
+
+	it('should honor soft delete and workspace', async () => {
+		const [, store] = await storeService.create(mockStore())
+		if (!store) throw new Error('Failed to create store')
+		const [, sales] = await salesService.bulkCreate([
+			{ ...mockSaleHeader(store.id), amount: 10 },
+			{ ...mockSaleHeader(store.id), amount: 20 },
+			{ ...mockSaleHeader(storeId), amount: 40 },
+		])
+		await salesService.delete(sales[0]?.id ?? '')
+		const workspace = { field: 'storeId', value: store.id } as const
+
+		const [active] = await salesService.aggregate({
+			sum: ['amount'],
+			workspace,
+		})
+		expect(active?.count).toBe(1)
+		expect(active?.sum.amount).toBe(20)
+
+		const [all] = await salesService.aggregate({
+			sum: ['amount'],
+			workspace,
+			withDeleted: true,
+		})
+		expect(all?.count).toBe(2)
+		expect(all?.sum.amount).toBe(30)
+	})
+})
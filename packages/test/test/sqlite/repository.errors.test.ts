@@ -0,0 +1,54 @@
+import { beforeAll, describe, expect, it } from 'vitest'
+import {
+	type Item,
+	itemEntryService,
+	itemService,
+	mockItem,
+} from './repository'
+import { setupBeforeAll } from './setup'
+
+setupBeforeAll()
+
+let item: Item['query']
+
+beforeAll(async () => {
+	const [, created] = await itemService.create(mockItem())
+	if (!created) throw new Error('Failed to create item')
+	item = created
+})
+
+describe('SQLITE Service: Constraint errors', () => {
+	it('should return a ConflictError for unique violations', async () => {
+		const [error] = await itemService.create({ ...mockItem(), sku: item.sku })
+
+		expect(error?._tag).toBe('ConflictError')
+		if (error?._tag !== 'ConflictError') throw new Error('Expected conflict')
+		expect(error.code).toBe('UNIQUE_VIOLATION')
+		expect(error.column ?? error.constraint).toContain('sku')
+	})
+
+	it('should return a ForeignKeyError for missing references', async () => {
+		const [error] = await itemEntryService.create({
+			itemId: item.id,
+			storeId: 999_999,
+			quantity: 1,
+		})
+
+		expect(error?._tag).toBe('ForeignKeyError')
+		if (error?._tag !== 'ForeignKeyError')
+			throw new Error('Expected foreign key')
+		expect(error.code).toBe('FOREIGN_KEY_VIOLATION')
+	})
+
+	it('should return a NotNullError with the column', async () => {
+		const [error] = await itemService.create({
+			...mockItem(),
+			name: null as never,
+		})
+
+		expect(error?._tag).toBe('NotNullError')
+		if (error?._tag !== 'NotNullError') throw new Error('Expected not null')
+		expect(error.code).toBe('NOT_NULL_VIOLATION')
+		expect(error.column).toBe('name')
+	})
+})
@@ -0,0 +1,263 @@
+import type {
+	PaginationResult,
+	ProblemDetails,
+} from 'drizzle-service/builder/types.d.ts'
+import { createHttpHandler } from 'drizzle-service/sqlite'
+import { describe, expect, it } from 'vitest'
+import {
+	type Item,
+	itemService,
+	mockItem,
+	mockStore,
+	storeService,
+} from './repository'
+import { setupBeforeAll } from './setup'
+
+setupBeforeAll()
+
+const handler = createHttpHandler(itemService, { basePath: '/api/items' })
+const storeHandler = createHttpHandler(storeService, { basePath: '/stores' })
+
+function request(path: string, init: { method?: string; body?: unknown } = {}) {
+	return new Request(`http://localhost${path}`, {
+		method: init.method ?? 'GET',
+		body: init.body === undefined ? undefined : JSON.stringify(init.body),
+	})
+}
+
+// Parsed JSON body of the response
+function read<T>(response: Response): Promise<T> {
+	return response.json() as Promise<T>
+}
+
+// Active rows, a random status may already be the soft deleted one
+const activeItem = () => ({ ...mockItem(), status: 'ACTIVE' as const })
+
+type Row = Item['query']
+type Batch = [{ processed: number }, Row[]]
+
+async function createItem(): Promise<Row> {
+	const response = await handler(
+		request('/api/items', { method: 'POST', body: activeItem() }),
+	)
+	expect(response.status).toBe(201)
+	return read(response)
+}
+
+describe('SQLITE Service: HTTP handler', () => {
+	it('should create a row and read it by id', async () => {
+		const item = await createItem()
+
+		const response = await handler(request(`/api/items/${item.id}`))
+
+		expect(response.status).toBe(200)
+		expect(response.headers.get('content-type')).toBe('application/json')
+		expect(await read(response)).toEqual(item)
+	})
+
+	it('should filter, sort and paginate from the query string', async () => {
+		const first = await createItem()
+		await createItem()
+
+		const response = await handler(
+			request(`/api/items?sku=${first.sku}&orderBy=-createdAt,name&limit=5`),
+		)
+		const cursorPage = await handler(request('/api/items/page?limit=1'))
+		const count = await handler(request(`/api/items/count?sku=${first.sku}`))
+
+		expect(await read(response)).toEqual([first])
+		const page = await read<PaginationResult<Row>>(cursorPage)
+		expect(page.items).toHaveLength(1)
+		expect(page.pagination.pageSize).toBe(1)
+		expect(await read(count)).toBe(1)
+	})
+
+	it('should take criteria operators from the query string', async () => {
+		const first = await createItem()
+		const second = await createItem()
+		const price = Math.max(first.price, second.price)
+
+		const response = await handler(
+			request(
+				`/api/items?sku[$in]=${first.sku},${second.sku}&price[$gte]=${price}`,
+			),
+		)
+		const count = await handler(request('/api/items/count?price[$gte]=1'))
+
+		const skus = (await read<Row[]>(response)).map((item) => item.sku)
+		expect(skus.sort()).toEqual(
+			[first, second]
+				.filter((item) => item.price >= price)
+				.map((item) => item.sku)
+				.sort(),
+		)
+		expect(count.status).toBe(400)
+	})
+
+	it('should update, delete and restore a row', async () => {
+		const item = await createItem()
+		const path = `/api/items/${item.id}`
+
+		const updated = await handler(
+			request(path, { method: 'PATCH', body: { price: 42 } }),
+		)
+		expect((await read<Row>(updated)).price).toBe(42)
+
+		const deleted = await handler(request(path, { method: 'DELETE' }))
+		expect((await read<{ success: boolean }>(deleted)).success).toBe(true)
+		expect((await read<Row>(await handler(request(path)))).status).toBe(
+			'DISCONTINUED',
+		)
+
+		const restored = await handler(
+			request(`${path}/restore`, { method: 'POST' }),
+		)
+		expect(restored.status).toBe(200)
+		expect((await read<Row>(await handler(request(path)))).status).toBe(
+			'ACTIVE',
+		)
+	})
+
+	it('should run the bulk routes', async () => {
+		const created = await handler(
+			request('/api/items/bulk', {
+				method: 'POST',
+				body: [activeItem(), activeItem()],
+			}),
+		)
+		const [batch, items] = await read<Batch>(created)
+		expect(batch.processed).toBe(2)
+
+		const deleted = await handler(
+			request('/api/items/bulk', {
+				method: 'DELETE',
+				body: items.map((item) => item.id),
+			}),
+		)
+		const [deleteBatch] = await read<Batch>(deleted)
+		expect(deleteBatch.processed).toBe(2)
+	})
+
+	it('should stream the rows as ndjson', async () => {
+		await createItem()
+
+		const response = await handler(request('/api/items/stream?chunkSize=10'))
+		const reader = response.body?.getReader()
+		const chunk = await reader?.read()
+		await reader?.cancel()
+		const [line] = new TextDecoder().decode(chunk?.value).split('\n')
+
+		expect(response.headers.get('content-type')).toBe('application/x-ndjson')
+		expect(JSON.parse(line ?? '')).toHaveProperty('sku')
+	})
+
+	it('should parse numeric ids from the path', async () => {
+		const [, store] = await storeService.create(mockStore())
+		if (!store) throw new Error('Failed to create store')
+
+		const response = await storeHandler(request(`/stores/${store.id}`))
+		const invalid = await storeHandler(request('/stores/abc'))
+
+		expect((await read<{ id: number }>(response)).id).toBe(store.id)
+		expect(invalid.status).toBe(400)
+	})
+
+	it('should answer errors with problem details', async () => {
+		const item = await createItem()
+
+		const conflict = await handler(
+			request('/api/items', {
+				method: 'POST',
+				body: { ...mockItem(), sku: item.sku },
+			}),
+		)
+		const unknownColumn = await handler(request('/api/items?missing=1'))
+		const malformed = await handler(
+			new Request('http://localhost/api/items', {
+				method: 'POST',
+				body: '{',
+			}),
+		)
+
+		expect(conflict.status).toBe(409)
+		expect(conflict.headers.get('content-type')).toBe(
+			'application/problem+json',
+		)
+		expect(await read(conflict)).toMatchObject({ code: 'UNIQUE_VIOLATION' })
+		expect(unknownColumn.status).toBe(400)
+		expect((await read<ProblemDetails>(unknownColumn)).field).toBe('missing')
+		expect(malformed.status).toBe(400)
+	})
+
+	it('should aggregate and reject unknown aggregate fields', async () => {
+		const item = await createItem()
+		const aggregate = (body: unknown) =>
+			handler(request('/api/items/aggregate', { method: 'POST', body }))
+
+		const response = await aggregate({
+			sum: ['price'],
+			where: { id: item.id },
+		})
+		const unknownColumn = await aggregate({ sum: ['missing'] })
+		const unknownOption = await aggregate({ median: ['price'] })
+		const notAList = await aggregate({ groupBy: 'status' })
+
+		expect(response.status).toBe(200)
+		expect(await read(response)).toEqual([
+			{ count: 1, sum: { price: item.price } },
+		])
+		expect(unknownColumn.status).toBe(400)
+		expect(await read(unknownColumn)).toMatchObject({
+			field: 'missing',
+			detail: 'missing is not a column of items',
+		})
+		expect(unknownOption.status).toBe(400)
+		expect((await read<ProblemDetails>(unknownOption)).field).toBe('median')
+		expect(notAList.status).toBe(400)
+	})
+
+	it('should answer unknown routes and methods', async () => {
+		const outside = await handler(request('/other'))
+		const missing = await handler(request('/api/items/ITM-missing'))
+		const method = await handler(request('/api/items/count', { method: 'PUT' }))
+
+		expect(outside.status).toBe(404)
+		expect(await read(missing)).toMatchObject({
+			status: 404,
+			entity: 'items',
+			id: 'ITM-missing',
+		})
+		expect(method.status).toBe(405)
+		expect(method.headers.get('allow')).toBe('GET')
+	})
+
+	it('should disable routes and authorize requests', async () => {
+		const item = await createItem()
+		const guarded = createHttpHandler(itemService, {
+			basePath: '/api/items',
+			routes: { hardDelete: false },
+			authorize: ({ request, route, id }) => {
+				if (route === 'delete') return false
+				if (route === 'findOne' && id === item.id) {
+					return new Response(null, { status: 401 })
+				}
+				return request.method === 'GET'
+			},
+		})
+
+		const hardDelete = await guarded(
+			request(`/api/items/${item.id}/hard`, { method: 'DELETE' }),
+		)
+		const forbidden = await guarded(
+			request(`/api/items/${item.id}`, { method: 'DELETE' }),
+		)
+		const unauthorized = await guarded(request(`/api/items/${item.id}`))
+		const list = await guarded(request('/api/items?limit=1'))
+
+		expect(hardDelete.status).toBe(404)
+		expect(forbidden.status).toBe(403)
+		expect(unauthorized.status).toBe(401)
+		expect(list.status).toBe(200)
+		expect(await itemService.findOne(item.id)).not.toBeNull()
+	})
+})
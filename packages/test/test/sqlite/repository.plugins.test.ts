@@ -0,0 +1,174 @@
+import { definePlugin, drizzleService } from 'drizzle-service/sqlite'
+import { describe, expect, it } from 'vitest'
+import { mockItem } from './repository'
+import { db, schema, service } from './schema'
+import { setupBeforeAll } from './setup'
+
+setupBeforeAll()
+
+const soft = {
+	field: 'status',
+	deletedValue: 'DISCONTINUED',
+	notDeletedValue: 'ACTIVE',
+} as const
+
+const activeItem = () => ({ ...mockItem(), status: 'ACTIVE' as const })
+
+function tracePlugin(name: string, trace: string[]) {
+	return definePlugin({
+		name,
+		around: async (call, next) => {
+			trace.push(`${name}:${call.method}:start`)
+			const result = await next()
+			trace.push(`${name}:${call.method}:end`)
+			return result
+		},
+	})
+}
+
+describe('SQLITE Service: Plugins', () => {
+	it('should pass the method call to the plugin hooks', async () => {
+		const calls: unknown[][] = []
+		const itemService = service(schema.items, {
+			soft,
+			plugins: [
+				{
+					name: 'logging',
+					before: (call) => {
+						calls.push(['before', call.method, call.entityName, call.args])
+						return undefined
+					},
+					after: (call, result) => {
+						calls.push(['after', call.method, call.table, result])
+					},
+				},
+			],
+		})
+
+		const data = activeItem()
+		const [, item] = await itemService.create(data)
+
+		expect(calls).toEqual([
+			['before', 'create', 'items', [data]],
+			['after', 'create', schema.items, [null, item]],
+		])
+	})
+
+	it('should only wrap the methods listed by the plugin', async () => {
+		const methods: string[] = []
+		const itemService = service(schema.items, {
+			soft,
+			plugins: [
+				{
+					name: 'reads',
+					methods: ['findOne', 'findBy'],
+					before: (call) => {
+						methods.push(call.method)
+						return undefined
+					},
+				},
+			],
+		})
+
+		const [, item] = await itemService.create(activeItem())
+		if (!item) throw new Error('Failed to create item')
+		await itemService.findOne(item.id)
+		await itemService.update(item.id, { name: 'Renamed item' })
+
+		expect(methods).toEqual(['findOne'])
+	})
+
+	it('should let plugins replace the arguments and the result', async () => {
+		const itemService = service(schema.items, {
+			soft,
+			plugins: [
+				{
+					name: 'rename',
+					methods: ['create'],
+					before: ({ args: [data, ...rest] }) => [
+						{ ...(data as object), name: 'Replaced name' },
+						...rest,
+					],
+				},
+				{
+					name: 'missing',
+					methods: ['findOne'],
+					after: (_call, result) => result ?? 'not found',
+				},
+			],
+		})
+
+		const [, item] = await itemService.create(activeItem())
+		expect(item?.name).toBe('Replaced name')
+		expect(await itemService.findOne('missing-id')).toBe('not found')
+	})
+
+	it('should run global plugins before the service plugins', async () => {
+		const trace: string[] = []
+		const globalService = drizzleService(db, {
+			plugins: [tracePlugin('global', trace)],
+		})
+		const itemService = globalService(schema.items, {
+			soft,
+			plugins: [tracePlugin('local', trace)],
+		})
+
+		await itemService.count()
+
+		expect(trace).toEqual([
+			'global:count:start',
+			'local:count:start',
+			'local:count:end',
+			'global:count:end',
+		])
+	})
+
+	it('should add typed extension methods', async () => {
+		const globalService = drizzleService(db, {
+			plugins: [
+				definePlugin({
+					name: 'describe',
+					extend: (_service, { entityName }) => ({
+						describe: () => `service of ${entityName}`,
+					}),
+				}),
+			],
+		})
+		const itemService = globalService(schema.items, {
+			soft,
+			plugins: [
+				definePlugin({
+					name: 'exists',
+					extend: (target) => ({
+						exists: async (id: string) => (await target.findOne(id)) !== null,
+					}),
+				}),
+			],
+		})
+
+		const [, item] = await itemService.create(activeItem())
+		if (!item) throw new Error('Failed to create item')
+
+		expect(itemService.describe()).toBe('service of items')
+		expect(await itemService.exists(item.id)).toBe(true)
+		expect(await itemService.exists('missing-id')).toBe(false)
+		await itemService.transaction(async (txService) => {
+			expect(await txService.exists(item.id)).toBe(true)
+		})
+	})
+
+	it('should run the plugins once for a call with a transaction', async () => {
+		const trace: string[] = []
+		const itemService = service(schema.items, {
+			soft,
+			plugins: [tracePlugin('local', trace)],
+		})
+
+		await db.transaction(async (tx) => {
+			const [error] = await itemService.create(activeItem(), { tx })
+			if (error) throw error
+		})
+
+		expect(trace).toEqual(['local:create:start', 'local:create:end'])
+	})
+})
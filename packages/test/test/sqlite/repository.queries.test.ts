@@ -1,7 +1,8 @@
-import { eq } from 'drizzle-orm'
+import { eq, inArray } from 'drizzle-orm'
 import { beforeAll, describe, expect, it } from 'vitest'
 import {
 	itemService,
+	mockItem,
 	mockSaleHeader,
 	mockSaleLine,
 	salesLinesService,
@@ -211,6 +212,118 @@ describe('SQLITE Service: Query Operations (Basic)', () => {
 		}
 	})
 
+	it('should page through rows sharing the same sort value without gaps', async () => {
+		const createdAt = new Date()
+		const [, created] = await itemService.bulkCreate(
+			Array.from({ length: 7 }, () => ({
+				...mockItem(),
+				name: 'Keyset Item',
+				status: 'ACTIVE' as const,
+				createdAt,
+			})),
+		)
+		const ids = created.map((item) => item.id)
+		const where = inArray(items.id, ids)
+
+		const nextPage = (cursor: string | null) =>
+			itemService.findWithCursor({
+				limit: 2,
+				orderBy: { name: 'asc', createdAt: 'desc' },
+				where,
+				cursor,
+			})
+
+		const seen: string[] = []
+		let cursor: string | null = null
+		do {
+			const page = await nextPage(cursor)
+			expect(page.items.length).toBeLessThanOrEqual(2)
+			seen.push(...page.items.map((item) => item.id))
+			cursor = page.nextCursor
+		} while (cursor)
+
+		expect(seen).toHaveLength(ids.length)
+		expect(new Set(seen)).toEqual(new Set(ids))
+	})
+
+	it('should page backward with the previous cursor', async () => {
+		const firstPage = await itemService.findWithCursor({
+			limit: 3,
+			orderBy: { name: 'asc' },
+		})
+		expect(firstPage.prevCursor).toBeNull()
+		expect(firstPage.nextCursor).toBeTypeOf('string')
+
+		const secondPage = await itemService.findWithCursor({
+			limit: 3,
+			orderBy: { name: 'asc' },
+			cursor: firstPage.nextCursor,
+		})
+		expect(secondPage.pagination.hasPrev).toBe(true)
+		expect(secondPage.items.map((item) => item.id)).not.toContain(
+			firstPage.items[0]?.id,
+		)
+
+		const backPage = await itemService.findWithCursor({
+			limit: 3,
+			orderBy: { name: 'asc' },
+			cursor: secondPage.prevCursor,
+		})
+		expect(backPage.items.map((item) => item.id)).toEqual(
+			firstPage.items.map((item) => item.id),
+		)
+		expect(backPage.prevCursor).toBeNull()
+		expect(backPage.nextCursor).toBeTypeOf('string')
+	})
+
+	it('should page through rows with null sort values', async () => {
+		const [, created] = await itemService.bulkCreate(
+			Array.from({ length: 5 }, (_, index) => ({
+				...mockItem(),
+				status: 'ACTIVE' as const,
+				barcode: index % 2 === 0 ? null : `NULL-SORT-${index}`,
+			})),
+		)
+		const ids = created.map((item) => item.id)
+		const where = inArray(items.id, ids)
+
+		const pageAt = (cursor: string | null) =>
+			itemService.findWithCursor({
+				limit: 2,
+				orderBy: { barcode: 'desc' },
+				where,
+				cursor,
+			})
+
+		let page = await pageAt(null)
+		const forward = page.items.map((item) => item.id)
+		while (page.nextCursor) {
+			page = await pageAt(page.nextCursor)
+			forward.push(...page.items.map((item) => item.id))
+		}
+
+		expect(forward).toHaveLength(ids.length)
+		expect(new Set(forward)).toEqual(new Set(ids))
+		const barcodes = forward.map(
+			(id) => created.find((item) => item.id === id)?.barcode ?? null,
+		)
+		expect(barcodes.slice(0, 2)).toEqual(['NULL-SORT-3', 'NULL-SORT-1'])
+		expect(barcodes.slice(2)).toEqual([null, null, null])
+
+		const backward = page.items.map((item) => item.id)
+		while (page.prevCursor) {
+			page = await pageAt(page.prevCursor)
+			backward.unshift(...page.items.map((item) => item.id))
+		}
+		expect(backward).toEqual(forward)
+	})
+
+	it('should reject a malformed cursor', async () => {
+		await expect(
+			itemService.findWithCursor({ limit: 3, cursor: 'not-a-cursor' }),
+		).rejects.toThrow('Invalid cursor')
+	})
+
 	it('should filter records using search criteria', async () => {
 		// Create an item with a specific name pattern for testing
 		const testItem = await setupCreations.items()
@@ -225,7 +338,9 @@ describe('SQLITE Service: Query Operations (Basic)', () => {
 		expect(itemsWithPattern.length).toBeGreaterThan(0)
 
 		// All returned items should have names containing the pattern
-		expect(itemsWithPattern.every((item) => item.name.includes(searchPattern))).toBe(true)
+		expect(
+			itemsWithPattern.every((item) => item.name.includes(searchPattern)),
+		).toBe(true)
 	})
 
 	it('should filter records with multiple criteria', async () => {
@@ -238,7 +353,11 @@ describe('SQLITE Service: Query Operations (Basic)', () => {
 		expect(filteredItems).toBeInstanceOf(Array)
 
 		// All returned items should match all criteria
-		expect(filteredItems.every((item) => item.status === 'ACTIVE' && item.type === 'ITEM')).toBe(true)
+		expect(
+			filteredItems.every(
+				(item) => item.status === 'ACTIVE' && item.type === 'ITEM',
+			),
+		).toBe(true)
 	})
 
 	it('should search records with no results', async () => {
@@ -0,0 +1,110 @@
+import { eq } from 'drizzle-orm'
+import { beforeAll, describe, expect, it } from 'vitest'
+import {
+	itemService,
+	mockItem,
+	mockStore,
+	salesLinesService,
+	salesService,
+	storeService,
+} from './repository'
+import { items, salesLines } from './schema'
+import { setupBeforeAll } from './setup'
+
+setupBeforeAll()
+
+let storeId = 0
+
+beforeAll(async () => {
+	const [, store] = await storeService.create(mockStore())
+	if (!store) throw new Error('Failed to create store')
+	storeId = store.id
+	await itemService.bulkCreate(Array.from({ length: 3 }, () => mockItem()))
+})
+
+describe('SQLITE Service: Select', () => {
+	it('should only fetch the selected columns', async () => {
+		const rows = await itemService.find({
+			select: ['id', 'name', 'price'],
+			limit: 3,
+		})
+
+		expect(rows.length).toBeGreaterThan(0)
+		for (const row of rows) {
+			expect(Object.keys(row).sort()).toEqual(['id', 'name', 'price'])
+		}
+	})
+
+	it('should keep the filters of findOne and findBy', async () => {
+		const [, item] = await itemService.create(mockItem())
+		if (!item) throw new Error('Failed to create item')
+
+		const found = await itemService.findOne(item.id, { select: ['name'] })
+		expect(found).toEqual({ name: item.name })
+
+		const [bySku] = await itemService.findBy(
+			{ sku: item.sku },
+			{ select: ['id', 'name'] },
+		)
+		expect(bySku).toEqual({ id: item.id, name: item.name })
+	})
+
+	it('should pick the columns of every joined table', async () => {
+		const sale = await salesService.mockHeader(storeId)
+
+		const rows = await salesLinesService.find({
+			relations: [
+				{ type: 'inner', table: items, on: eq(salesLines.itemNo, items.id) },
+			],
+			select: { sales_lines: ['lineNo', 'quantity'], items: ['name'] },
+			where: eq(salesLines.documentNo, sale.id),
+		})
+
+		expect(rows).toHaveLength(sale.salesLines.length)
+		for (const row of rows) {
+			expect(Object.keys(row.sales_lines).sort()).toEqual([
+				'lineNo',
+				'quantity',
+			])
+			expect(Object.keys(row.items)).toEqual(['name'])
+		}
+	})
+
+	it('should pick the columns of the root rows with include', async () => {
+		const sale = await salesService.mockHeader(storeId)
+
+		const found = await salesService.findOne(sale.id, {
+			select: ['id', 'documentNo'],
+			include: { salesLines: true },
+		})
+
+		expect(Object.keys(found ?? {}).sort()).toEqual([
+			'documentNo',
+			'id',
+			'salesLines',
+		])
+		expect(found?.salesLines).toHaveLength(sale.salesLines.length)
+	})
+
+	it('should require the cursor fields in findWithCursor', async () => {
+		await expect(
+			itemService.findWithCursor({ select: ['name'], limit: 2 }),
+		).rejects.toThrow('select must include id')
+
+		const page = await itemService.findWithCursor({
+			select: ['id', 'name'],
+			orderBy: { name: 'asc' },
+			limit: 2,
+		})
+		expect(page.items).toHaveLength(2)
+		expect(Object.keys(page.items[0] ?? {}).sort()).toEqual(['id', 'name'])
+
+		const next = await itemService.findWithCursor({
+			select: ['id', 'name'],
+			orderBy: { name: 'asc' },
+			limit: 2,
+			cursor: page.nextCursor,
+		})
+		expect(next.items[0]?.id).not.toBe(page.items[1]?.id)
+	})
+})
@@ -0,0 +1,128 @@
+import { beforeAll, describe, expect, it } from 'vitest'
+import {
+	itemEntryService,
+	itemService,
+	mockItem,
+	mockSaleHeader,
+	mockStore,
+	salesService,
+	storeService,
+} from './repository'
+import { setupBeforeAll } from './setup'
+
+setupBeforeAll()
+
+let storeId = 0
+let entryNos: number[] = []
+
+beforeAll(async () => {
+	const [, store] = await storeService.create(mockStore())
+	if (!store) throw new Error('Failed to create store')
+	storeId = store.id
+	const [, items] = await itemService.bulkCreate(
+		Array.from({ length: 7 }, () => mockItem()),
+	)
+	const [, entries] = await itemEntryService.bulkCreate(
+		items.map((item) => ({
+			itemId: item.id,
+			type: 'POSITIVE_ADJ' as const,
+			storeId,
+			quantity: 5,
+		})),
+	)
+	entryNos = entries.map((entry) => entry.entryNo).sort((a, b) => a - b)
+})
+
+async function collect<T>(rows: AsyncIterable<T>): Promise<T[]> {
+	const result: T[] = []
+	for await (const row of rows) result.push(row)
+	return result
+}
+
+describe('SQLITE Service: Stream', () => {
+	it('should stream every matching row once ordered by id', async () => {
+		const rows = await collect(
+			itemEntryService.stream({
+				workspace: { field: 'storeId', value: storeId },
+				chunkSize: 3,
+			}),
+		)
+
+		expect(rows.map((row) => row.entryNo)).toEqual(entryNos)
+	})
+
+	it('should stop reading when the iteration stops', async () => {
+		const seen: number[] = []
+		for await (const row of itemEntryService.stream({
+			workspace: { field: 'storeId', value: storeId },
+			chunkSize: 2,
+		})) {
+			seen.push(row.entryNo)
+			if (seen.length === 3) break
+		}
+
+		expect(seen).toEqual(entryNos.slice(0, 3))
+	})
+
+	it('should call the handler with every chunk', async () => {
+		const chunks: number[][] = []
+
+		const summary = await itemEntryService.forEachChunk(
+			{ storeId },
+			3,
+			async (rows, chunk) => {
+				expect(chunk).toBe(chunks.length)
+				chunks.push(rows.map((row) => row.entryNo))
+			},
+		)
+
+		expect(chunks.map((rows) => rows.length)).toEqual([3, 3, 1])
+		expect(chunks.flat()).toEqual(entryNos)
+		expect(summary).toEqual({ chunks: 3, rows: 7 })
+	})
+
+	it('should only fetch the selected columns', async () => {
+		const rows = await collect(
+			itemEntryService.stream({
+				workspace: { field: 'storeId', value: storeId },
+				select: ['entryNo', 'quantity'],
+			}),
+		)
+		expect(rows).toHaveLength(entryNos.length)
+		expect(Object.keys(rows[0] ?? {}).sort()).toEqual(['entryNo', 'quantity'])
+
+		await expect(
+			collect(itemEntryService.stream({ select: ['quantity'] })),
+		).rejects.toThrow('select must include entryNo')
+	})
+
+	it('should skip soft deleted rows unless withDeleted is set', async () => {
+		const [, store] = await storeService.create(mockStore())
+		if (!store) throw new Error('Failed to create store')
+		const [, sales] = await salesService.bulkCreate([
+			mockSaleHeader(store.id),
+			mockSaleHeader(store.id),
+		])
+		await salesService.delete(sales[0]?.id ?? '')
+
+		const seen: string[] = []
+		await salesService.forEachChunk({ storeId: store.id }, 10, (rows) => {
+			seen.push(...rows.map((row) => row.id))
+		})
+		expect(seen).toEqual([sales[1]?.id])
+
+		const all = await collect(
+			salesService.stream({
+				workspace: { field: 'storeId', value: store.id },
+				withDeleted: true,
+			}),
+		)
+		expect(all).toHaveLength(2)
+	})
+
+	it('should reject invalid chunk sizes', async () => {
+		await expect(
+			itemEntryService.forEachChunk({ storeId }, 0, () => {}),
+		).rejects.toThrow('size must be a positive integer')
+	})
+})
@@ -29,6 +29,7 @@ export const salesService = service(schema.salesHeaders, {
 		notDeletedValue: 'DRAFT',
 	},
 	query: db.query.salesHeaders,
+	relations: { salesLines: () => salesLinesService },
 	getSalesWithLines: async () => {
 		return await salesService.db.query.salesHeaders.findMany({
 			with: {
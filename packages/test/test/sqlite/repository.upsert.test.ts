@@ -0,0 +1,181 @@
+import { beforeAll, describe, expect, it } from 'vitest'
+import {
+	itemService,
+	mockItem,
+	mockStore,
+	salesLinesService,
+	salesService,
+	storeService,
+} from './repository'
+import { schema, service } from './schema'
+import { setupBeforeAll } from './setup'
+
+setupBeforeAll()
+
+let storeId = 0
+
+beforeAll(async () => {
+	const [, store] = await storeService.create(mockStore())
+	if (!store) throw new Error('Failed to create store')
+	storeId = store.id
+})
+
+const createItems = async (length: number) => {
+	const [, items] = await itemService.bulkCreate(
+		Array.from({ length }, () => mockItem()),
+	)
+	return items
+}
+
+describe('SQLITE Service: Bulk Upsert', () => {
+	it('should insert the new rows and update the conflicting ones', async () => {
+		const [existing] = await createItems(1)
+		if (!existing) throw new Error('Failed to create item')
+		const added = mockItem()
+
+		const [batch, data] = await itemService.bulkUpsert(
+			[{ ...mockItem(), sku: existing.sku, price: 42, name: 'Renamed' }, added],
+			{ target: ['sku'], update: ['price'] },
+		)
+
+		expect(batch).toMatchObject({
+			processed: 2,
+			failed: 0,
+			inserted: 1,
+			updated: 1,
+		})
+		expect(data).toHaveLength(2)
+
+		const updated = await itemService.findOne(existing.id, {
+			withDeleted: true,
+		})
+		expect(updated?.price).toBe(42)
+		expect(updated?.name).toBe(existing.name)
+		const [inserted] = await itemService.findBy(
+			{ sku: added.sku },
+			{ withDeleted: true },
+		)
+		expect(inserted?.name).toBe(added.name)
+	})
+
+	it('should overwrite every given column but the target with all', async () => {
+		const [existing] = await createItems(1)
+		if (!existing) throw new Error('Failed to create item')
+		const changes = { ...mockItem(), sku: existing.sku }
+
+		const [batch, [row]] = await itemService.bulkUpsert([changes], {
+			target: ['sku'],
+		})
+
+		expect(batch).toMatchObject({ inserted: 0, updated: 1 })
+		expect(row?.id).toBe(existing.id)
+		expect(row?.name).toBe(changes.name)
+		expect(row?.description).toBe(changes.description)
+		expect(row?.price).toBe(changes.price)
+	})
+
+	it('should leave the existing rows untouched with none', async () => {
+		const [existing] = await createItems(1)
+		if (!existing) throw new Error('Failed to create item')
+
+		const [batch, data] = await itemService.bulkUpsert(
+			[{ ...mockItem(), sku: existing.sku, price: 1 }, mockItem()],
+			{ target: ['sku'], update: 'none' },
+		)
+
+		expect(batch).toMatchObject({
+			processed: 1,
+			inserted: 1,
+			updated: 0,
+			skipped: 1,
+		})
+		expect(data).toHaveLength(1)
+		expect(data[0]?.sku).not.toBe(existing.sku)
+		const unchanged = await itemService.findOne(existing.id, {
+			withDeleted: true,
+		})
+		expect(unchanged?.price).toBe(existing.price)
+	})
+
+	it('should conflict on the primary key', async () => {
+		const sale = await salesService.mockHeader(storeId)
+		const [line] = sale.salesLines
+		if (!line) throw new Error('Missing sales line')
+
+		const [batch, [row]] = await salesLinesService.bulkUpsert(
+			[{ ...line, quantity: line.quantity + 1 }],
+			{ target: ['lineNo'], update: ['quantity'] },
+		)
+
+		expect(batch).toMatchObject({ inserted: 0, updated: 1 })
+		expect(row?.quantity).toBe(line.quantity + 1)
+		expect(
+			await salesLinesService.findBy({ documentNo: sale.id }),
+		).toHaveLength(sale.salesLines.length)
+	})
+
+	it('should count the rows of every batch', async () => {
+		const batchedService = service(schema.items, { batchSize: 2 })
+		const existing = await createItems(3)
+
+		const [batch, data] = await batchedService.bulkUpsert(
+			[
+				...existing.map((item) => ({ ...item, price: 7 })),
+				mockItem(),
+				mockItem(),
+			],
+			{ target: ['sku'], update: ['price'] },
+		)
+
+		expect(batch).toMatchObject({
+			size: 2,
+			processed: 5,
+			inserted: 2,
+			updated: 3,
+		})
+		expect(data).toHaveLength(5)
+		expect(
+			data
+				.filter((row) => existing.some((item) => item.id === row.id))
+				.every((row) => row.price === 7),
+		).toBe(true)
+	})
+
+	it('should report the rows of a failing batch and keep the others', async () => {
+		const batchedService = service(schema.items, { batchSize: 2 })
+		const invalid = () => [
+			mockItem(),
+			mockItem(),
+			{ ...mockItem(), name: null as never },
+			mockItem(),
+		]
+
+		const rows = invalid()
+		const [batch, data] = await batchedService.bulkUpsert(rows, {
+			target: ['sku'],
+		})
+
+		expect(batch).toMatchObject({ processed: 2, failed: 2, inserted: 2 })
+		expect(batch.errors?.map((error) => error.index)).toEqual([2, 3])
+		expect(data.map((row) => row.sku)).toEqual([rows[0]?.sku, rows[1]?.sku])
+
+		const retried = invalid()
+		const [rowByRow] = await batchedService.bulkUpsert(
+			retried,
+			{ target: ['sku'] },
+			{ onBatchError: 'row-by-row' },
+		)
+
+		expect(rowByRow).toMatchObject({ processed: 3, failed: 1, inserted: 3 })
+		expect(rowByRow.errors?.map((error) => error.index)).toEqual([2])
+	})
+
+	it('should reject a target that is not a column', async () => {
+		await expect(
+			itemService.bulkUpsert([mockItem()], { target: ['missing' as never] }),
+		).rejects.toThrow('missing is not a column of items')
+		await expect(
+			itemService.bulkUpsert([mockItem()], { target: [] }),
+		).rejects.toThrow('target must include at least one column')
+	})
+})
@@ -2,7 +2,7 @@ import { createClient } from '@libsql/client'
 import { relations, type SQL, sql } from 'drizzle-orm'
 import { drizzle } from 'drizzle-orm/libsql'
 import { index, sqliteTable } from 'drizzle-orm/sqlite-core'
-import { drizzleService } from 'drizzle-service/sqlite'
+import { auditTable, drizzleService } from 'drizzle-service/sqlite'
 
 export const itemType = ['ITEM', 'SERVICE', 'BUNDLE', ' '] as const
 
@@ -119,6 +119,9 @@ export const items = sqliteTable(
 			.integer('updated_at', { mode: 'timestamp' })
 			.$defaultFn(() => new Date())
 			.$onUpdateFn(() => new Date()),
+		deletedAt: t.integer('deleted_at', { mode: 'timestamp' }),
+		deletedBy: t.text('deleted_by'),
+		deleteReason: t.text('delete_reason'),
 	}),
 	(t) => [
 		index('items_name_idx').on(t.name),
@@ -202,6 +205,7 @@ export const salesHeaders = sqliteTable(
 				(): SQL =>
 					sql`${salesHeaders.amount} + COALESCE(${salesHeaders.tax}, 0)`,
 			),
+		version: t.integer().default(1).notNull(),
 		createdAt: t
 			.integer('updated_at', { mode: 'timestamp' })
 			.$defaultFn(() => new Date())
@@ -317,6 +321,8 @@ export const salesHeadersRelations = relations(
 	}),
 )
 
+export const auditLog = auditTable()
+
 export const schema = {
 	stores,
 	items,
@@ -328,6 +334,7 @@ export const schema = {
 	salesLinesRelations,
 	salesHeadersRelations,
 	itemsRelations,
+	auditLog,
 }
 
 export const client = createClient({ url: 'file:./test/sqlite/db.sqlite' })
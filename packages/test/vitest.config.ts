@@ -1,8 +1,12 @@
 import tsconfigPaths from 'vite-tsconfig-paths'
-import { defineConfig } from 'vitest/config'
+import { configDefaults, defineConfig } from 'vitest/config'
 export default defineConfig({
 	plugins: [tsconfigPaths()],
 	test: {
+		// MySQL suites need a running server, point MYSQL_URL at it to enable them
+		exclude: process.env.MYSQL_URL
+			? configDefaults.exclude
+			: [...configDefaults.exclude, 'test/mysql/**'],
 		typecheck: {
 			enabled: true,
 		},